@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { OfflineAudioContext } from 'web-audio-api';
+
+import { crossfadeToTimeConstant, rampParam } from './automation';
+
+const SAMPLE_RATE = 8000;
+
+type RenderContext = BaseAudioContext & { startRendering: () => Promise<AudioBuffer> };
+
+/** Renders a constant 1 through a gain node, so the output is the gain's value over time. */
+const renderGain = async (seconds: number, automate: (gain: AudioParam) => void) => {
+  const context = new OfflineAudioContext(1, SAMPLE_RATE * seconds, SAMPLE_RATE) as unknown as RenderContext;
+  const source = context.createConstantSource();
+  const gain = context.createGain();
+  source.connect(gain);
+  gain.connect(context.destination);
+  automate(gain.gain);
+  source.start();
+  const buffer = await context.startRendering();
+  const samples = buffer.getChannelData(0);
+  return (time: number) => samples[Math.round(time * SAMPLE_RATE)];
+};
+
+describe('rampParam', () => {
+  it('holds the value until the start time and then approaches the target exponentially', async () => {
+    const at = await renderGain(1, gain => rampParam(gain, 0, 0.2, 0.1));
+    expect(at(0.1)).toBeCloseTo(1, 3);
+    // After one time constant 1/e of the distance is left, after three about 5 %.
+    expect(at(0.3)).toBeCloseTo(Math.exp(-1), 2);
+    expect(at(0.5)).toBeCloseTo(Math.exp(-3), 2);
+    expect(at(0.99)).toBeLessThan(0.001);
+  });
+
+  it('jumps to the target without a time constant', async () => {
+    const at = await renderGain(0.5, gain => rampParam(gain, 0.25, 0.1, 0));
+    expect(at(0.09)).toBeCloseTo(1, 3);
+    expect(at(0.11)).toBeCloseTo(0.25, 3);
+  });
+
+  it('replaces a pending ramp instead of adding to it', async () => {
+    const at = await renderGain(1, gain => {
+      rampParam(gain, 0, 0.5, 0.05);
+      rampParam(gain, 2, 0, 0.05);
+    });
+    expect(at(0.9)).toBeCloseTo(2, 2);
+  });
+});
+
+describe('crossfadeToTimeConstant', () => {
+  it('reaches about 95 % of the way within the crossfade', () => {
+    const crossfade = 0.6;
+    expect(1 - Math.exp(-crossfade / crossfadeToTimeConstant(crossfade))).toBeCloseTo(0.95, 2);
+  });
+});
@@ -0,0 +1,26 @@
+/** Time constant (seconds) for slider moves: short enough to feel immediate, long enough to avoid zipper noise. */
+export const DEFAULT_SMOOTHING = 0.02;
+
+/** Crossfade (seconds) when switching profiles. */
+export const DEFAULT_PROFILE_CROSSFADE = 0.5;
+
+/** Crossfade for A/B comparison: perceived as instant, but still free of clicks. */
+export const AB_SWITCH_CROSSFADE = 0.015;
+
+/** An exponential approach reaches ~95 % of the target after three time constants. */
+export const crossfadeToTimeConstant = (crossfade: number): number => crossfade / 3;
+
+/**
+ * Moves an AudioParam towards `value` with an exponential approach. Pending
+ * automation is cancelled and the ramp starts from the current value, so calls in
+ * quick succession (dragging a slider) chain smoothly instead of jumping.
+ */
+export const rampParam = (param: AudioParam, value: number, time: number, timeConstant: number) => {
+  param.cancelScheduledValues(time);
+  if (timeConstant <= 0) {
+    param.setValueAtTime(value, time);
+    return;
+  }
+  param.setValueAtTime(param.value, time);
+  param.setTargetAtTime(value, time, timeConstant);
+};
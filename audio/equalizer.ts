@@ -0,0 +1,113 @@
+import { EQFilters, EQSettings } from '../types';
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+
+export interface Equalizer {
+  input: GainNode;
+  output: GainNode;
+  /** Rebuilds the band filters for another layout. */
+  setBands: (frequencies: number[], eq: EQSettings) => void;
+  setBandGain: (frequency: number, gain: number, time: number, timeConstant?: number) => void;
+  update: (eq: EQSettings, filters: EQFilters, time: number, timeConstant?: number) => void;
+  /** Combined magnitude response in dB of everything in the chain, at its current parameter values. */
+  getFrequencyResponse: (frequencies: Float32Array) => Float32Array;
+}
+
+// Q is in dB for BiquadFilterNode's low- and high-pass: -3 dB is a Butterworth response without a resonance peak.
+const BUTTERWORTH_Q_DB = -3.0103;
+
+/**
+ * Q of a peaking band whose width reaches halfway to its neighbours, so adjacent
+ * bands overlap at about their half-gain points (1.41 for octave bands, 4.3 for
+ * third-octave bands).
+ */
+const bandQ = (frequencies: number[], i: number): number => {
+  const distances: number[] = [];
+  if (i > 0) distances.push(Math.log2(frequencies[i] / frequencies[i - 1]));
+  if (i < frequencies.length - 1) distances.push(Math.log2(frequencies[i + 1] / frequencies[i]));
+  const octaves = distances.length > 0 ? distances.reduce((sum, d) => sum + d, 0) / distances.length : 1;
+  const ratio = Math.pow(2, octaves);
+  return Math.sqrt(ratio) / (ratio - 1);
+};
+
+/**
+ * Band EQ framed by optional shelf and high-/low-pass filters:
+ * high-pass → low shelf → peaking bands → high shelf → low-pass.
+ * Disabled filters stay in the chain with neutral values (0 dB shelves, pass
+ * filters at 0 Hz and Nyquist), so switching them on and off is ramped too.
+ */
+export const createEqualizer = (context: BaseAudioContext, frequencies: number[], eq: EQSettings, filters: EQFilters): Equalizer => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const nyquist = context.sampleRate / 2;
+
+  const createFilter = (type: BiquadFilterType) => {
+    const filter = context.createBiquadFilter();
+    filter.type = type;
+    return filter;
+  };
+  const highPass = createFilter('highpass');
+  const lowShelf = createFilter('lowshelf');
+  const highShelf = createFilter('highshelf');
+  const lowPass = createFilter('lowpass');
+  highPass.Q.value = BUTTERWORTH_Q_DB;
+  lowPass.Q.value = BUTTERWORTH_Q_DB;
+
+  let bandFrequencies: number[] = [];
+  let bands: BiquadFilterNode[] = [];
+
+  input.connect(highPass);
+  highPass.connect(lowShelf);
+  highShelf.connect(lowPass);
+  lowPass.connect(output);
+
+  const setBands = (nextFrequencies: number[], nextEq: EQSettings) => {
+    lowShelf.disconnect();
+    bands.forEach(band => band.disconnect());
+    bandFrequencies = nextFrequencies;
+    bands = nextFrequencies.map((freq, i) => {
+      const band = createFilter('peaking');
+      band.frequency.value = freq;
+      band.Q.value = bandQ(nextFrequencies, i);
+      band.gain.value = nextEq[freq] || 0;
+      return band;
+    });
+    let node: AudioNode = lowShelf;
+    for (const band of bands) {
+      node.connect(band);
+      node = band;
+    }
+    node.connect(highShelf);
+  };
+
+  const setBandGain = (frequency: number, gain: number, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    const index = bandFrequencies.indexOf(frequency);
+    if (index !== -1) rampParam(bands[index].gain, gain, time, timeConstant);
+  };
+
+  const update = (nextEq: EQSettings, nextFilters: EQFilters, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    bands.forEach((band, i) => rampParam(band.gain, nextEq[bandFrequencies[i]] || 0, time, timeConstant));
+    const clamp = (freq: number) => Math.min(freq, nyquist);
+    rampParam(highPass.frequency, nextFilters.highPass.enabled ? clamp(nextFilters.highPass.frequency) : 0, time, timeConstant);
+    rampParam(lowPass.frequency, nextFilters.lowPass.enabled ? clamp(nextFilters.lowPass.frequency) : nyquist, time, timeConstant);
+    rampParam(lowShelf.frequency, clamp(nextFilters.lowShelf.frequency), time, timeConstant);
+    rampParam(lowShelf.gain, nextFilters.lowShelf.enabled ? nextFilters.lowShelf.gain : 0, time, timeConstant);
+    rampParam(highShelf.frequency, clamp(nextFilters.highShelf.frequency), time, timeConstant);
+    rampParam(highShelf.gain, nextFilters.highShelf.enabled ? nextFilters.highShelf.gain : 0, time, timeConstant);
+  };
+
+  const getFrequencyResponse = (points: Float32Array) => {
+    const total = new Float32Array(points.length).fill(1);
+    const magnitude = new Float32Array(points.length);
+    const phase = new Float32Array(points.length);
+    [highPass, lowShelf, ...bands, highShelf, lowPass].forEach(filter => {
+      filter.getFrequencyResponse(points, magnitude, phase);
+      for (let i = 0; i < points.length; i++) total[i] *= magnitude[i];
+    });
+    return total.map(m => 20 * Math.log10(Math.max(m, 1e-6)));
+  };
+
+  setBands(frequencies, eq);
+  update(eq, filters, context.currentTime, 0);
+
+  return { input, output, setBands, setBandGain, update, getFrequencyResponse };
+};
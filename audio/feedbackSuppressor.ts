@@ -0,0 +1,92 @@
+export interface FeedbackSuppressor {
+  input: GainNode;
+  output: GainNode;
+  suppress: (frequency: number, time: number) => void;
+  relax: (time: number) => void;
+  reset: (time: number) => void;
+  activeFrequencies: () => number[];
+}
+
+const NOTCH_COUNT = 8;
+const NOTCH_Q = 30;
+const NOTCH_STEP = -12;
+const NOTCH_MAX_DEPTH = -36;
+const NOTCH_HOLD_SECONDS = 30;
+const NOTCH_RELAX_STEP = 1;
+const SAME_NOTCH_RATIO = Math.pow(2, 1 / 12);
+const DUCK_GAIN = Math.pow(10, -12 / 20);
+const DUCK_RECOVERY_SECONDS = 0.8;
+
+interface Notch {
+  filter: BiquadFilterNode;
+  frequency: number;
+  depth: number;
+  lastTriggered: number;
+}
+
+/**
+ * A bank of narrow peaking filters that are placed on detected feedback
+ * frequencies, plus a ducking gain that briefly lowers the output so the loop
+ * is broken right away. Notches that stay quiet for a while are relaxed again.
+ */
+export const createFeedbackSuppressor = (context: BaseAudioContext): FeedbackSuppressor => {
+  const input = context.createGain();
+  const output = context.createGain();
+
+  const notches: Notch[] = Array.from({ length: NOTCH_COUNT }, () => {
+    const filter = context.createBiquadFilter();
+    filter.type = 'peaking';
+    filter.Q.value = NOTCH_Q;
+    filter.gain.value = 0;
+    filter.frequency.value = 1000;
+    return { filter, frequency: 1000, depth: 0, lastTriggered: -Infinity };
+  });
+
+  let lastNode: AudioNode = input;
+  notches.forEach(({ filter }) => {
+    lastNode.connect(filter);
+    lastNode = filter;
+  });
+  lastNode.connect(output);
+
+  const suppress = (frequency: number, time: number) => {
+    const existing = notches.find(n => n.depth < 0 && Math.max(n.frequency / frequency, frequency / n.frequency) < SAME_NOTCH_RATIO);
+    const notch = existing
+      ?? notches.find(n => n.depth === 0)
+      ?? notches.reduce((oldest, n) => (n.lastTriggered < oldest.lastTriggered ? n : oldest));
+
+    if (notch !== existing) {
+      notch.depth = 0;
+      notch.frequency = frequency;
+      notch.filter.frequency.setValueAtTime(frequency, time);
+    }
+    notch.depth = Math.max(notch.depth + NOTCH_STEP, NOTCH_MAX_DEPTH);
+    notch.lastTriggered = time;
+    notch.filter.gain.setTargetAtTime(notch.depth, time, 0.005);
+
+    output.gain.cancelScheduledValues(time);
+    output.gain.setTargetAtTime(DUCK_GAIN, time, 0.005);
+    output.gain.setTargetAtTime(1, time + 0.3, DUCK_RECOVERY_SECONDS / 3);
+  };
+
+  const relax = (time: number) => {
+    notches.forEach(notch => {
+      if (notch.depth === 0 || time - notch.lastTriggered < NOTCH_HOLD_SECONDS) return;
+      notch.depth = Math.min(0, notch.depth + NOTCH_RELAX_STEP);
+      notch.filter.gain.setTargetAtTime(notch.depth, time, 0.1);
+    });
+  };
+
+  const reset = (time: number) => {
+    notches.forEach(notch => {
+      notch.depth = 0;
+      notch.lastTriggered = -Infinity;
+      notch.filter.gain.setTargetAtTime(0, time, 0.05);
+    });
+  };
+
+  const activeFrequencies = () =>
+    notches.filter(n => n.depth < 0).map(n => n.frequency).sort((a, b) => a - b);
+
+  return { input, output, suppress, relax, reset, activeFrequencies };
+};
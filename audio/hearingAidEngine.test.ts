@@ -0,0 +1,269 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AudioBufferSourceNode, AudioNode as NodeAudioNode, AudioParam as NodeAudioParam, MediaStreamAudioSourceNode, OfflineAudioContext } from 'web-audio-api';
+
+import { DEFAULT_EQ } from '../constants';
+import { Profile } from '../types';
+import { createHearingAidEngine, DEFAULT_ENGINE_SETTINGS, HearingAidEngine, settingsFromProfile } from './hearingAidEngine';
+import { COMPRESSOR_LOOKAHEAD } from './limiter';
+
+const SAMPLE_RATE = 44100;
+const RENDER_SECONDS = 0.5;
+
+// Every connection made while building the graph, as an adjacency list.
+let edges: Map<object, Set<object>>;
+
+beforeEach(() => {
+  // The node classes the engine checks with instanceof. AudioWorkletNode stays undefined, so the noise reduction is left out.
+  vi.stubGlobal('MediaStreamAudioSourceNode', MediaStreamAudioSourceNode);
+  vi.stubGlobal('AudioBufferSourceNode', AudioBufferSourceNode);
+  edges = new Map();
+  const prototype = NodeAudioNode.prototype as unknown as { connect: (destination: object, ...rest: unknown[]) => unknown };
+  const connect = prototype.connect;
+  vi.spyOn(prototype, 'connect').mockImplementation(function (this: object, destination, ...rest) {
+    if (destination instanceof NodeAudioNode) {
+      if (!edges.has(this)) edges.set(this, new Set());
+      edges.get(this)!.add(destination);
+    }
+    return connect.call(this, destination, ...rest);
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+const reachable = (from: object, without?: object): Set<object> => {
+  const seen = new Set<object>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    edges.get(queue.shift()!)?.forEach(next => {
+      if (next === without || seen.has(next)) return;
+      seen.add(next);
+      queue.push(next);
+    });
+  }
+  return seen;
+};
+
+/** Nodes every path from `from` to `to` passes through, in signal order. */
+const chain = (from: object, to: object): object[] => {
+  const all = [...reachable(from)].filter(node => node !== from && node !== to);
+  const dominators = all.filter(node => !reachable(from, node).has(to));
+  return dominators.sort((a, b) => (reachable(a).has(b) ? -1 : 1));
+};
+
+const kind = (node: object) => node.constructor.name;
+
+interface Setup {
+  engine: HearingAidEngine;
+  context: BaseAudioContext & { startRendering: () => Promise<AudioBuffer> };
+  source: AudioNode;
+}
+
+/** Starts an engine on a 1 kHz sine at -26 dBFS, well below every limiter. */
+const setup = async (options: Parameters<HearingAidEngine['start']>[2] = {}, engine = createHearingAidEngine()): Promise<Setup> => {
+  const context = new OfflineAudioContext(2, SAMPLE_RATE * RENDER_SECONDS, SAMPLE_RATE) as unknown as Setup['context'];
+  const oscillator = context.createOscillator();
+  oscillator.frequency.value = 1000;
+  const source = context.createGain();
+  source.gain.value = 0.05;
+  oscillator.connect(source);
+  oscillator.start();
+  await engine.start(context, source, options);
+  return { engine, context, source };
+};
+
+const rms = (samples: Float32Array, from = 0, to = samples.length) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+/** RMS of both channels over the last 100 ms, after all ramps have settled. */
+const settledLevels = async ({ context }: Setup) => {
+  const buffer = await context.startRendering();
+  const from = buffer.length - SAMPLE_RATE / 10;
+  return { left: rms(buffer.getChannelData(0), from), right: rms(buffer.getChannelData(1), from) };
+};
+
+describe('graph topology', () => {
+  it('runs the input through the analysers, both ears, the panner and the output limiter to the destination', async () => {
+    const { engine, context, source } = await setup();
+    const nodes = chain(source, context.destination);
+    const position = (node: object) => nodes.indexOf(node);
+    const firstOfKind = (name: string) => nodes.findIndex(node => kind(node) === name);
+
+    expect(position(engine.analysers!.input)).toBeGreaterThan(-1);
+    expect(firstOfKind('ChannelSplitterNode')).toBeGreaterThan(position(engine.analysers!.input));
+    expect(firstOfKind('ChannelMergerNode')).toBeGreaterThan(firstOfKind('ChannelSplitterNode'));
+    expect(firstOfKind('StereoPannerNode')).toBeGreaterThan(firstOfKind('ChannelMergerNode'));
+    // The output limiter's clipper is the last shaping stage before the destination.
+    expect(firstOfKind('WaveShaperNode')).toBeGreaterThan(firstOfKind('StereoPannerNode'));
+    expect(position(engine.feedbackSuppressor!.input)).toBeGreaterThan(firstOfKind('StereoPannerNode'));
+    expect(position(engine.feedbackSuppressor!.input)).toBeLessThan(firstOfKind('WaveShaperNode'));
+  });
+
+  it('feeds the output analyser from the node that feeds the destination', async () => {
+    const { engine, context, source } = await setup();
+    const nodes = chain(source, context.destination);
+    const last = nodes[nodes.length - 1];
+    expect(edges.get(last)).toContain(engine.analysers!.output);
+    expect(edges.get(last)).toContain(context.destination);
+  });
+
+  it('leaves the multiband compressors out of the path in low-latency mode', async () => {
+    const count = ({ source }: Setup) => [...reachable(source)].filter(node => kind(node) === 'DynamicsCompressorNode').length;
+    const normal = count(await setup());
+    edges = new Map();
+    const lowLatency = count(await setup({ lowLatency: true }));
+    expect(normal - lowLatency).toBe(2 * 3);
+  });
+
+  it('counts the look-ahead of the speech focus and both limiters as latency in low-latency mode', async () => {
+    const { engine } = await setup({ lowLatency: true });
+    expect(engine.processingLatency).toBeCloseTo(3 * COMPRESSOR_LOOKAHEAD, 6);
+  });
+
+  it('disconnects the input on stop', async () => {
+    const { engine, source } = await setup();
+    const disconnect = vi.spyOn(source, 'disconnect');
+    engine.stop();
+    expect(disconnect).toHaveBeenCalled();
+    expect(engine.running).toBe(false);
+  });
+});
+
+// Levels are compared with a run at the default settings: the test implementation's compressors have no automatic
+// makeup gain, so the compensation the limiters apply for it lowers the absolute level a little.
+describe('gain staging', () => {
+  it('treats both ears alike with the default settings', async () => {
+    const { left, right } = await settledLevels(await setup());
+    expect(left).toBeGreaterThan(0);
+    expect(right / left).toBeCloseTo(1, 3);
+  });
+
+  it('scales the output with the volume', async () => {
+    const reference = await settledLevels(await setup());
+    const engine = createHearingAidEngine();
+    engine.setVolume(50);
+    const halved = await settledLevels(await setup({}, engine));
+    expect(halved.left / reference.left).toBeCloseTo(0.5, 2);
+    expect(halved.right / reference.right).toBeCloseTo(0.5, 2);
+  });
+
+  it('scales the output with the pre-amp', async () => {
+    const reference = await settledLevels(await setup());
+    const engine = createHearingAidEngine();
+    engine.setPreAmp(200);
+    const doubled = await settledLevels(await setup({}, engine));
+    expect(doubled.left / reference.left).toBeCloseTo(2, 1);
+  });
+
+  it('applies the ear gain to its own channel only', async () => {
+    const reference = await settledLevels(await setup());
+    const engine = createHearingAidEngine();
+    engine.setEarSetting('left', 'gain', 50);
+    const levels = await settledLevels(await setup({}, engine));
+    expect(levels.left / reference.left).toBeCloseTo(0.5, 2);
+    expect(levels.right / reference.right).toBeCloseTo(1, 2);
+  });
+
+  it('starts quietly and fades up to the set volume', async () => {
+    const reference = await settledLevels(await setup());
+    const started = await setup({ fadeIn: 0.3 });
+    const buffer = await started.context.startRendering();
+    const samples = buffer.getChannelData(0);
+    const window = SAMPLE_RATE / 50;
+    const early = rms(samples, SAMPLE_RATE / 100, SAMPLE_RATE / 100 + window);
+    const late = rms(samples, samples.length - window);
+    expect(early / late).toBeLessThan(0.05);
+    expect(late / reference.left).toBeCloseTo(1, 2);
+  });
+});
+
+describe('ramped setters', () => {
+  it('moves a changed volume with the slider smoothing instead of jumping', async () => {
+    const started = await setup();
+    const ramps = vi.spyOn(NodeAudioParam.prototype, 'setTargetAtTime');
+    started.engine.setSmoothing(0.05);
+    started.engine.setVolume(50);
+    expect(ramps).toHaveBeenCalledWith(0.5, started.context.currentTime, 0.05);
+  });
+
+  it('crossfades a profile with a third of the crossfade time as time constant', async () => {
+    const started = await setup();
+    const ramps = vi.spyOn(NodeAudioParam.prototype, 'setTargetAtTime');
+    started.engine.applyProfile({ name: 'test', preAmp: 100, volume: 150, eq: DEFAULT_EQ, balance: 0 }, { crossfade: 0.6 });
+    expect(ramps).toHaveBeenCalledWith(1.5, started.context.currentTime, expect.closeTo(0.2, 5));
+  });
+});
+
+describe('sound generator', () => {
+  const generator = (enabled: boolean) => ({ ...DEFAULT_ENGINE_SETTINGS.soundGenerator, enabled });
+
+  it('is only built once it is switched on', async () => {
+    const { engine, context } = await setup();
+    const buffers = vi.spyOn(context, 'createBuffer');
+    engine.setSoundGenerator(generator(false));
+    expect(buffers).not.toHaveBeenCalled();
+    engine.setSoundGenerator(generator(true));
+    expect(buffers).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops its sources while switched off and starts new ones when switched on again', async () => {
+    const { engine, context } = await setup();
+    const sources = vi.spyOn(context, 'createBufferSource');
+    const stops = vi.spyOn(AudioBufferSourceNode.prototype, 'stop');
+    engine.setSoundGenerator(generator(true));
+    engine.setSoundGenerator(generator(false));
+    expect(stops).toHaveBeenCalledTimes(3);
+    engine.setSoundGenerator(generator(true));
+    expect(sources).toHaveBeenCalledTimes(6);
+  });
+});
+
+describe('settingsFromProfile', () => {
+  const legacy: Profile = { name: 'Alt', preAmp: 120, volume: 80, eq: { 125: 2, 250: 4, 500: 6, 1000: 8, 2000: 10, 4000: 12 }, balance: -10 };
+
+  it('applies a legacy mono curve to both ears', () => {
+    const settings = settingsFromProfile(legacy, DEFAULT_ENGINE_SETTINGS);
+    expect(settings.eq.left).toEqual(legacy.eq);
+    expect(settings.eq.right).toEqual(legacy.eq);
+    expect(settings.eq.left).not.toBe(settings.eq.right);
+  });
+
+  it('fills settings the legacy profile does not have with the defaults', () => {
+    const settings = settingsFromProfile(legacy, DEFAULT_ENGINE_SETTINGS);
+    expect(settings).toMatchObject({ preAmp: 120, volume: 80, balance: -10 });
+    expect(settings.ears).toEqual(DEFAULT_ENGINE_SETTINGS.ears);
+    expect(settings.compression).toEqual(DEFAULT_ENGINE_SETTINGS.compression);
+    expect(settings.soundGenerator).toEqual(DEFAULT_ENGINE_SETTINGS.soundGenerator);
+  });
+
+  it('resamples a legacy curve onto the current layout and keeps the device settings', () => {
+    const current = { ...DEFAULT_ENGINE_SETTINGS, eqLayout: 'ten' as const, outputCeiling: -6 };
+    const settings = settingsFromProfile(legacy, current);
+    expect(settings.eqLayout).toBe('ten');
+    expect(settings.outputCeiling).toBe(-6);
+    expect(Object.keys(settings.eq.left).map(Number)).toEqual([125, 250, 500, 1000, 1500, 2000, 3000, 4000, 6000, 8000]);
+    expect(settings.eq.left[1000]).toBe(8);
+    expect(settings.eq.left[1500]).toBeGreaterThan(8);
+    expect(settings.eq.left[1500]).toBeLessThan(10);
+    expect(settings.eq.left[8000]).toBe(12);
+  });
+
+  it('keeps separate curves of a stereo profile', () => {
+    const left = { ...DEFAULT_EQ, 1000: 5 };
+    const right = { ...DEFAULT_EQ, 1000: -5 };
+    const settings = settingsFromProfile({ ...legacy, eq: { left, right } }, DEFAULT_ENGINE_SETTINGS);
+    expect(settings.eq.left[1000]).toBe(5);
+    expect(settings.eq.right[1000]).toBe(-5);
+  });
+
+  it('replaces invalid numbers by the defaults', () => {
+    const settings = settingsFromProfile({ ...legacy, volume: NaN, preAmp: Infinity }, DEFAULT_ENGINE_SETTINGS);
+    expect(settings.volume).toBe(DEFAULT_ENGINE_SETTINGS.volume);
+    expect(settings.preAmp).toBe(DEFAULT_ENGINE_SETTINGS.preAmp);
+  });
+});
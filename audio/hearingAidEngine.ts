@@ -0,0 +1,515 @@
+import { CompressionSettings, Ear, EarSettings, EQFilters, EQLayout, NoiseReductionSettings, Profile, SoundGeneratorSettings, SpeechFocusSettings, StereoEQSettings } from '../types';
+import { DEFAULT_EQ, DEFAULT_EQ_FILTERS, DEFAULT_EQ_LAYOUT, DEFAULT_VOLUME, DEFAULT_PRE_AMP, DEFAULT_BALANCE, DEFAULT_EAR_SETTINGS, DEFAULT_COMPRESSION, DEFAULT_NOISE_REDUCTION, DEFAULT_SOUND_GENERATOR, DEFAULT_SPEECH_FOCUS } from '../constants';
+import { EARS, eqFrequencies, sanitizeCompression, sanitizeEars, sanitizeEqFilters, sanitizeNoiseReduction, sanitizeSoundGenerator, sanitizeSpeechFocus, toStereoEq } from '../utils/profile';
+import { DEFAULT_OUTPUT_CEILING } from '../utils/noiseDose';
+import { createEqualizer, Equalizer } from './equalizer';
+import { createMultibandCompressor, MultibandCompressor } from './multibandCompressor';
+import { COMPRESSOR_LOOKAHEAD, createLimiter, Limiter } from './limiter';
+import { createNoiseReduction, NOISE_REDUCTION_FRAME, NoiseReduction } from './noiseReduction';
+import { createFeedbackSuppressor, FeedbackSuppressor } from './feedbackSuppressor';
+import { createSpeechFocus, sourceChannelCount, SpeechFocus } from './speechFocus';
+import { createSoundGenerator, SoundGenerator } from './soundGenerator';
+import { crossfadeToTimeConstant, rampParam, DEFAULT_SMOOTHING } from './automation';
+
+export interface EngineSettings {
+  preAmp: number;
+  volume: number;
+  balance: number;
+  eqLayout: EQLayout;
+  eq: StereoEQSettings;
+  eqFilters: EQFilters;
+  ears: Record<Ear, EarSettings>;
+  compression: CompressionSettings;
+  noiseReduction: NoiseReductionSettings;
+  speechFocus: SpeechFocusSettings;
+  soundGenerator: SoundGeneratorSettings;
+  outputCeiling: number;
+}
+
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  preAmp: DEFAULT_PRE_AMP,
+  volume: DEFAULT_VOLUME,
+  balance: DEFAULT_BALANCE,
+  eqLayout: DEFAULT_EQ_LAYOUT,
+  eq: toStereoEq(DEFAULT_EQ, eqFrequencies(DEFAULT_EQ_LAYOUT)),
+  eqFilters: DEFAULT_EQ_FILTERS,
+  ears: { left: DEFAULT_EAR_SETTINGS, right: DEFAULT_EAR_SETTINGS },
+  compression: DEFAULT_COMPRESSION,
+  noiseReduction: DEFAULT_NOISE_REDUCTION,
+  speechFocus: DEFAULT_SPEECH_FOCUS,
+  soundGenerator: DEFAULT_SOUND_GENERATOR,
+  outputCeiling: DEFAULT_OUTPUT_CEILING,
+};
+
+export interface EngineAnalysers {
+  /** Pre-EQ signal (after pre-amp and noise reduction). */
+  input: AnalyserNode;
+  /** Both ears after the equalizer, before compression. */
+  postEq: AnalyserNode;
+  /** Raw microphone signal after the pre-amp, for scene classification. */
+  scene: AnalyserNode;
+  /** Final output after limiter and mute. */
+  output: AnalyserNode;
+}
+
+export interface EngineEvents {
+  start: { context: BaseAudioContext; noiseReductionAvailable: boolean };
+  stop: undefined;
+  change: EngineSettings;
+  /** A new source was connected. Two or more channels allow the speech focus to form a beam. */
+  input: { channels: number };
+}
+
+export interface StartOptions {
+  /** Leaves out the noise reduction worklet and the multiband compressor, the stages that cost the most time and CPU. */
+  lowLatency?: boolean;
+  /** Starts quiet and fades up to the set volume over this many seconds. */
+  fadeIn?: number;
+}
+
+export interface ApplyOptions {
+  /** Fade to the new values over roughly this many seconds. Without it the slider smoothing is used. */
+  crossfade?: number;
+}
+
+export interface HearingAidEngine {
+  readonly running: boolean;
+  readonly context: BaseAudioContext | null;
+  readonly settings: EngineSettings;
+  readonly analysers: EngineAnalysers | null;
+  readonly feedbackSuppressor: FeedbackSuppressor | null;
+  readonly noiseReductionAvailable: boolean;
+  readonly lowLatency: boolean;
+  /** Delay added by the processing itself (seconds), on top of the audio device buffers. */
+  readonly processingLatency: number;
+  /** Channels of the current source, 0 while stopped. */
+  readonly inputChannels: number;
+  /** Highest peak in dBFS the output lets through: the output ceiling, lowered by the dose attenuation. */
+  readonly maxOutputLevel: number;
+  /** Builds the processing graph between `source` and `context.destination`. */
+  start: (context: BaseAudioContext, source: AudioNode, options?: StartOptions) => Promise<void>;
+  /** Disconnects the graph. The context belongs to the caller and is left open. */
+  stop: () => void;
+  /** Replaces the input, e.g. after switching microphones. */
+  setSource: (source: AudioNode) => void;
+  applyProfile: (profile: Profile, options?: ApplyOptions) => EngineSettings;
+  setPreAmp: (value: number) => void;
+  setVolume: (value: number) => void;
+  setBalance: (value: number) => void;
+  setEqGain: (ears: Ear[], frequency: number, gain: number) => void;
+  /** Switches the band layout; the current curve is resampled onto the new bands. */
+  setEqLayout: (layout: EQLayout) => void;
+  setEqFilters: (filters: EQFilters) => void;
+  /** Magnitude response in dB of one ear's equalizer. Works while stopped, too. */
+  getEqResponse: (ear: Ear, frequencies: Float32Array) => Float32Array;
+  setEarSetting: (ear: Ear, key: keyof EarSettings, value: number) => void;
+  setCompression: (settings: CompressionSettings) => void;
+  setNoiseReduction: (settings: NoiseReductionSettings) => void;
+  setSpeechFocus: (settings: SpeechFocusSettings) => void;
+  /** A fade (seconds) replaces the slider smoothing, e.g. for the sleep timer. */
+  setSoundGenerator: (settings: SoundGeneratorSettings, fade?: number) => void;
+  /** Plays a quiet sine at `frequency` to match the tinnitus pitch; null stops it. */
+  setMatchTone: (frequency: number | null) => void;
+  setOutputCeiling: (ceiling: number) => void;
+  setMuted: (muted: boolean) => void;
+  /** Extra attenuation in dB in front of the output limiter (daily dose protection). */
+  setSafetyAttenuation: (db: number) => void;
+  /** Time constant in seconds for all parameter changes that are not profile crossfades. */
+  setSmoothing: (timeConstant: number) => void;
+  learnNoise: () => Promise<void>;
+  on: <K extends keyof EngineEvents>(event: K, listener: (payload: EngineEvents[K]) => void) => () => void;
+}
+
+interface Graph {
+  context: BaseAudioContext;
+  source: AudioNode;
+  lowLatency: boolean;
+  speechFocus: SpeechFocus;
+  preAmp: GainNode;
+  noiseReduction: NoiseReduction | null;
+  equalizers: Record<Ear, Equalizer>;
+  compressors: Record<Ear, MultibandCompressor>;
+  earGains: Record<Ear, GainNode>;
+  earLimiters: Record<Ear, Limiter>;
+  panner: StereoPannerNode;
+  microphone: GainNode;
+  master: GainNode;
+  /** Built when the generator is first switched on or the match tone is played. */
+  soundGenerator: SoundGenerator | null;
+  feedbackSuppressor: FeedbackSuppressor;
+  safetyGain: GainNode;
+  outputLimiter: Limiter;
+  startFade: GainNode;
+  mute: GainNode;
+  analysers: EngineAnalysers;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Level a faded start begins at: quiet enough that even a very high volume setting is not loud in the first moment.
+const START_FADE_FLOOR_DB = -40;
+
+/** The microphone path is silenced while the sound generator plays on its own. */
+const microphoneGain = (generator: SoundGeneratorSettings) => (generator.enabled && !generator.microphone ? 0 : 1);
+
+/**
+ * Settings of a stored profile, with anything missing or invalid replaced by the
+ * defaults. The output ceiling and the EQ layout are device settings and are kept
+ * from `current`; the profile's curve is resampled onto that layout.
+ */
+export const settingsFromProfile = (profile: Profile, current: EngineSettings): EngineSettings => ({
+  preAmp: Number.isFinite(profile.preAmp) ? profile.preAmp : DEFAULT_PRE_AMP,
+  volume: Number.isFinite(profile.volume) ? profile.volume : DEFAULT_VOLUME,
+  balance: Number.isFinite(profile.balance) ? profile.balance : DEFAULT_BALANCE,
+  eqLayout: current.eqLayout,
+  eq: toStereoEq(profile.eq, eqFrequencies(current.eqLayout)),
+  eqFilters: sanitizeEqFilters(profile.eqFilters),
+  ears: sanitizeEars(profile.ears),
+  compression: sanitizeCompression(profile.compression),
+  noiseReduction: sanitizeNoiseReduction(profile.noiseReduction),
+  speechFocus: sanitizeSpeechFocus(profile.speechFocus),
+  soundGenerator: sanitizeSoundGenerator(profile.soundGenerator),
+  outputCeiling: current.outputCeiling,
+});
+
+const buildGraph = async (context: BaseAudioContext, source: AudioNode, settings: EngineSettings, lowLatency: boolean): Promise<Graph> => {
+  const speechFocus = createSpeechFocus(context, settings.speechFocus, sourceChannelCount(source));
+
+  const preAmp = context.createGain();
+  preAmp.gain.value = settings.preAmp / 100;
+  // Most microphones are mono: upmix here so the splitter gets the signal on both channels.
+  preAmp.channelCount = 2;
+  preAmp.channelCountMode = 'explicit';
+  preAmp.channelInterpretation = 'speakers';
+
+  const noiseReduction = lowLatency ? null : await createNoiseReduction(context, settings.noiseReduction);
+
+  const inputAnalyser = context.createAnalyser();
+  inputAnalyser.fftSize = 2048;
+
+  const postEqMerger = context.createChannelMerger(2);
+  const postEqAnalyser = context.createAnalyser();
+  postEqAnalyser.fftSize = 2048;
+  postEqMerger.connect(postEqAnalyser);
+
+  const sceneAnalyser = context.createAnalyser();
+  sceneAnalyser.fftSize = 2048;
+  sceneAnalyser.smoothingTimeConstant = 0.5;
+
+  const splitter = context.createChannelSplitter(2);
+  const merger = context.createChannelMerger(2);
+
+  const equalizers = {} as Record<Ear, Equalizer>;
+  const earGains = {} as Record<Ear, GainNode>;
+  const earLimiters = {} as Record<Ear, Limiter>;
+  const compressors = {} as Record<Ear, MultibandCompressor>;
+  EARS.forEach((ear, channel) => {
+    equalizers[ear] = createEqualizer(context, eqFrequencies(settings.eqLayout), settings.eq[ear], settings.eqFilters);
+    compressors[ear] = createMultibandCompressor(context, settings.compression);
+    earGains[ear] = context.createGain();
+    earGains[ear].gain.value = settings.ears[ear].gain / 100;
+    earLimiters[ear] = createLimiter(context, settings.ears[ear].limiter);
+
+    splitter.connect(equalizers[ear].input, channel);
+    equalizers[ear].output.connect(postEqMerger, 0, channel);
+    if (lowLatency) {
+      equalizers[ear].output.connect(earGains[ear]);
+    } else {
+      equalizers[ear].output.connect(compressors[ear].input);
+      compressors[ear].output.connect(earGains[ear]);
+    }
+    earGains[ear].connect(earLimiters[ear].input);
+    earLimiters[ear].output.connect(merger, 0, channel);
+  });
+
+  const panner = context.createStereoPanner();
+  panner.pan.value = settings.balance / 100;
+
+  const microphone = context.createGain();
+  microphone.gain.value = microphoneGain(settings.soundGenerator);
+
+  const master = context.createGain();
+  master.gain.value = settings.volume / 100;
+
+  const feedbackSuppressor = createFeedbackSuppressor(context);
+  const safetyGain = context.createGain();
+  const outputLimiter = createLimiter(context, settings.outputCeiling);
+  const startFade = context.createGain();
+  const mute = context.createGain();
+
+  const outputAnalyser = context.createAnalyser();
+  outputAnalyser.fftSize = 2048;
+  outputAnalyser.smoothingTimeConstant = 0.3;
+
+  source.connect(speechFocus.input);
+  speechFocus.output.connect(preAmp);
+  preAmp.connect(sceneAnalyser);
+  let lastNode: AudioNode = preAmp;
+  if (noiseReduction) {
+    lastNode.connect(noiseReduction.input);
+    lastNode = noiseReduction.output;
+  }
+  lastNode.connect(inputAnalyser);
+  inputAnalyser.connect(splitter);
+  merger.connect(panner);
+  panner.connect(microphone);
+  microphone.connect(master);
+  master.connect(feedbackSuppressor.input);
+  feedbackSuppressor.output.connect(safetyGain);
+  safetyGain.connect(outputLimiter.input);
+  outputLimiter.output.connect(startFade);
+  startFade.connect(mute);
+  mute.connect(outputAnalyser);
+  mute.connect(context.destination);
+
+  return {
+    context, source, lowLatency, speechFocus, preAmp, noiseReduction, equalizers, compressors, earGains, earLimiters, panner, microphone, master,
+    soundGenerator: null, feedbackSuppressor, safetyGain, outputLimiter, startFade, mute,
+    analysers: { input: inputAnalyser, postEq: postEqAnalyser, scene: sceneAnalyser, output: outputAnalyser },
+  };
+};
+
+/** Filling the noise buffers takes a moment, so the sound generator is only built once it is needed. */
+const soundGeneratorOf = (graph: Graph, settings: SoundGeneratorSettings): SoundGenerator => {
+  if (!graph.soundGenerator) {
+    graph.soundGenerator = createSoundGenerator(graph.context, settings);
+    // After the volume but in front of the safety stages, so the limiter and the dose meter see the generator, too.
+    graph.soundGenerator.output.connect(graph.feedbackSuppressor.input);
+  }
+  return graph.soundGenerator;
+};
+
+/** Passes the settings on to the generator, building it only when it is switched on. */
+const updateSoundGenerator = (graph: Graph, settings: SoundGeneratorSettings, time: number, timeConstant: number) => {
+  if (graph.soundGenerator || settings.enabled) soundGeneratorOf(graph, settings).update(settings, time, timeConstant);
+};
+
+/**
+ * The complete signal chain of the hearing aid, independent of any UI. Settings
+ * can be changed while stopped and are used for the next start. Works with any
+ * BaseAudioContext, so it can be rendered offline with an OfflineAudioContext.
+ */
+export const createHearingAidEngine = (initial: EngineSettings = DEFAULT_ENGINE_SETTINGS): HearingAidEngine => {
+  let settings = initial;
+  let graph: Graph | null = null;
+  // Bumped by every start and stop, so a start that is overtaken while the worklet loads is discarded.
+  let generation = 0;
+  let safetyAttenuation = 0;
+  let smoothing = DEFAULT_SMOOTHING;
+  let responseContext: OfflineAudioContext | null = null;
+  const listeners = new Map<keyof EngineEvents, Set<(payload: unknown) => void>>();
+
+  const emit = <K extends keyof EngineEvents>(event: K, payload: EngineEvents[K]) => {
+    listeners.get(event)?.forEach(listener => listener(payload));
+  };
+
+  const update = (next: Partial<EngineSettings>) => {
+    settings = { ...settings, ...next };
+    emit('change', settings);
+  };
+
+  const setParam = (param: AudioParam, value: number, timeConstant = smoothing) => {
+    if (graph) rampParam(param, value, graph.context.currentTime, timeConstant);
+  };
+
+  const applyToGraph = (timeConstant = smoothing) => {
+    if (!graph) return;
+    const now = graph.context.currentTime;
+    graph.speechFocus.update(settings.speechFocus, now, timeConstant);
+    setParam(graph.preAmp.gain, settings.preAmp / 100, timeConstant);
+    setParam(graph.master.gain, settings.volume / 100, timeConstant);
+    setParam(graph.microphone.gain, microphoneGain(settings.soundGenerator), timeConstant);
+    updateSoundGenerator(graph, settings.soundGenerator, now, timeConstant);
+    setParam(graph.panner.pan, settings.balance / 100, timeConstant);
+    graph.noiseReduction?.update(settings.noiseReduction, now, timeConstant);
+    graph.outputLimiter.setCeiling(settings.outputCeiling, now, timeConstant);
+    EARS.forEach(ear => {
+      graph!.equalizers[ear].update(settings.eq[ear], settings.eqFilters, now, timeConstant);
+      setParam(graph!.earGains[ear].gain, settings.ears[ear].gain / 100, timeConstant);
+      graph!.earLimiters[ear].setCeiling(settings.ears[ear].limiter, now, timeConstant);
+      graph!.compressors[ear].update(settings.compression, now, timeConstant);
+    });
+  };
+
+  const start = async (context: BaseAudioContext, source: AudioNode, options: StartOptions = {}) => {
+    if (graph) return;
+    const current = ++generation;
+    const built = await buildGraph(context, source, settings, options.lowLatency === true);
+    if (current !== generation) {
+      built.source.disconnect();
+      built.soundGenerator?.stop();
+      built.mute.disconnect();
+      return;
+    }
+    graph = built;
+    graph.safetyGain.gain.value = dbToGain(-safetyAttenuation);
+    // Settings may have changed while the noise reduction worklet was loading.
+    applyToGraph(0);
+    if (options.fadeIn) {
+      // An exponential ramp rises evenly in dB, so the level grows steadily instead of jumping up at the end.
+      const now = context.currentTime;
+      graph.startFade.gain.setValueAtTime(dbToGain(START_FADE_FLOOR_DB), now);
+      graph.startFade.gain.exponentialRampToValueAtTime(1, now + options.fadeIn);
+    }
+    emit('start', { context, noiseReductionAvailable: built.noiseReduction !== null });
+    emit('input', { channels: sourceChannelCount(source) });
+  };
+
+  const stop = () => {
+    generation++;
+    if (!graph) return;
+    graph.source.disconnect();
+    graph.soundGenerator?.stop();
+    graph.mute.disconnect();
+    graph = null;
+    emit('stop', undefined);
+  };
+
+  const setSource = (source: AudioNode) => {
+    if (!graph) return;
+    graph.source.disconnect();
+    source.connect(graph.speechFocus.input);
+    graph.source = source;
+    const channels = sourceChannelCount(source);
+    graph.speechFocus.setChannelCount(channels, graph.context.currentTime);
+    emit('input', { channels });
+  };
+
+  const applyProfile = (profile: Profile, options: ApplyOptions = {}) => {
+    update(settingsFromProfile(profile, settings));
+    applyToGraph(options.crossfade ? crossfadeToTimeConstant(options.crossfade) : smoothing);
+    return settings;
+  };
+
+  const setPreAmp = (value: number) => {
+    update({ preAmp: value });
+    if (graph) setParam(graph.preAmp.gain, value / 100);
+  };
+
+  const setVolume = (value: number) => {
+    update({ volume: value });
+    if (graph) setParam(graph.master.gain, value / 100);
+  };
+
+  const setBalance = (value: number) => {
+    update({ balance: value });
+    if (graph) setParam(graph.panner.pan, value / 100);
+  };
+
+  const setEqGain = (ears: Ear[], frequency: number, gain: number) => {
+    const eq = { ...settings.eq };
+    ears.forEach(ear => {
+      eq[ear] = { ...eq[ear], [frequency]: gain };
+    });
+    update({ eq });
+    if (graph) ears.forEach(ear => graph!.equalizers[ear].setBandGain(frequency, gain, graph!.context.currentTime, smoothing));
+  };
+
+  const setEqLayout = (layout: EQLayout) => {
+    if (layout === settings.eqLayout) return;
+    const frequencies = eqFrequencies(layout);
+    update({ eqLayout: layout, eq: toStereoEq(settings.eq, frequencies) });
+    if (graph) EARS.forEach(ear => graph!.equalizers[ear].setBands(frequencies, settings.eq[ear]));
+  };
+
+  const setEqFilters = (eqFilters: EQFilters) => {
+    update({ eqFilters });
+    if (graph) EARS.forEach(ear => graph!.equalizers[ear].update(settings.eq[ear], eqFilters, graph!.context.currentTime, smoothing));
+  };
+
+  const getEqResponse = (ear: Ear, frequencies: Float32Array) => {
+    if (graph) return graph.equalizers[ear].getFrequencyResponse(frequencies);
+    // Without a running graph, the response is taken from throwaway filters built from the settings.
+    responseContext ??= new OfflineAudioContext(1, 1, 48000);
+    return createEqualizer(responseContext, eqFrequencies(settings.eqLayout), settings.eq[ear], settings.eqFilters).getFrequencyResponse(frequencies);
+  };
+
+  const setEarSetting = (ear: Ear, key: keyof EarSettings, value: number) => {
+    update({ ears: { ...settings.ears, [ear]: { ...settings.ears[ear], [key]: value } } });
+    if (!graph) return;
+    if (key === 'gain') setParam(graph.earGains[ear].gain, value / 100);
+    if (key === 'limiter') graph.earLimiters[ear].setCeiling(value, graph.context.currentTime, smoothing);
+  };
+
+  const setCompression = (compression: CompressionSettings) => {
+    update({ compression });
+    if (graph) EARS.forEach(ear => graph!.compressors[ear].update(compression, graph!.context.currentTime, smoothing));
+  };
+
+  const setNoiseReduction = (noiseReduction: NoiseReductionSettings) => {
+    update({ noiseReduction });
+    graph?.noiseReduction?.update(noiseReduction, graph.context.currentTime, smoothing);
+  };
+
+  const setSpeechFocus = (speechFocus: SpeechFocusSettings) => {
+    update({ speechFocus });
+    graph?.speechFocus.update(speechFocus, graph.context.currentTime, smoothing);
+  };
+
+  const setSoundGenerator = (soundGenerator: SoundGeneratorSettings, fade?: number) => {
+    update({ soundGenerator });
+    if (!graph) return;
+    const timeConstant = fade ? crossfadeToTimeConstant(fade) : smoothing;
+    setParam(graph.microphone.gain, microphoneGain(soundGenerator), timeConstant);
+    updateSoundGenerator(graph, soundGenerator, graph.context.currentTime, timeConstant);
+  };
+
+  const setMatchTone = (frequency: number | null) => {
+    if (!graph || (frequency === null && !graph.soundGenerator)) return;
+    soundGeneratorOf(graph, settings.soundGenerator).setMatchTone(frequency, graph.context.currentTime);
+  };
+
+  const setOutputCeiling = (ceiling: number) => {
+    update({ outputCeiling: ceiling });
+    graph?.outputLimiter.setCeiling(ceiling, graph.context.currentTime, smoothing);
+  };
+
+  const setMuted = (muted: boolean) => {
+    if (graph) rampParam(graph.mute.gain, muted ? 0 : 1, graph.context.currentTime, 0.01);
+  };
+
+  const setSafetyAttenuation = (db: number) => {
+    safetyAttenuation = db;
+    graph?.safetyGain.gain.setTargetAtTime(dbToGain(-db), graph.context.currentTime, 0.5);
+  };
+
+  const setSmoothing = (timeConstant: number) => {
+    smoothing = Math.max(0, timeConstant);
+  };
+
+  const learnNoise = async () => {
+    await graph?.noiseReduction?.learnNoise();
+  };
+
+  const on = <K extends keyof EngineEvents>(event: K, listener: (payload: EngineEvents[K]) => void) => {
+    const set = listeners.get(event) ?? new Set();
+    listeners.set(event, set);
+    set.add(listener as (payload: unknown) => void);
+    return () => {
+      set.delete(listener as (payload: unknown) => void);
+    };
+  };
+
+  return {
+    get running() { return graph !== null; },
+    get context() { return graph?.context ?? null; },
+    get settings() { return settings; },
+    get analysers() { return graph?.analysers ?? null; },
+    get feedbackSuppressor() { return graph?.feedbackSuppressor ?? null; },
+    get noiseReductionAvailable() { return graph ? graph.noiseReduction !== null : true; },
+    get lowLatency() { return graph?.lowLatency ?? false; },
+    get processingLatency() {
+      if (!graph) return 0;
+      // The speech focus, the ear limiter and the output limiter are always in the path, compression only while
+      // enabled. The noise reduction delays its bypass as well, so it counts whenever the stage exists.
+      const compressors = 3 + (!graph.lowLatency && settings.compression.enabled ? 1 : 0);
+      const noiseReduction = graph.noiseReduction ? NOISE_REDUCTION_FRAME / graph.context.sampleRate : 0;
+      return compressors * COMPRESSOR_LOOKAHEAD + noiseReduction;
+    },
+    get inputChannels() { return graph ? sourceChannelCount(graph.source) : 0; },
+    get maxOutputLevel() { return settings.outputCeiling - safetyAttenuation; },
+    start, stop, setSource, applyProfile,
+    setPreAmp, setVolume, setBalance, setEqGain, setEqLayout, setEqFilters, getEqResponse, setEarSetting, setCompression, setNoiseReduction, setSpeechFocus,
+    setSoundGenerator, setMatchTone, setOutputCeiling, setMuted, setSafetyAttenuation, setSmoothing, learnNoise, on,
+  };
+};
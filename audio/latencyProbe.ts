@@ -0,0 +1,128 @@
+const PROCESSOR_NAME = 'klangnah-latency-probe';
+
+// Listens to the microphone for a moment to learn the background level, then
+// writes a short tone burst to its output and counts frames until the burst
+// comes back on its input. Both happen on the same render clock, so the count is
+// the complete round trip: output buffer, converter, air, microphone, input buffer.
+const PROCESSOR_SOURCE = `
+class LatencyProbeProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.phase = 'idle';
+    this.port.onmessage = (event) => {
+      if (event.data?.type !== 'measure') return;
+      const { listenSeconds, timeoutSeconds, amplitude } = event.data;
+      this.phase = 'listen';
+      this.listenLeft = Math.round(listenSeconds * sampleRate);
+      this.timeout = Math.round(timeoutSeconds * sampleRate);
+      this.amplitude = amplitude;
+      this.peak = 0;
+    };
+    // Two periods of 1 kHz under a Hann window: short enough to locate, with energy where small speakers still work.
+    const length = Math.round(sampleRate / 500);
+    this.burst = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      this.burst[i] = Math.sin((2 * Math.PI * 1000 * i) / sampleRate) * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (length - 1)));
+    }
+  }
+
+  process(inputs, outputs) {
+    const input = inputs[0][0];
+    const output = outputs[0][0];
+    for (let i = 0; i < output.length; i++) {
+      const sample = input ? input[i] : 0;
+      output[i] = 0;
+      if (this.phase === 'listen') {
+        this.peak = Math.max(this.peak, Math.abs(sample));
+        if (--this.listenLeft <= 0) {
+          this.phase = 'wait';
+          this.threshold = Math.max(this.peak * 4, 0.005);
+          this.elapsed = 0;
+        }
+      } else if (this.phase === 'wait') {
+        if (this.elapsed < this.burst.length) output[i] = this.burst[this.elapsed] * this.amplitude;
+        if (this.elapsed > 0 && Math.abs(sample) > this.threshold) {
+          this.phase = 'idle';
+          this.port.postMessage({ type: 'result', frames: this.elapsed });
+        } else if (++this.elapsed > this.timeout) {
+          this.phase = 'idle';
+          this.port.postMessage({ type: 'result', frames: null });
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', LatencyProbeProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const loadProcessor = async (context: BaseAudioContext) => {
+  if (loadedContexts.has(context)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const isLoopbackSupported = (): boolean =>
+  typeof AudioWorkletNode !== 'undefined';
+
+export interface LoopbackOptions {
+  attempts?: number;
+  /** Peak level of the click, linear. Kept low because it may play straight into the ears. */
+  amplitude?: number;
+  /**
+   * Highest peak in dBFS the user allows on the output. The click bypasses the
+   * output limiter, so it is scaled down to this level itself.
+   */
+  maxLevel?: number;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Plays a few clicks to `context.destination` and listens for them on `source`.
+ * Resolves to the median round trip in seconds, or null if no click was heard,
+ * e.g. because headphones keep the sound away from the microphone.
+ */
+export const measureLoopbackLatency = async (context: BaseAudioContext, source: AudioNode, { attempts = 3, amplitude = 0.25, maxLevel = 0 }: LoopbackOptions = {}): Promise<number | null> => {
+  await loadProcessor(context);
+  const peak = Math.min(amplitude, dbToGain(maxLevel));
+  const probe = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    channelCount: 1,
+    channelCountMode: 'explicit',
+  });
+  source.connect(probe);
+  probe.connect(context.destination);
+
+  const measureOnce = () =>
+    new Promise<number | null>(resolve => {
+      probe.port.onmessage = (event: MessageEvent) => {
+        if (event.data?.type === 'result') resolve(event.data.frames);
+      };
+      probe.port.postMessage({ type: 'measure', listenSeconds: 0.3, timeoutSeconds: 1, amplitude: peak });
+    });
+
+  const results: number[] = [];
+  try {
+    for (let i = 0; i < attempts; i++) {
+      const frames = await measureOnce();
+      if (frames !== null) results.push(frames / context.sampleRate);
+    }
+  } finally {
+    source.disconnect(probe);
+    probe.disconnect();
+    probe.port.onmessage = null;
+  }
+  if (results.length === 0) return null;
+  results.sort((a, b) => a - b);
+  return results[Math.floor(results.length / 2)];
+};
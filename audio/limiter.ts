@@ -0,0 +1,54 @@
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+
+export interface Limiter {
+  input: GainNode;
+  output: GainNode;
+  setCeiling: (ceiling: number, time: number, timeConstant?: number) => void;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const RATIO = 20;
+
+/** Fixed look-ahead delay of every DynamicsCompressorNode in current browsers (seconds). */
+export const COMPRESSOR_LOOKAHEAD = 0.006;
+
+/**
+ * Brick-wall limiter: a fast compressor does the gain riding, a hard clipper
+ * afterwards guarantees that no sample exceeds the ceiling (in dBFS).
+ */
+export const createLimiter = (context: BaseAudioContext, ceiling: number): Limiter => {
+  const input = context.createGain();
+  const output = context.createGain();
+
+  const compressor = context.createDynamicsCompressor();
+  compressor.knee.value = 0;
+  compressor.ratio.value = RATIO;
+  compressor.attack.value = 0;
+  compressor.release.value = 0.1;
+
+  // DynamicsCompressorNode adds an automatic makeup gain that depends on threshold
+  // and ratio. Undo it so the threshold really is the output ceiling.
+  const makeupCompensation = context.createGain();
+  const clipPre = context.createGain();
+  const clipper = context.createWaveShaper();
+  clipper.curve = new Float32Array([-1, 0, 1]);
+
+  input.connect(compressor);
+  compressor.connect(makeupCompensation);
+  makeupCompensation.connect(clipPre);
+  clipPre.connect(clipper);
+  clipper.connect(output);
+
+  const setCeiling = (next: number, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    const fullRangeGain = next * (1 - 1 / RATIO);
+    rampParam(compressor.threshold, next, time, timeConstant);
+    rampParam(makeupCompensation.gain, dbToGain(0.6 * fullRangeGain), time, timeConstant);
+    rampParam(clipPre.gain, 1 / dbToGain(next), time, timeConstant);
+    rampParam(output.gain, dbToGain(next), time, timeConstant);
+  };
+
+  setCeiling(ceiling, context.currentTime, 0);
+
+  return { input, output, setCeiling };
+};
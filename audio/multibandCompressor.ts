@@ -0,0 +1,75 @@
+import { CompressionSettings } from '../types';
+import { COMPRESSOR_CROSSOVERS } from '../constants';
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+
+export interface MultibandCompressor {
+  input: GainNode;
+  output: GainNode;
+  update: (settings: CompressionSettings, time: number, timeConstant?: number) => void;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const createFilter = (context: BaseAudioContext, type: BiquadFilterType, frequency: number) => {
+  const filter = context.createBiquadFilter();
+  filter.type = type;
+  filter.frequency.value = frequency;
+  filter.Q.value = Math.SQRT1_2;
+  return filter;
+};
+
+// Two cascaded 2nd-order Butterworth sections form a 4th-order Linkwitz-Riley
+// filter. Low and high pass of one crossover sum to a 2nd-order allpass with the
+// same Q, which is used on the lower bands to match the phase of the higher ones.
+const createBandFilters = (context: BaseAudioContext, type: 'lowpass' | 'highpass' | 'allpass', frequency: number): BiquadFilterNode[] =>
+  type === 'allpass' ? [createFilter(context, type, frequency)] : [createFilter(context, type, frequency), createFilter(context, type, frequency)];
+
+/**
+ * Splits the signal into bands at COMPRESSOR_CROSSOVERS and runs every band
+ * through its own DynamicsCompressorNode. Every band passes the high pass of all
+ * crossovers below it and the allpass of all crossovers above it, so the bands
+ * sum to a flat magnitude response as long as no band is compressed. With
+ * compression disabled the bands are bypassed entirely.
+ */
+export const createMultibandCompressor = (context: BaseAudioContext, settings: CompressionSettings): MultibandCompressor => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+
+  input.connect(dry);
+  dry.connect(output);
+  wet.connect(output);
+
+  const bands = COMPRESSOR_CROSSOVERS.concat(Infinity).map((_, i) => {
+    const filters = COMPRESSOR_CROSSOVERS.flatMap((frequency, j) =>
+      createBandFilters(context, j < i ? 'highpass' : j === i ? 'lowpass' : 'allpass', frequency));
+    const compressor = context.createDynamicsCompressor();
+    compressor.knee.value = 6;
+    // DynamicsCompressorNode adds an automatic makeup gain that depends on threshold
+    // and ratio. Undo it, so switching compression on or moving a slider does not change the overall level.
+    const makeupCompensation = context.createGain();
+    const chain: AudioNode[] = [input, ...filters, compressor, makeupCompensation, wet];
+    chain.slice(1).forEach((node, k) => chain[k].connect(node));
+    return { compressor, makeupCompensation };
+  });
+
+  const update = (next: CompressionSettings, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    rampParam(dry.gain, next.enabled ? 0 : 1, time, timeConstant);
+    rampParam(wet.gain, next.enabled ? 1 : 0, time, timeConstant);
+    bands.forEach(({ compressor, makeupCompensation }, i) => {
+      const band = next.bands[i];
+      if (!band) return;
+      rampParam(compressor.threshold, band.threshold, time, timeConstant);
+      rampParam(compressor.ratio, band.ratio, time, timeConstant);
+      // Same estimate as in limiter.ts; the soft knee changes the browser's value only slightly.
+      rampParam(makeupCompensation.gain, dbToGain(0.6 * band.threshold * (1 - 1 / band.ratio)), time, timeConstant);
+      compressor.attack.setValueAtTime(band.attack / 1000, time);
+      compressor.release.setValueAtTime(band.release / 1000, time);
+    });
+  };
+
+  update(settings, context.currentTime, 0);
+
+  return { input, output, update };
+};
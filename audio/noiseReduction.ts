@@ -0,0 +1,275 @@
+import { NoiseReductionSettings } from '../types';
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+
+export interface NoiseReduction {
+  input: GainNode;
+  output: GainNode;
+  update: (settings: NoiseReductionSettings, time: number, timeConstant?: number) => void;
+  learnNoise: (seconds?: number) => Promise<void>;
+}
+
+const PROCESSOR_NAME = 'klangnah-noise-reduction';
+
+/** STFT frame length. A full frame is buffered before the first output, so it is also the delay of the stage. */
+export const NOISE_REDUCTION_FRAME = 512;
+
+// Spectral subtraction on a 50 % overlapping STFT (512 samples, sqrt-Hann windows).
+// The noise floor is learned on request and otherwise tracked slowly, so it
+// follows hum and fan noise but not speech.
+const PROCESSOR_SOURCE = `
+const FRAME = ${NOISE_REDUCTION_FRAME};
+const HOP = FRAME / 2;
+const BINS = FRAME / 2 + 1;
+
+const createFft = (size) => {
+  const levels = Math.log2(size);
+  const reverse = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < levels; b++) r = (r << 1) | ((i >>> b) & 1);
+    reverse[i] = r;
+  }
+  const cos = new Float32Array(size / 2);
+  const sin = new Float32Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = Math.sin((2 * Math.PI * i) / size);
+  }
+  return (re, im, inverse) => {
+    for (let i = 0; i < size; i++) {
+      const j = reverse[i];
+      if (j > i) {
+        let t = re[i]; re[i] = re[j]; re[j] = t;
+        t = im[i]; im[i] = im[j]; im[j] = t;
+      }
+    }
+    const sign = inverse ? 1 : -1;
+    for (let len = 2; len <= size; len <<= 1) {
+      const half = len >> 1;
+      const step = size / len;
+      for (let start = 0; start < size; start += len) {
+        for (let k = 0; k < half; k++) {
+          const wr = cos[k * step];
+          const wi = sign * sin[k * step];
+          const a = start + k;
+          const b = a + half;
+          const xr = re[b] * wr - im[b] * wi;
+          const xi = re[b] * wi + im[b] * wr;
+          re[b] = re[a] - xr; im[b] = im[a] - xi;
+          re[a] += xr; im[a] += xi;
+        }
+      }
+    }
+    if (inverse) {
+      for (let i = 0; i < size; i++) { re[i] /= size; im[i] /= size; }
+    }
+  };
+};
+
+const WINDOW = new Float32Array(FRAME);
+for (let i = 0; i < FRAME; i++) WINDOW[i] = Math.sqrt(0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME));
+
+const fft = createFft(FRAME);
+
+class ChannelState {
+  constructor() {
+    this.frame = new Float32Array(FRAME);
+    this.filled = 0;
+    this.overlap = new Float32Array(FRAME);
+    this.queue = new Float32Array(FRAME * 4);
+    this.readIndex = 0;
+    this.writeIndex = FRAME;
+    this.noise = new Float32Array(BINS);
+    this.gains = new Float32Array(BINS).fill(1);
+    this.re = new Float32Array(FRAME);
+    this.im = new Float32Array(FRAME);
+  }
+}
+
+class NoiseReductionProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [{ name: 'strength', defaultValue: 0.5, minValue: 0, maxValue: 1, automationRate: 'k-rate' }];
+  }
+
+  constructor() {
+    super();
+    this.channels = [];
+    this.learnFrames = Math.round((0.5 * sampleRate) / HOP);
+    this.learnCount = 0;
+    this.learnSums = [];
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.type === 'learn') {
+        this.learnFrames = Math.max(1, Math.round((event.data.seconds * sampleRate) / HOP));
+        this.learnCount = 0;
+        this.learnSums = [];
+      }
+    };
+  }
+
+  processFrame(state, channel, strength) {
+    const { re, im, noise, gains } = state;
+    for (let i = 0; i < FRAME; i++) {
+      re[i] = state.frame[i] * WINDOW[i];
+      im[i] = 0;
+    }
+    fft(re, im, false);
+
+    const learning = this.learnCount < this.learnFrames;
+    if (learning && !this.learnSums[channel]) this.learnSums[channel] = new Float32Array(BINS);
+
+    const overSubtraction = 1 + strength;
+    const floorGain = 1 - 0.9 * strength;
+    for (let k = 0; k < BINS; k++) {
+      const magnitude = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+      if (learning) {
+        this.learnSums[channel][k] += magnitude;
+      } else if (magnitude < noise[k]) {
+        noise[k] = 0.8 * noise[k] + 0.2 * magnitude;
+      } else {
+        noise[k] = Math.min(noise[k] * 1.0005 + 1e-7, magnitude);
+      }
+      const target = magnitude > 0 ? Math.max(1 - (overSubtraction * noise[k]) / magnitude, floorGain) : floorGain;
+      gains[k] = 0.6 * gains[k] + 0.4 * target;
+      re[k] *= gains[k];
+      im[k] *= gains[k];
+      if (k > 0 && k < FRAME / 2) {
+        re[FRAME - k] = re[k];
+        im[FRAME - k] = -im[k];
+      }
+    }
+
+    fft(re, im, true);
+    for (let i = 0; i < FRAME; i++) state.overlap[i] += re[i] * WINDOW[i];
+
+    const size = state.queue.length;
+    for (let i = 0; i < HOP; i++) {
+      state.queue[state.writeIndex] = state.overlap[i];
+      state.writeIndex = (state.writeIndex + 1) % size;
+    }
+    state.overlap.copyWithin(0, HOP);
+    state.overlap.fill(0, FRAME - HOP);
+    state.frame.copyWithin(0, HOP);
+    state.filled = FRAME - HOP;
+  }
+
+  finishLearning() {
+    this.learnCount++;
+    if (this.learnCount !== this.learnFrames) return;
+    this.channels.forEach((state, channel) => {
+      const sums = this.learnSums[channel];
+      if (!sums) return;
+      for (let k = 0; k < BINS; k++) state.noise[k] = sums[k] / this.learnFrames;
+    });
+    this.learnSums = [];
+    this.port.postMessage({ type: 'learned' });
+  }
+
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const strength = parameters.strength[0];
+    let framesProcessed = 0;
+
+    for (let channel = 0; channel < output.length; channel++) {
+      if (!this.channels[channel]) this.channels[channel] = new ChannelState();
+      const state = this.channels[channel];
+      const source = input[channel] || input[0];
+      const target = output[channel];
+      const size = state.queue.length;
+      let processed = 0;
+
+      for (let i = 0; i < target.length; i++) {
+        state.frame[state.filled++] = source ? source[i] : 0;
+        if (state.filled === FRAME) {
+          this.processFrame(state, channel, strength);
+          processed++;
+        }
+        target[i] = state.queue[state.readIndex];
+        state.queue[state.readIndex] = 0;
+        state.readIndex = (state.readIndex + 1) % size;
+      }
+      framesProcessed = Math.max(framesProcessed, processed);
+    }
+
+    for (let i = 0; i < framesProcessed; i++) {
+      if (this.learnCount < this.learnFrames) this.finishLearning();
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', NoiseReductionProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const loadProcessor = async (context: BaseAudioContext) => {
+  if (loadedContexts.has(context)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(url);
+    loadedContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const isNoiseReductionSupported = (): boolean =>
+  typeof AudioWorkletNode !== 'undefined';
+
+/**
+ * Creates the noise reduction stage. Resolves to null if the browser cannot run
+ * AudioWorklets (e.g. on plain http), so the caller can leave the stage out.
+ */
+export const createNoiseReduction = async (context: BaseAudioContext, settings: NoiseReductionSettings): Promise<NoiseReduction | null> => {
+  if (!isNoiseReductionSupported() || !context.audioWorklet) return null;
+  try {
+    await loadProcessor(context);
+  } catch (err) {
+    console.error('Error loading noise reduction worklet:', err);
+    return null;
+  }
+
+  const input = context.createGain();
+  const output = context.createGain();
+  const dry = context.createGain();
+  const wet = context.createGain();
+  // The processor delays by one frame; the dry path waits as long, so a crossfade between the two does not comb filter.
+  const dryDelay = context.createDelay(NOISE_REDUCTION_FRAME / context.sampleRate);
+  dryDelay.delayTime.value = NOISE_REDUCTION_FRAME / context.sampleRate;
+  const processor = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [2],
+  });
+  const strength = processor.parameters.get('strength')!;
+
+  input.connect(dryDelay);
+  dryDelay.connect(dry);
+  input.connect(processor);
+  processor.connect(wet);
+  dry.connect(output);
+  wet.connect(output);
+
+  const update = (next: NoiseReductionSettings, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    rampParam(dry.gain, next.enabled ? 0 : 1, time, timeConstant);
+    rampParam(wet.gain, next.enabled ? 1 : 0, time, timeConstant);
+    rampParam(strength, next.strength / 100, time, timeConstant);
+  };
+
+  const learnNoise = (seconds = 1.5) =>
+    new Promise<void>(resolve => {
+      const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type !== 'learned') return;
+        processor.port.removeEventListener('message', handleMessage);
+        resolve();
+      };
+      processor.port.addEventListener('message', handleMessage);
+      processor.port.start();
+      processor.port.postMessage({ type: 'learn', seconds });
+    });
+
+  update(settings, context.currentTime, 0);
+
+  return { input, output, update, learnNoise };
+};
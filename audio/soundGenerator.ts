@@ -0,0 +1,192 @@
+import { NoiseColor, SoundGeneratorSettings } from '../types';
+import { NOISE_COLORS } from '../constants';
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+
+export interface SoundGenerator {
+  output: GainNode;
+  update: (settings: SoundGeneratorSettings, time: number, timeConstant?: number) => void;
+  /** Plays a steady tone to find the tinnitus pitch; null stops it. Sounds even while the generator is off. */
+  setMatchTone: (frequency: number | null, time: number) => void;
+  /** Ends the sources; they would otherwise keep running after the graph is disconnected. */
+  stop: () => void;
+}
+
+const BUFFER_SECONDS = 8;
+const MATCH_TONE_LEVEL = -35;
+// Slow, slightly detuned swells so the waves do not repeat audibly.
+const OCEAN_RATES = [0.07, 0.11];
+const OCEAN_DEPTH = 0.8;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/**
+ * Fills `data` with noise of the given colour, normalised to an RMS of about
+ * -12 dBFS so all colours sound roughly equally loud at the same level setting.
+ * Pink noise uses Paul Kellet's filter, brown noise leaky-integrated white noise.
+ */
+const fillNoise = (data: Float32Array, color: NoiseColor) => {
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let brown = 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const white = Math.random() * 2 - 1;
+    let value = white;
+    if (color === 'pink') {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      value = b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362;
+      b6 = white * 0.115926;
+    } else if (color === 'brown') {
+      brown = (brown + 0.02 * white) / 1.02;
+      value = brown;
+    }
+    data[i] = value;
+    sum += value * value;
+  }
+  const gain = dbToGain(-12) / Math.sqrt(sum / data.length || 1);
+  for (let i = 0; i < data.length; i++) data[i] *= gain;
+};
+
+const createNoiseBuffer = (context: BaseAudioContext, color: NoiseColor) => {
+  const buffer = context.createBuffer(2, Math.round(BUFFER_SECONDS * context.sampleRate), context.sampleRate);
+  // Independent noise per ear sounds wide instead of sitting in the middle of the head.
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) fillNoise(buffer.getChannelData(channel), color);
+  return buffer;
+};
+
+/** Fades a started source out and ends it once it is silent. */
+type Release = (time: number, timeConstant: number) => void;
+
+/**
+ * Starts `source` behind a gain of its own that fades in. Sources cannot be
+ * restarted, so switching on again starts new ones, which crossfade with the
+ * old ones if those are still fading out.
+ */
+const startFaded = (context: BaseAudioContext, source: AudioScheduledSourceNode, connect: (fade: GainNode) => void, time: number, timeConstant: number): Release => {
+  const fade = context.createGain();
+  fade.gain.value = 0;
+  source.connect(fade);
+  connect(fade);
+  rampParam(fade.gain, 1, time, timeConstant);
+  source.start(time);
+  return (stopTime, stopTimeConstant) => {
+    rampParam(fade.gain, 0, stopTime, stopTimeConstant);
+    // After five time constants the fade is below -40 dB.
+    source.stop(stopTime + 5 * stopTimeConstant);
+  };
+};
+
+/**
+ * Relief sounds for tinnitus: white, pink or brown noise, optionally with a
+ * one-octave gap around the tinnitus frequency (notched sound therapy) and a
+ * slow ocean-like swell. While switched on, all colours run continuously and are
+ * switched by gain, so changing them never clicks; while off, the sources are
+ * stopped. It starts switched off, so the first `update` fades it in.
+ */
+export const createSoundGenerator = (context: BaseAudioContext, settings: SoundGeneratorSettings): SoundGenerator => {
+  const output = context.createGain();
+  const colorSum = context.createGain();
+
+  const buffers = {} as Record<NoiseColor, AudioBuffer>;
+  const colorGains = {} as Record<NoiseColor, GainNode>;
+  NOISE_COLORS.forEach(color => {
+    buffers[color] = createNoiseBuffer(context, color);
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    gain.connect(colorSum);
+    colorGains[color] = gain;
+  });
+
+  // Two cascaded notches with Q ≈ 1.4 remove about one octave around the tinnitus frequency.
+  const notches = [0, 1].map(() => {
+    const filter = context.createBiquadFilter();
+    filter.type = 'notch';
+    filter.Q.value = Math.SQRT2;
+    return filter;
+  });
+  const dry = context.createGain();
+  const notched = context.createGain();
+  colorSum.connect(dry);
+  colorSum.connect(notches[0]);
+  notches[0].connect(notches[1]);
+  notches[1].connect(notched);
+
+  const swell = context.createGain();
+  dry.connect(swell);
+  notched.connect(swell);
+  const swellDepth = context.createGain();
+  swellDepth.connect(swell.gain);
+
+  const level = context.createGain();
+  swell.connect(level);
+  level.connect(output);
+
+  const matchGain = context.createGain();
+  matchGain.gain.value = dbToGain(MATCH_TONE_LEVEL);
+  matchGain.connect(output);
+  let matchTone: { oscillator: OscillatorNode; release: Release } | null = null;
+
+  // The noise sources and the swell LFOs, while the generator is on.
+  let running: Release[] = [];
+
+  const startSources = (time: number, timeConstant: number) => {
+    NOISE_COLORS.forEach(color => {
+      const source = context.createBufferSource();
+      source.buffer = buffers[color];
+      source.loop = true;
+      running.push(startFaded(context, source, fade => fade.connect(colorGains[color]), time, timeConstant));
+    });
+    OCEAN_RATES.forEach(rate => {
+      const lfo = context.createOscillator();
+      lfo.frequency.value = rate;
+      running.push(startFaded(context, lfo, fade => fade.connect(swellDepth), time, timeConstant));
+    });
+  };
+
+  const stopSources = (time: number, timeConstant: number) => {
+    running.forEach(release => release(time, timeConstant));
+    running = [];
+  };
+
+  const update = (next: SoundGeneratorSettings, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    if (next.enabled && running.length === 0) startSources(time, timeConstant);
+    if (!next.enabled) stopSources(time, timeConstant);
+    NOISE_COLORS.forEach(color => rampParam(colorGains[color].gain, color === next.color ? 1 : 0, time, timeConstant));
+    notches.forEach(filter => rampParam(filter.frequency, next.tinnitusFrequency, time, timeConstant));
+    rampParam(dry.gain, next.notch ? 0 : 1, time, timeConstant);
+    rampParam(notched.gain, next.notch ? 1 : 0, time, timeConstant);
+    // Two LFOs of depth/4 each swing the gain between 1 - depth and 1.
+    const depth = next.ocean ? OCEAN_DEPTH : 0;
+    rampParam(swell.gain, 1 - depth / 2, time, timeConstant);
+    rampParam(swellDepth.gain, depth / 4, time, timeConstant);
+    rampParam(level.gain, next.enabled ? dbToGain(next.level) : 0, time, timeConstant);
+  };
+
+  const setMatchTone = (frequency: number | null, time: number) => {
+    if (frequency === null) {
+      matchTone?.release(time, 0.05);
+      matchTone = null;
+      return;
+    }
+    if (!matchTone) {
+      const oscillator = context.createOscillator();
+      matchTone = { oscillator, release: startFaded(context, oscillator, fade => fade.connect(matchGain), time, 0.05) };
+    }
+    matchTone.oscillator.frequency.setValueAtTime(frequency, time);
+  };
+
+  const stop = () => {
+    const now = context.currentTime;
+    stopSources(now, 0);
+    setMatchTone(null, now);
+    output.disconnect();
+  };
+
+  update({ ...settings, enabled: false }, context.currentTime, 0);
+
+  return { output, update, setMatchTone, stop };
+};
@@ -0,0 +1,123 @@
+import { SpeechFocusSettings } from '../types';
+import { DEFAULT_SMOOTHING, rampParam } from './automation';
+import { COMPRESSOR_LOOKAHEAD } from './limiter';
+
+export interface SpeechFocus {
+  input: GainNode;
+  output: GainNode;
+  /** Whether the current source has enough channels to form a beam. */
+  readonly directional: boolean;
+  /** Switches between beam and speech-band emphasis for a source with this many channels. */
+  setChannelCount: (channels: number, time: number) => void;
+  update: (settings: SpeechFocusSettings, time: number, timeConstant?: number) => void;
+}
+
+// Channels beyond this are ignored by the beam; USB arrays rarely have more.
+const MAX_BEAM_CHANNELS = 8;
+const EMPHASIS_LOW = 2000;
+const EMPHASIS_HIGH = 4000;
+// At full strength the consonant onsets in the emphasis band are added at about +8 dB.
+const EMPHASIS_MAX_GAIN = 1.5;
+const TRANSIENT_THRESHOLD = -50;
+const TRANSIENT_RATIO = 8;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Number of channels an input node delivers: microphone tracks report it in their settings, clips in their buffer. */
+export const sourceChannelCount = (source: AudioNode): number => {
+  if (source instanceof MediaStreamAudioSourceNode) {
+    return source.mediaStream.getAudioTracks()[0]?.getSettings().channelCount ?? 1;
+  }
+  if (source instanceof AudioBufferSourceNode) return source.buffer?.numberOfChannels ?? 1;
+  return source.channelCount;
+};
+
+/**
+ * "Focus front" in front of the pre-amp. Sources with two or more channels are
+ * summed in phase (delay-and-sum steered straight ahead): laptop and USB arrays
+ * sit broadside to the user, so speech from the front adds up while sound from
+ * the sides partly cancels. Mono sources cannot be steered; for them, onsets in
+ * the 2–4 kHz consonant region are emphasised instead. A compressor with a slow
+ * attack lets the onsets through and holds back sustained sound above
+ * -50 dBFS, so vowels and steady noise are hardly raised along with them.
+ * The compressor's look-ahead delays the emphasis, so the dry and beam paths are
+ * delayed by the same amount; otherwise their sum would comb-filter the band.
+ */
+export const createSpeechFocus = (context: BaseAudioContext, settings: SpeechFocusSettings, channels: number): SpeechFocus => {
+  const input = context.createGain();
+  const output = context.createGain();
+  const aligned = context.createDelay(COMPRESSOR_LOOKAHEAD);
+  aligned.delayTime.value = COMPRESSOR_LOOKAHEAD;
+  const dry = context.createGain();
+  input.connect(aligned);
+  aligned.connect(dry);
+  dry.connect(output);
+
+  const splitter = context.createChannelSplitter(MAX_BEAM_CHANNELS);
+  const beam = context.createGain();
+  beam.channelCount = 1;
+  beam.channelCountMode = 'explicit';
+  const channelGains = Array.from({ length: MAX_BEAM_CHANNELS }, (_, i) => {
+    const gain = context.createGain();
+    splitter.connect(gain, i);
+    gain.connect(beam);
+    return gain;
+  });
+  aligned.connect(splitter);
+  beam.connect(output);
+
+  const highPass = context.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.frequency.value = EMPHASIS_LOW;
+  const lowPass = context.createBiquadFilter();
+  lowPass.type = 'lowpass';
+  lowPass.frequency.value = EMPHASIS_HIGH;
+  const transients = context.createDynamicsCompressor();
+  transients.threshold.value = TRANSIENT_THRESHOLD;
+  transients.knee.value = 10;
+  transients.ratio.value = TRANSIENT_RATIO;
+  transients.attack.value = 0.02;
+  transients.release.value = 0.15;
+  // Undo the compressor's automatic makeup gain (about +26 dB here, estimated as in limiter.ts); otherwise it
+  // would lift quiet, steady content of the band instead of leaving only the onsets above it.
+  const makeupCompensation = context.createGain();
+  makeupCompensation.gain.value = dbToGain(0.6 * TRANSIENT_THRESHOLD * (1 - 1 / TRANSIENT_RATIO));
+  const emphasis = context.createGain();
+  input.connect(highPass);
+  highPass.connect(lowPass);
+  lowPass.connect(transients);
+  transients.connect(makeupCompensation);
+  makeupCompensation.connect(emphasis);
+  emphasis.connect(output);
+
+  let current = settings;
+  let channelCount = Math.max(1, channels);
+
+  const apply = (time: number, timeConstant: number) => {
+    const directional = channelCount >= 2;
+    const strength = current.enabled ? current.strength / 100 : 0;
+    rampParam(dry.gain, directional ? 1 - strength : 1, time, timeConstant);
+    rampParam(beam.gain, directional ? strength : 0, time, timeConstant);
+    rampParam(emphasis.gain, directional ? 0 : strength * EMPHASIS_MAX_GAIN, time, timeConstant);
+  };
+
+  const setChannelCount = (next: number, time: number) => {
+    channelCount = Math.max(1, next);
+    const used = Math.min(channelCount, MAX_BEAM_CHANNELS);
+    channelGains.forEach((gain, i) => gain.gain.setValueAtTime(i < used ? 1 / used : 0, time));
+    apply(time, 0);
+  };
+
+  const update = (next: SpeechFocusSettings, time: number, timeConstant = DEFAULT_SMOOTHING) => {
+    current = next;
+    apply(time, timeConstant);
+  };
+
+  setChannelCount(channelCount, context.currentTime);
+
+  return {
+    input, output,
+    get directional() { return channelCount >= 2; },
+    setChannelCount, update,
+  };
+};
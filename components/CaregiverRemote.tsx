@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+
+import { useI18n } from '../hooks/useI18n';
+import { EQ_MAX_GAIN } from '../constants';
+import { Ear } from '../types';
+import { CaregiverPairing, joinAsCaregiver, RemoteCommand, RemoteMessage, RemoteState, RemoteStatus } from '../utils/remoteControl';
+
+interface CaregiverRemoteProps {
+  /** Pairing code from the link; empty to enter it by hand. */
+  initialCode: string;
+  onClose: () => void;
+}
+
+const FLOOR_DB = -60;
+
+const formatFrequency = (freq: number) => (freq < 1000 ? `${freq} Hz` : `${freq / 1000} kHz`);
+
+const levelPercent = (db: number) => (Math.max(FLOOR_DB, Math.min(0, db)) - FLOOR_DB) / -FLOOR_DB * 100;
+
+/**
+ * The caregiver's side: joins a pairing and then shows the levels of the
+ * owner's device and controls for profile, volume, balance and EQ. Nothing here
+ * touches audio; every change is sent as a command and the owner's device
+ * answers with its new state.
+ */
+const CaregiverRemote: React.FC<CaregiverRemoteProps> = ({ initialCode, onClose }) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState(initialCode);
+  const [pairing, setPairing] = useState<CaregiverPairing | null>(null);
+  const [status, setStatus] = useState<RemoteStatus | null>(null);
+  const [revoked, setRevoked] = useState(false);
+  const [remote, setRemote] = useState<RemoteState | null>(null);
+  const [levels, setLevels] = useState({ input: -Infinity, output: -Infinity });
+  const [eqEar, setEqEar] = useState<Ear | 'both'>('both');
+  const [error, setError] = useState('');
+  const [joining, setJoining] = useState(false);
+  const pairingRef = useRef<CaregiverPairing | null>(null);
+  const qrCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const handleMessage = (message: RemoteMessage) => {
+    if (message.type === 'state') setRemote(message.state);
+    if (message.type === 'levels') setLevels({ input: message.input, output: message.output });
+    if (message.type === 'revoke') setRevoked(true);
+  };
+
+  const join = async (offerCode: string) => {
+    setError('');
+    setJoining(true);
+    try {
+      const joined = await joinAsCaregiver(offerCode, { onMessage: handleMessage, onStatus: setStatus });
+      if (!joined) {
+        setError(t('remote.invalidCode'));
+        return;
+      }
+      pairingRef.current = joined;
+      setPairing(joined);
+      setStatus(joined.link.status);
+    } catch (err) {
+      console.error('Error joining remote control:', err);
+      setError(t('remote.connectError'));
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialCode) join(initialCode);
+    return () => pairingRef.current?.link.close();
+  }, []);
+
+  useEffect(() => {
+    if (!qrCanvasRef.current || !pairing || status !== 'connecting') return;
+    QRCode.toCanvas(qrCanvasRef.current, pairing.answer, { errorCorrectionLevel: 'L', margin: 2, width: 240 }).catch(err => {
+      console.error('Error drawing QR code:', err);
+    });
+  }, [pairing, status]);
+
+  // Shown right away; the owner's device confirms with its new state.
+  const send = (command: RemoteCommand, next: Partial<RemoteState>) => {
+    pairing?.link.send(command);
+    setRemote(prev => prev && { ...prev, ...next });
+  };
+
+  const handleEq = (frequency: number, gain: number) => {
+    if (!remote) return;
+    const eq = { ...remote.eq };
+    (eqEar === 'both' ? (['left', 'right'] as Ear[]) : [eqEar]).forEach(ear => {
+      eq[ear] = { ...eq[ear], [frequency]: gain };
+    });
+    send({ type: 'eq', ear: eqEar, frequency, gain }, { eq });
+  };
+
+  const renderSlider = (id: string, label: string, value: number, min: number, max: number, unit: string, onChange: (value: number) => void) => (
+    <div className="slider-container" key={id}>
+      <label htmlFor={id}>{label}</label>
+      <input
+        type="range"
+        id={id}
+        min={min}
+        max={max}
+        step={1}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        style={{ backgroundSize: `${((value - min) * 100) / (max - min)}%` }}
+        aria-valuetext={`${value}${unit}`}
+      />
+      <span className="value" aria-hidden="true">{value}{unit}</span>
+    </div>
+  );
+
+  const renderControls = (state: RemoteState) => {
+    const frequencies = Object.keys(state.eq.left).map(Number).sort((a, b) => a - b);
+    const eqCurve = state.eq[eqEar === 'both' ? 'left' : eqEar];
+    return (
+      <>
+        <p className="card-hint" aria-live="polite">{state.running ? t('remote.running') : t('remote.stopped')}</p>
+        <div className="remote-levels">
+          {([['input', t('meter.input')], ['output', t('meter.output')]] as const).map(([key, label]) => (
+            <div key={key}>
+              <span>{label}</span>
+              <div className="usage-bar" aria-hidden="true"><div style={{ width: `${levelPercent(levels[key])}%` }} /></div>
+              <span>{Number.isFinite(levels[key]) && levels[key] > FLOOR_DB ? `${levels[key].toFixed(0)} dBFS` : '−∞'}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="form-row">
+          <label htmlFor="remote-profile">{t('profiles.title')}</label>
+          <select id="remote-profile" value={state.profile} onChange={e => send({ type: 'profile', name: e.target.value }, { profile: e.target.value })}>
+            {!state.profiles.some(p => p.name === state.profile) && <option value={state.profile} disabled>{t('profile.custom')}</option>}
+            {state.profiles.map(p => <option key={p.name} value={p.name}>{p.label}</option>)}
+          </select>
+        </div>
+
+        <div className="slider-group">
+          {renderSlider('remote-volume', t('volume.label'), state.volume, 0, 300, '%', value => send({ type: 'volume', value }, { volume: value }))}
+          {renderSlider('remote-balance', t('balance.label'), state.balance, -100, 100, '', value => send({ type: 'balance', value }, { balance: value }))}
+        </div>
+
+        <h3>{t('eq.title')}</h3>
+        <div className="form-row">
+          <label htmlFor="remote-eq-ear">{t('eq.earGroup')}</label>
+          <select id="remote-eq-ear" value={eqEar} onChange={e => setEqEar(e.target.value as Ear | 'both')}>
+            <option value="both">{t('eq.both')}</option>
+            <option value="left">{t('eq.left')}</option>
+            <option value="right">{t('eq.right')}</option>
+          </select>
+        </div>
+        <div className="slider-group">
+          {frequencies.map(freq => renderSlider(`remote-eq-${freq}`, formatFrequency(freq), eqCurve[freq] ?? 0, -EQ_MAX_GAIN, EQ_MAX_GAIN, ' dB', value => handleEq(freq, value)))}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('remote.caregiverTitle')}</h2>
+        {!pairing && (
+          <>
+            <p>{t('remote.enterCode')}</p>
+            <div className="form-row">
+              <label htmlFor="remote-code">{t('remote.code')}</label>
+              <input id="remote-code" type="text" value={code} onChange={e => setCode(e.target.value)} />
+            </div>
+            <div className="profile-controls">
+              <button className="btn btn-primary" onClick={() => join(code)} disabled={joining || !code.trim()}>{t('remote.join')}</button>
+            </div>
+          </>
+        )}
+        {error && <p className="form-error" role="alert">{error}</p>}
+
+        {pairing && status === 'connecting' && (
+          <>
+            <p>{t('remote.showAnswer')}</p>
+            <div className="share-code">
+              <canvas ref={qrCanvasRef} aria-label={t('remote.qrAria')} />
+              <input type="text" readOnly value={pairing.answer} aria-label={t('remote.answer')} onFocus={e => e.target.select()} />
+            </div>
+          </>
+        )}
+        {status === 'connected' && (remote ? renderControls(remote) : <p className="card-hint">{t('remote.waiting')}</p>)}
+        {status === 'closed' && <p className="form-error" role="alert">{revoked ? t('remote.revoked') : t('remote.disconnected')}</p>}
+      </div>
+      <div className="modal-actions">
+        <button className="btn btn-primary" onClick={onClose}>{t(status === 'connected' ? 'remote.disconnect' : 'common.close')}</button>
+      </div>
+    </>
+  );
+};
+
+export default CaregiverRemote;
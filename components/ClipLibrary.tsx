@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { Clip, createClipId, defaultClipLabel, deleteClip, listClips, MAX_RECORDING_SECONDS, readAudioDuration, saveClip } from '../utils/clips';
+import { isLocalDbSupported } from '../utils/localDb';
+
+interface ClipLibraryProps {
+  /** Raw microphone stream to record from; null while Klangnah is stopped. */
+  stream: MediaStream | null;
+  /** Whether clips can be played through the processing chain right now. */
+  canPlay: boolean;
+  playingId: string | null;
+  onPlay: (clip: Clip, loop: boolean) => void;
+  onStop: () => void;
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const ClipLibrary: React.FC<ClipLibraryProps> = ({ stream, canPlay, playingId, onPlay, onStop }) => {
+  const i18n = useI18n();
+  const { t, tag } = i18n;
+  const [clips, setClips] = useState<Clip[]>([]);
+  const [error, setError] = useState('');
+  const [recordingSeconds, setRecordingSeconds] = useState<number | null>(null);
+  const [loop, setLoop] = useState(true);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const refresh = async () => {
+    try {
+      setClips(await listClips());
+    } catch (err) {
+      console.error('Error loading clips:', err);
+      setError(t('clips.loadError'));
+    }
+  };
+
+  useEffect(() => {
+    if (isLocalDbSupported()) refresh();
+  }, []);
+
+  useEffect(() => {
+    if (recordingSeconds === null) return;
+    if (recordingSeconds >= MAX_RECORDING_SECONDS) {
+      recorderRef.current?.stop();
+      return;
+    }
+    const timer = setTimeout(() => setRecordingSeconds(recordingSeconds + 1), 1000);
+    return () => clearTimeout(timer);
+  }, [recordingSeconds]);
+
+  // Stopping Klangnah ends the microphone stream; finish the recording with it.
+  useEffect(() => {
+    if (!stream && recorderRef.current?.state === 'recording') recorderRef.current.stop();
+  }, [stream]);
+
+  const store = async (clip: Clip) => {
+    try {
+      await saveClip(clip);
+      await refresh();
+    } catch (err) {
+      console.error('Error saving clip:', err);
+      setError(t('clips.saveError'));
+    }
+  };
+
+  const startRecording = () => {
+    if (!stream) return;
+    setError('');
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    const recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      setRecordingSeconds(null);
+      if (chunks.length === 0) return;
+      store({
+        id: createClipId(),
+        label: defaultClipLabel(i18n, new Date(startedAt)),
+        origin: 'recording',
+        createdAt: new Date(startedAt).toISOString(),
+        // MediaRecorder files often carry no duration header, so the wall-clock time is used.
+        duration: (Date.now() - startedAt) / 1000,
+        audio: new Blob(chunks, { type: recorder.mimeType }),
+      });
+    };
+    recorder.start();
+    recorderRef.current = recorder;
+    setRecordingSeconds(0);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError('');
+    await store({
+      id: createClipId(),
+      label: file.name.replace(/\.[^.]+$/, ''),
+      origin: 'import',
+      createdAt: new Date().toISOString(),
+      duration: await readAudioDuration(file),
+      audio: file,
+    });
+  };
+
+  const handleRename = (clip: Clip, label: string) => {
+    setClips(prev => prev.map(c => (c.id === clip.id ? { ...c, label } : c)));
+  };
+
+  const handleRenameCommit = (clip: Clip) => {
+    const label = clip.label.trim() || defaultClipLabel(i18n, new Date(clip.createdAt));
+    store({ ...clip, label });
+  };
+
+  const handleDelete = async (clip: Clip) => {
+    if (!window.confirm(t('clips.confirmDelete', { label: clip.label }))) return;
+    if (playingId === clip.id) onStop();
+    try {
+      await deleteClip(clip.id);
+      await refresh();
+    } catch (err) {
+      console.error('Error deleting clip:', err);
+      setError(t('clips.deleteError'));
+    }
+  };
+
+  if (!isLocalDbSupported()) {
+    return <p className="card-hint">{t('clips.unsupported')}</p>;
+  }
+
+  return (
+    <div className="clip-library">
+      <div className="profile-controls">
+        {recordingSeconds === null ? (
+          <button className="btn" onClick={startRecording} disabled={!stream || typeof MediaRecorder === 'undefined'}>{t('clips.record')}</button>
+        ) : (
+          <button className="btn btn-danger" onClick={() => recorderRef.current?.stop()}>
+            {t('clips.stopRecording', { elapsed: formatDuration(recordingSeconds), max: formatDuration(MAX_RECORDING_SECONDS) })}
+          </button>
+        )}
+        <button className="btn" onClick={() => fileInputRef.current?.click()}>{t('clips.import')}</button>
+        <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleImport} hidden />
+      </div>
+      {!stream && <p className="card-hint">{t('clips.startHint')}</p>}
+      {recordingSeconds !== null && <p className="recording-indicator" role="status">{t('clips.recording')}</p>}
+      {error && <p className="form-error" role="alert">{error}</p>}
+
+      {clips.length > 0 && (
+        <>
+          <label className="toggle-row">
+            <input type="checkbox" checked={loop} onChange={e => setLoop(e.target.checked)} />
+            {t('clips.loop')}
+          </label>
+          <ul className="profile-list clip-list">
+            {clips.map(clip => (
+              <li key={clip.id} className={playingId === clip.id ? 'active' : ''}>
+                <input
+                  type="text"
+                  value={clip.label}
+                  onChange={e => handleRename(clip, e.target.value)}
+                  onBlur={() => handleRenameCommit(clip)}
+                  onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  aria-label={t('clips.labelAria')}
+                />
+                <span className="clip-meta">
+                  {t(clip.origin === 'import' ? 'clips.originImport' : 'clips.originRecording')} · {new Date(clip.createdAt).toLocaleDateString(tag)} · {formatDuration(clip.duration)}
+                </span>
+                <div className="profile-actions">
+                  {playingId === clip.id ? (
+                    <button className="btn btn-primary" onClick={onStop}>{t('clips.stop')}</button>
+                  ) : (
+                    <button className="btn" onClick={() => onPlay(clip, loop)} disabled={!canPlay}>{t('clips.play')}</button>
+                  )}
+                  <button className="btn btn-danger" onClick={() => handleDelete(clip)}>{t('common.delete')}</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ClipLibrary;
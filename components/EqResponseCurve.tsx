@@ -0,0 +1,99 @@
+import React, { useEffect, useRef } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { Ear } from '../types';
+
+interface EqResponseCurveProps {
+  /** Draw both ears (left blue, right red) instead of one shared curve. */
+  stereo: boolean;
+  getResponse: (ear: Ear, frequencies: Float32Array) => Float32Array;
+  /** Changes whenever the values the curve depends on (EQ curve, filters) change; the plot is then redrawn. */
+  revision: unknown;
+  /** The response comes from the running graph: keep redrawing for a while so ramps are shown. */
+  live: boolean;
+}
+
+const MIN_FREQ = 50;
+const MAX_FREQ = 16000;
+const RANGE_DB = 24;
+const POINTS = 200;
+const RAMP_REDRAW_MS = 3000;
+const GRID_FREQUENCIES = [100, 1000, 10000];
+// Audiogram convention: left ear blue, right ear red.
+const EAR_COLORS: Record<Ear, string> = { left: '#1e6fd9', right: '#d93025' };
+
+const FREQUENCIES = Float32Array.from({ length: POINTS }, (_, i) => MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, i / (POINTS - 1)));
+
+const xFor = (freq: number, width: number) => (Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ)) * width;
+
+const EqResponseCurve: React.FC<EqResponseCurveProps> = ({ stereo, getResponse, revision, live }) => {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const until = performance.now() + RAMP_REDRAW_MS;
+    const ears: Ear[] = stereo ? ['left', 'right'] : ['left'];
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+      const { width, height } = canvas;
+      const style = getComputedStyle(document.documentElement);
+      const yFor = (db: number) => height / 2 - (Math.max(-RANGE_DB, Math.min(RANGE_DB, db)) / RANGE_DB) * (height / 2);
+
+      ctx.clearRect(0, 0, width, height);
+      ctx.strokeStyle = style.getPropertyValue('--outline');
+      ctx.fillStyle = style.getPropertyValue('--on-surface-secondary');
+      ctx.font = '11px Inter, sans-serif';
+      ctx.globalAlpha = 0.4;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      GRID_FREQUENCIES.forEach(freq => {
+        ctx.moveTo(xFor(freq, width), 0);
+        ctx.lineTo(xFor(freq, width), height);
+      });
+      [-12, 0, 12].forEach(db => {
+        ctx.moveTo(0, yFor(db));
+        ctx.lineTo(width, yFor(db));
+      });
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      GRID_FREQUENCIES.forEach(freq => ctx.fillText(freq < 1000 ? `${freq} Hz` : `${freq / 1000} kHz`, xFor(freq, width) + 3, height - 4));
+      ctx.fillText(`+${RANGE_DB / 2} dB`, 3, yFor(RANGE_DB / 2) - 3);
+      ctx.fillText(`−${RANGE_DB / 2} dB`, 3, yFor(-RANGE_DB / 2) - 3);
+
+      ctx.lineWidth = 2;
+      ears.forEach(ear => {
+        const response = getResponse(ear, FREQUENCIES);
+        ctx.strokeStyle = stereo ? EAR_COLORS[ear] : style.getPropertyValue('--primary');
+        ctx.beginPath();
+        FREQUENCIES.forEach((freq, i) => {
+          const x = xFor(freq, width);
+          if (i === 0) ctx.moveTo(x, yFor(response[i]));
+          else ctx.lineTo(x, yFor(response[i]));
+        });
+        ctx.stroke();
+      });
+
+      if (live && performance.now() < until) frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [stereo, getResponse, live, revision]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="eq-response"
+      width="600"
+      height="160"
+      role="img"
+      aria-label={t('eq.responseCurve')}
+    />
+  );
+};
+
+export default EqResponseCurve;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+import { AUDIOGRAM_MAX_LEVEL, AUDIOGRAM_MIN_LEVEL } from '../constants';
+import { useI18n } from '../hooks/useI18n';
+import { MessageId } from '../i18n';
+import { Audiogram, Ear, FittingRule, Thresholds } from '../types';
+import { FITTING_RULES, createThresholdSearch, nextThresholdStep, playTestTone, ThresholdSearch } from '../utils/audiometry';
+
+interface HearingTestProps {
+  audioContext: AudioContext | null;
+  frequencies: number[];
+  isNameTaken: (name: string) => boolean;
+  onComplete: (name: string, audiogram: Audiogram, rule: FittingRule) => void;
+  onCancel: () => void;
+}
+
+const EAR_LABELS: Record<Ear, MessageId> = { left: 'common.leftEar', right: 'common.rightEar' };
+
+const formatFrequency = (freq: number) => (freq < 1000 ? `${freq} Hz` : `${freq / 1000} kHz`);
+
+const buildSequence = (frequencies: number[]): { ear: Ear; freq: number }[] => {
+  // Start at 1 kHz, go up, then test the low frequencies – the usual clinical order.
+  const upper = frequencies.filter(f => f >= 1000);
+  const lower = frequencies.filter(f => f < 1000).reverse();
+  const order = [...upper, ...lower];
+  return (['right', 'left'] as Ear[]).flatMap(ear => order.map(freq => ({ ear, freq })));
+};
+
+const HearingTest: React.FC<HearingTestProps> = ({ audioContext, frequencies, isNameTaken, onComplete, onCancel }) => {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<'intro' | 'testing' | 'result'>('intro');
+  const [rule, setRule] = useState<FittingRule>('nal-r');
+  const [stepIndex, setStepIndex] = useState(0);
+  const [search, setSearch] = useState<ThresholdSearch>(createThresholdSearch());
+  const [presentation, setPresentation] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [thresholds, setThresholds] = useState<Record<Ear, Thresholds>>({ left: {}, right: {} });
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState('');
+
+  const sequence = useRef(buildSequence(frequencies)).current;
+  const ownContextRef = useRef<AudioContext | null>(null);
+
+  const getContext = () => {
+    if (audioContext) return audioContext;
+    if (!ownContextRef.current) {
+      ownContextRef.current = new AudioContext({ latencyHint: 'interactive' });
+    }
+    return ownContextRef.current;
+  };
+
+  useEffect(() => {
+    return () => {
+      ownContextRef.current?.close();
+      ownContextRef.current = null;
+    };
+  }, []);
+
+  const current = sequence[stepIndex];
+
+  useEffect(() => {
+    if (phase !== 'testing' || !current) return;
+    let cancelled = false;
+    const context = getContext();
+    setIsPlaying(true);
+    context.resume()
+      .then(() => playTestTone(context, context.destination, current.freq, search.level, current.ear))
+      .catch(err => console.error('Error playing test tone:', err))
+      .finally(() => {
+        if (!cancelled) setIsPlaying(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [phase, stepIndex, search.level, presentation]);
+
+  const handleResponse = (heard: boolean) => {
+    const { search: next, threshold } = nextThresholdStep(search, heard, current.freq);
+    if (threshold === undefined) {
+      if (next.level === search.level) setPresentation(p => p + 1);
+      setSearch(next);
+      return;
+    }
+    setThresholds(prev => ({ ...prev, [current.ear]: { ...prev[current.ear], [current.freq]: threshold } }));
+    setSearch(createThresholdSearch());
+    if (stepIndex + 1 < sequence.length) {
+      setStepIndex(stepIndex + 1);
+    } else {
+      setPhase('result');
+    }
+  };
+
+  const handleThresholdEdit = (ear: Ear, freq: number, value: number) => {
+    if (!Number.isFinite(value)) return;
+    const threshold = Math.max(AUDIOGRAM_MIN_LEVEL, Math.min(AUDIOGRAM_MAX_LEVEL, value));
+    setThresholds(prev => ({ ...prev, [ear]: { ...prev[ear], [freq]: threshold } }));
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError(t('common.enterName'));
+      return;
+    }
+    if (isNameTaken(trimmed)) {
+      setNameError(t('common.nameTaken'));
+      return;
+    }
+    onComplete(trimmed, { ...thresholds, date: new Date().toISOString() }, rule);
+  };
+
+  if (phase === 'intro') {
+    return (
+      <>
+        <div className="modal-content-scrollable">
+          <h2 style={{ textAlign: 'center' }}>{t('hearingTest.title')}</h2>
+          <p>{t('hearingTest.intro')}</p>
+          <ul>
+            <li>{t('hearingTest.tipRoom')}</li>
+            <li>{t('hearingTest.tipVolume')}</li>
+            <li>{t('hearingTest.tipAnswer')}</li>
+          </ul>
+          <p>{t('hearingTest.disclaimer')}</p>
+          <div className="form-row">
+            <label htmlFor="fitting-rule">{t('hearingTest.rule')}</label>
+            <select id="fitting-rule" value={rule} onChange={e => setRule(e.target.value as FittingRule)}>
+              {FITTING_RULES.map(r => <option key={r.id} value={r.id}>{t(r.label)}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="modal-actions">
+          <button className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+          <button className="btn btn-primary" onClick={() => setPhase('testing')}>{t('hearingTest.begin')}</button>
+        </div>
+      </>
+    );
+  }
+
+  if (phase === 'testing') {
+    return (
+      <>
+        <h2>{t('hearingTest.title')}</h2>
+        <p className="hearing-test-step">{t(EAR_LABELS[current.ear])} · {formatFrequency(current.freq)}</p>
+        <p>{t('hearingTest.step', { step: stepIndex + 1, total: sequence.length })}</p>
+        <p aria-live="polite">{t(isPlaying ? 'hearingTest.playing' : 'hearingTest.question')}</p>
+        <div className="modal-actions hearing-test-answers">
+          <button className="btn" onClick={() => handleResponse(false)}>{t('hearingTest.notHeard')}</button>
+          <button className="btn btn-primary" onClick={() => handleResponse(true)}>{t('hearingTest.heard')}</button>
+        </div>
+        <div className="modal-actions">
+          <button className="btn" onClick={() => setPresentation(p => p + 1)} disabled={isPlaying}>{t('hearingTest.repeat')}</button>
+          <button className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('hearingTest.resultTitle')}</h2>
+        <p>{t('hearingTest.resultText')}</p>
+        <table className="audiogram-table">
+          <thead>
+            <tr>
+              <th></th>
+              {frequencies.map(freq => <th key={freq}>{formatFrequency(freq)}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {(['right', 'left'] as Ear[]).map(ear => (
+              <tr key={ear}>
+                <th>{t(EAR_LABELS[ear])}</th>
+                {frequencies.map(freq => (
+                  <td key={freq}>
+                    <input
+                      type="number"
+                      min={AUDIOGRAM_MIN_LEVEL}
+                      max={AUDIOGRAM_MAX_LEVEL}
+                      step={5}
+                      value={thresholds[ear][freq] ?? 0}
+                      onChange={e => handleThresholdEdit(ear, freq, Number(e.target.value))}
+                      aria-label={t('hearingTest.thresholdAria', { ear: t(EAR_LABELS[ear]), frequency: formatFrequency(freq) })}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="form-row">
+          <label htmlFor="fitting-rule">{t('hearingTest.rule')}</label>
+          <select id="fitting-rule" value={rule} onChange={e => setRule(e.target.value as FittingRule)}>
+            {FITTING_RULES.map(r => <option key={r.id} value={r.id}>{t(r.label)}</option>)}
+          </select>
+        </div>
+        <div className="form-row">
+          <label htmlFor="hearing-test-name">{t('common.profileName')}</label>
+          <input id="hearing-test-name" type="text" value={name} onChange={e => { setName(e.target.value); setNameError(''); }} />
+        </div>
+        {nameError && <p className="form-error" role="alert">{nameError}</p>}
+      </div>
+      <div className="modal-actions">
+        <button className="btn" onClick={onCancel}>{t('hearingTest.discard')}</button>
+        <button className="btn btn-primary" onClick={handleSave}>{t('hearingTest.create')}</button>
+      </div>
+    </>
+  );
+};
+
+export default HearingTest;
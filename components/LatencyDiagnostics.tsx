@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { isLoopbackSupported } from '../audio/latencyProbe';
+import { estimatedLatency, formatMs, LATENCY_MODES, LatencyMeasurement, LatencyMode, LatencyReport, readLatency } from '../utils/latency';
+
+interface LatencyDiagnosticsProps {
+  mode: LatencyMode;
+  /** Mode the running audio was started with; null while Klangnah is stopped. */
+  activeMode: LatencyMode | null;
+  onModeChange: (mode: LatencyMode) => void;
+  onRestart: () => void;
+  /** The running audio; null while Klangnah is stopped. */
+  context: AudioContext | null;
+  stream: MediaStream | null;
+  /** Delay of the processing stages (seconds). */
+  processingLatency: number;
+  onMeasureLoopback: () => Promise<number | null>;
+  measurements: LatencyMeasurement[];
+  onSave: (report: LatencyReport, loopback: number | null) => void;
+  onClear: () => void;
+}
+
+const LatencyDiagnostics: React.FC<LatencyDiagnosticsProps> = ({ mode, activeMode, onModeChange, onRestart, context, stream, processingLatency, onMeasureLoopback, measurements, onSave, onClear }) => {
+  const { t, tag } = useI18n();
+  const [report, setReport] = useState<LatencyReport | null>(null);
+  const [loopback, setLoopback] = useState<number | null | undefined>(undefined);
+  const [measuring, setMeasuring] = useState(false);
+
+  useEffect(() => setLoopback(undefined), [context, stream]);
+
+  // outputLatency settles only after playback has run for a moment and changes with the device.
+  useEffect(() => {
+    if (!context) {
+      setReport(null);
+      return;
+    }
+    const read = () => setReport(readLatency(context, stream, processingLatency));
+    read();
+    const timer = setInterval(read, 1000);
+    return () => clearInterval(timer);
+  }, [context, stream, processingLatency]);
+
+  const handleMeasure = async () => {
+    setMeasuring(true);
+    try {
+      setLoopback(await onMeasureLoopback());
+    } catch (err) {
+      console.error('Error measuring loopback latency:', err);
+      setLoopback(null);
+    } finally {
+      setMeasuring(false);
+    }
+  };
+
+  const modeLabel = (id: LatencyMode) => t(LATENCY_MODES.find(m => m.id === id)!.label);
+
+  return (
+    <>
+      <div className="form-row">
+        <label htmlFor="latency-mode">{t('latency.mode')}</label>
+        <select id="latency-mode" value={mode} onChange={e => onModeChange(e.target.value as LatencyMode)}>
+          {LATENCY_MODES.map(m => <option key={m.id} value={m.id}>{t(m.label)}</option>)}
+        </select>
+      </div>
+      <p className="card-hint">{t('latency.modeHint')}</p>
+      {activeMode && activeMode !== mode && (
+        <div className="notice-banner">
+          <span>{t('latency.restartNeeded')}</span>
+          <button className="btn" onClick={onRestart}>{t('latency.restart')}</button>
+        </div>
+      )}
+
+      {report ? (
+        <>
+          <table className="latency-table">
+            <tbody>
+              <tr><th scope="row">{t('latency.input')}</th><td>{formatMs(report.input, tag)}</td></tr>
+              <tr><th scope="row">{t('latency.base')}</th><td>{formatMs(report.base, tag)}</td></tr>
+              <tr><th scope="row">{t('latency.processing')}</th><td>{formatMs(report.processing, tag)}</td></tr>
+              <tr><th scope="row">{t('latency.output')}</th><td>{formatMs(report.output, tag)}</td></tr>
+              <tr><th scope="row">{t('latency.estimate')}</th><td><strong>{formatMs(estimatedLatency(report), tag)}</strong></td></tr>
+              <tr><th scope="row">{t('latency.sampleRate')}</th><td>{report.sampleRate.toLocaleString(tag)} Hz</td></tr>
+            </tbody>
+          </table>
+
+          {isLoopbackSupported() && <p className="card-hint">{t('latency.loopbackHint')}</p>}
+          <div className="profile-controls">
+            {isLoopbackSupported() && <button className="btn" onClick={handleMeasure} disabled={measuring}>{t('latency.loopback')}</button>}
+            <button className="btn" onClick={() => onSave(report, loopback ?? null)} disabled={measuring}>{t('latency.save')}</button>
+          </div>
+          <p className="card-hint" aria-live="polite">
+            {measuring && t('latency.measuring')}
+            {!measuring && loopback !== undefined && (loopback === null ? t('latency.notHeard') : t('latency.loopbackResult', { value: formatMs(loopback, tag) }))}
+          </p>
+        </>
+      ) : (
+        <p className="card-hint">{t('latency.stopped')}</p>
+      )}
+
+      {measurements.length > 0 && (
+        <>
+          <table className="latency-table latency-history">
+            <caption>{t('latency.history')}</caption>
+            <thead>
+              <tr>
+                <th scope="col">{t('latency.date')}</th>
+                <th scope="col">{t('latency.devices')}</th>
+                <th scope="col">{t('latency.mode')}</th>
+                <th scope="col">{t('latency.estimate')}</th>
+                <th scope="col">{t('latency.loopbackShort')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {measurements.map(m => (
+                <tr key={m.date}>
+                  <td>{new Date(m.date).toLocaleString(tag, { dateStyle: 'short', timeStyle: 'short' })}</td>
+                  <td>{m.inputLabel || t('devices.defaultInput')} → {m.outputLabel || t('devices.defaultOutput')}</td>
+                  <td>{modeLabel(m.mode)}</td>
+                  <td>{formatMs(estimatedLatency(m.report), tag)}</td>
+                  <td>{formatMs(m.loopback, tag)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="profile-controls">
+            <button className="btn" onClick={onClear}>{t('latency.clear')}</button>
+          </div>
+        </>
+      )}
+    </>
+  );
+};
+
+export default LatencyDiagnostics;
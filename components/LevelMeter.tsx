@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { peakToDbfs, rmsToDbfs } from '../utils/noiseDose';
+
+interface LevelMeterProps {
+  label: string;
+  analyser: AnalyserNode | null;
+  /** Peaks at or above this level (dBFS) light the clip indicator. */
+  clipLevel?: number;
+  clipLabel?: string;
+}
+
+const FLOOR_DB = -60;
+const UPDATE_MS = 40;
+// Peak hold falls back at this rate (dB per second), like a hardware PPM.
+const PEAK_FALLBACK = 20;
+const SCALE = [-48, -36, -24, -12, -6, 0];
+
+const toPercent = (db: number) => (Math.max(FLOOR_DB, Math.min(0, db)) - FLOOR_DB) / -FLOOR_DB * 100;
+
+const formatDb = (db: number) => (Number.isFinite(db) && db > FLOOR_DB ? db.toFixed(1) : '−∞');
+
+/**
+ * Peak and RMS meter in dBFS. The clip indicator latches until it is clicked, so
+ * short overloads are not missed.
+ */
+const LevelMeter: React.FC<LevelMeterProps> = ({ label, analyser, clipLevel = 0, clipLabel }) => {
+  const { t } = useI18n();
+  const indicator = clipLabel ?? t('meter.clipped');
+  const [levels, setLevels] = useState({ peak: -Infinity, rms: -Infinity, hold: -Infinity });
+  const [clipped, setClipped] = useState(false);
+
+  useEffect(() => {
+    if (!analyser) {
+      setLevels({ peak: -Infinity, rms: -Infinity, hold: -Infinity });
+      return;
+    }
+    const samples = new Float32Array(analyser.fftSize);
+    let hold = -Infinity;
+    const timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const peak = peakToDbfs(samples);
+      const rms = rmsToDbfs(samples);
+      hold = Math.max(peak, hold - (PEAK_FALLBACK * UPDATE_MS) / 1000);
+      if (peak >= clipLevel) setClipped(true);
+      setLevels({ peak, rms, hold });
+    }, UPDATE_MS);
+    return () => clearInterval(timer);
+  }, [analyser, clipLevel]);
+
+  return (
+    <div className="level-meter">
+      <div className="level-meter-header">
+        <span className="level-meter-label">{label}</span>
+        <span className="level-meter-readout">
+          {t('meter.peak')} <strong>{formatDb(levels.hold)}</strong> · {t('meter.rms')} <strong>{formatDb(levels.rms)}</strong> dBFS
+        </span>
+        <button
+          className={clipped ? 'clip-indicator active' : 'clip-indicator'}
+          onClick={() => setClipped(false)}
+          title={t('meter.resetTitle')}
+          aria-label={clipped ? t('meter.clipActive', { label: indicator }) : t('meter.clipInactive', { label: indicator.toLowerCase() })}
+        >
+          {indicator}
+        </button>
+      </div>
+      <div
+        className="level-meter-bar"
+        role="meter"
+        aria-label={t('meter.aria', { label })}
+        aria-valuemin={FLOOR_DB}
+        aria-valuemax={0}
+        aria-valuenow={Number.isFinite(levels.peak) ? Math.max(FLOOR_DB, Math.round(levels.peak)) : FLOOR_DB}
+      >
+        <div className="level-meter-peak" style={{ width: `${toPercent(levels.peak)}%` }} />
+        <div className="level-meter-rms" style={{ width: `${toPercent(levels.rms)}%` }} />
+        <div className="level-meter-hold" style={{ left: `${toPercent(levels.hold)}%` }} />
+        {clipLevel < 0 && <div className="level-meter-ceiling" style={{ left: `${toPercent(clipLevel)}%` }} />}
+      </div>
+      <div className="level-meter-scale" aria-hidden="true">
+        {SCALE.map(db => <span key={db} style={{ left: `${toPercent(db)}%` }}>{db}</span>)}
+      </div>
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,93 @@
+import React, { useState, useEffect, useRef } from 'react';
+import QRCode from 'qrcode';
+
+import { useI18n } from '../hooks/useI18n';
+import { Profile } from '../types';
+import { buildShareLink, createProfileFile, encodeShareCode } from '../utils/profileSchema';
+
+interface ProfileExportProps {
+  currentProfile: Profile;
+  library: Profile[];
+  onClose: () => void;
+}
+
+// Above this length a QR code gets too dense to scan reliably from a screen.
+const MAX_QR_LENGTH = 1200;
+
+const ProfileExport: React.FC<ProfileExportProps> = ({ currentProfile, library, onClose }) => {
+  const { t } = useI18n();
+  const [scope, setScope] = useState<'current' | 'library'>('current');
+  const [shareLink, setShareLink] = useState('');
+  const [copied, setCopied] = useState(false);
+  const qrCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const profiles = scope === 'current' ? [currentProfile] : library;
+
+  useEffect(() => {
+    let cancelled = false;
+    setCopied(false);
+    encodeShareCode(profiles).then(code => {
+      if (!cancelled) setShareLink(buildShareLink(code));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  useEffect(() => {
+    if (!qrCanvasRef.current || !shareLink || shareLink.length > MAX_QR_LENGTH) return;
+    QRCode.toCanvas(qrCanvasRef.current, shareLink, { errorCorrectionLevel: 'L', margin: 2, width: 240 }).catch(err => {
+      console.error('Error drawing QR code:', err);
+    });
+  }, [shareLink]);
+
+  const handleDownload = () => {
+    const file = createProfileFile(profiles);
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const baseName = scope === 'current' ? currentProfile.name.replace(/[^\p{L}\p{N}_-]+/gu, '-') : t('export.libraryFileName');
+    link.href = url;
+    link.download = `klangnah-${baseName}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setCopied(true);
+    } catch (err) {
+      console.error('Error copying share link:', err);
+    }
+  };
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('export.title')}</h2>
+        <div className="form-row">
+          <label htmlFor="export-scope">{t('export.scope')}</label>
+          <select id="export-scope" value={scope} onChange={e => setScope(e.target.value as 'current' | 'library')}>
+            <option value="current">{t('export.current', { name: currentProfile.name })}</option>
+            <option value="library" disabled={library.length === 0}>{t('export.library', { count: library.length })}</option>
+          </select>
+        </div>
+        <p>{t('export.text')}</p>
+        <div className="share-code">
+          {shareLink.length > MAX_QR_LENGTH
+            ? <p className="card-hint">{t('export.tooLarge')}</p>
+            : <canvas ref={qrCanvasRef} aria-label={t('export.qrAria')} />}
+          <input type="text" readOnly value={shareLink} aria-label={t('export.linkAria')} onFocus={e => e.target.select()} />
+        </div>
+      </div>
+      <div className="modal-actions">
+        <button className="btn" onClick={handleDownload}>{t('export.download')}</button>
+        <button className="btn" onClick={handleCopy} disabled={!shareLink}>{t(copied ? 'export.copied' : 'export.copy')}</button>
+        <button className="btn btn-primary" onClick={onClose}>{t('common.close')}</button>
+      </div>
+    </>
+  );
+};
+
+export default ProfileExport;
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { Profile } from '../types';
+import { decodeShareCode, parseProfileText, ParsedProfiles, PROFILE_NAME_MAX_LENGTH } from '../utils/profileSchema';
+import { uniqueProfileName } from '../utils/profile';
+
+export interface ImportedProfile {
+  profile: Profile;
+  replace: boolean;
+}
+
+interface ProfileImportProps {
+  customNames: string[];
+  reservedNames: string[];
+  initialCode?: string;
+  onImport: (profiles: ImportedProfile[]) => void;
+  onCancel: () => void;
+}
+
+type Resolution = 'add' | 'overwrite' | 'rename' | 'skip';
+
+interface ReviewItem {
+  profile: Profile;
+  resolution: Resolution;
+  newName: string;
+}
+
+const ProfileImport: React.FC<ProfileImportProps> = ({ customNames, reservedNames, initialCode, onImport, onCancel }) => {
+  const { t } = useI18n();
+  const [code, setCode] = useState(initialCode ?? '');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [items, setItems] = useState<ReviewItem[] | null>(null);
+  const [reviewError, setReviewError] = useState('');
+
+  const review = ({ profiles, errors: parseErrors }: ParsedProfiles) => {
+    setErrors(parseErrors);
+    if (profiles.length === 0) {
+      setItems(null);
+      return;
+    }
+    const taken = new Set([...customNames, ...reservedNames]);
+    setItems(profiles.map(profile => {
+      const conflict = taken.has(profile.name);
+      const newName = uniqueProfileName(profile.name, name => taken.has(name));
+      taken.add(newName);
+      return { profile, resolution: conflict ? 'rename' : 'add', newName };
+    }));
+  };
+
+  useEffect(() => {
+    if (initialCode) {
+      decodeShareCode(initialCode, t).then(review);
+    }
+  }, []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    review(parseProfileText(await file.text(), t));
+    e.target.value = '';
+  };
+
+  const handleCode = async () => {
+    if (!code.trim()) return;
+    review(await decodeShareCode(code, t));
+  };
+
+  const updateItem = (index: number, changes: Partial<ReviewItem>) => {
+    setItems(prev => prev && prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    setReviewError('');
+  };
+
+  const handleConfirm = () => {
+    if (!items) return;
+    const finalNames = new Set<string>();
+    const result: ImportedProfile[] = [];
+    for (const item of items) {
+      if (item.resolution === 'skip') continue;
+      const name = item.resolution === 'rename' ? item.newName.trim() : item.profile.name;
+      if (!name) {
+        setReviewError(t('import.renameMissing'));
+        return;
+      }
+      const clashesWithExisting = reservedNames.includes(name) || (customNames.includes(name) && item.resolution !== 'overwrite');
+      if (clashesWithExisting || finalNames.has(name)) {
+        setReviewError(t('import.nameTaken', { name }));
+        return;
+      }
+      finalNames.add(name);
+      result.push({ profile: { ...item.profile, name }, replace: item.resolution === 'overwrite' });
+    }
+    onImport(result);
+  };
+
+  if (!items) {
+    return (
+      <>
+        <div className="modal-content-scrollable">
+          <h2 style={{ textAlign: 'center' }}>{t('import.title')}</h2>
+          <p>{t('import.text')}</p>
+          <div className="form-row">
+            <label htmlFor="profile-import-file">{t('import.file')}</label>
+            <input id="profile-import-file" type="file" accept="application/json,.json" onChange={handleFile} />
+          </div>
+          <div className="form-row">
+            <label htmlFor="profile-import-code">{t('import.code')}</label>
+            <input id="profile-import-code" type="text" value={code} onChange={e => setCode(e.target.value)} placeholder={t('import.codePlaceholder')} />
+          </div>
+          {errors.length > 0 && (
+            <ul className="form-error" role="alert">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+        <div className="modal-actions">
+          <button className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+          <button className="btn btn-primary" onClick={handleCode} disabled={!code.trim()}>{t('import.read')}</button>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('import.reviewTitle')}</h2>
+        {errors.length > 0 && (
+          <>
+            <p>{t('import.invalidEntries')}</p>
+            <ul className="form-error">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          </>
+        )}
+        <ul className="import-list">
+          {items.map((item, i) => {
+            const isReserved = reservedNames.includes(item.profile.name);
+            const conflict = isReserved || customNames.includes(item.profile.name);
+            return (
+              <li key={i}>
+                <div className="import-name">
+                  <strong>{item.profile.name}</strong>
+                  {conflict && <span> {t('import.nameExists')}</span>}
+                </div>
+                <div className="import-resolution">
+                  <select
+                    value={item.resolution}
+                    onChange={e => updateItem(i, { resolution: e.target.value as Resolution })}
+                    aria-label={t('import.resolutionAria', { name: item.profile.name })}
+                  >
+                    {!conflict && <option value="add">{t('import.add')}</option>}
+                    {conflict && !isReserved && <option value="overwrite">{t('import.overwrite')}</option>}
+                    <option value="rename">{t('common.rename')}</option>
+                    <option value="skip">{t('import.skip')}</option>
+                  </select>
+                  {item.resolution === 'rename' && (
+                    <input
+                      type="text"
+                      maxLength={PROFILE_NAME_MAX_LENGTH}
+                      value={item.newName}
+                      onChange={e => updateItem(i, { newName: e.target.value })}
+                      aria-label={t('import.newNameAria', { name: item.profile.name })}
+                    />
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        {reviewError && <p className="form-error" role="alert">{reviewError}</p>}
+      </div>
+      <div className="modal-actions">
+        <button className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+        <button className="btn btn-primary" onClick={handleConfirm}>{t('import.confirm')}</button>
+      </div>
+    </>
+  );
+};
+
+export default ProfileImport;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { Profile } from '../types';
+import { PROFILE_NAME_MAX_LENGTH } from '../utils/profileSchema';
+
+interface ProfileManagerProps {
+  profiles: Profile[];
+  predefinedProfiles: Profile[];
+  selectedProfile: string;
+  /** Display name of a profile; predefined profiles are stored under a stable id. */
+  profileLabel: (name: string) => string;
+  isNameTaken: (name: string) => boolean;
+  deletedProfile: string | null;
+  onSelect: (name: string) => void;
+  onOverwrite: (name: string) => void;
+  onRename: (oldName: string, newName: string) => void;
+  onDelete: (name: string) => void;
+  onUndoDelete: () => void;
+  onDuplicate: (profile: Profile) => void;
+  onMove: (from: number, to: number) => void;
+  onToggleFavorite: (name: string) => void;
+  onClose: () => void;
+}
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({
+  profiles, predefinedProfiles, selectedProfile, profileLabel, isNameTaken, deletedProfile,
+  onSelect, onOverwrite, onRename, onDelete, onUndoDelete, onDuplicate, onMove, onToggleFavorite, onClose,
+}) => {
+  const { t } = useI18n();
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [nameError, setNameError] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const startRename = (name: string) => {
+    setRenaming(name);
+    setNewName(name);
+    setNameError('');
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      setNameError(t('common.enterName'));
+      return;
+    }
+    if (trimmed !== renaming && isNameTaken(trimmed)) {
+      setNameError(t('common.nameTaken'));
+      return;
+    }
+    onRename(renaming, trimmed);
+    setRenaming(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex !== null) onMove(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('manager.title')}</h2>
+        {deletedProfile && (
+          <div className="notice-banner" role="status">
+            <span>{t('profiles.deleted', { name: deletedProfile })}</span>
+            <button className="btn" onClick={onUndoDelete}>{t('common.undo')}</button>
+          </div>
+        )}
+
+        <h3>{t('profiles.mine')}</h3>
+        {profiles.length === 0 && <p className="card-hint">{t('manager.empty')}</p>}
+        <ul className="profile-list">
+          {profiles.map((profile, i) => (
+            <li
+              key={profile.name}
+              className={[
+                profile.name === selectedProfile ? 'active' : '',
+                dragIndex === i ? 'dragging' : '',
+                dropIndex === i && dragIndex !== i ? 'drop-target' : '',
+              ].join(' ').trim()}
+              draggable={renaming === null}
+              onDragStart={e => { setDragIndex(i); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={e => { e.preventDefault(); setDropIndex(i); }}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+              onDrop={e => handleDrop(e, i)}
+            >
+              <span className="drag-handle" aria-hidden="true">⠿</span>
+              <button
+                className={profile.favorite ? 'icon-btn favorite active' : 'icon-btn favorite'}
+                onClick={() => onToggleFavorite(profile.name)}
+                aria-pressed={!!profile.favorite}
+                aria-label={t('manager.favoriteAria', { name: profile.name })}
+              >
+                {profile.favorite ? '★' : '☆'}
+              </button>
+              {renaming === profile.name ? (
+                <form className="profile-rename" onSubmit={handleRename}>
+                  <input type="text" maxLength={PROFILE_NAME_MAX_LENGTH} value={newName} autoFocus onChange={e => { setNewName(e.target.value); setNameError(''); }} aria-label={t('import.newNameAria', { name: profile.name })} />
+                  <button type="submit" className="btn btn-primary">{t('manager.ok')}</button>
+                  <button type="button" className="btn" onClick={() => setRenaming(null)}>{t('common.cancel')}</button>
+                  {nameError && <p className="form-error" role="alert">{nameError}</p>}
+                </form>
+              ) : (
+                <>
+                  <button className="profile-name" onClick={() => onSelect(profile.name)} title={t('manager.load')}>{profile.name}</button>
+                  <div className="profile-actions">
+                    <button className="icon-btn" onClick={() => onMove(i, i - 1)} disabled={i === 0} aria-label={t('manager.moveUp', { name: profile.name })}>↑</button>
+                    <button className="icon-btn" onClick={() => onMove(i, i + 1)} disabled={i === profiles.length - 1} aria-label={t('manager.moveDown', { name: profile.name })}>↓</button>
+                    <button className="btn" onClick={() => onOverwrite(profile.name)} title={t('manager.overwriteTitle')}>{t('manager.overwrite')}</button>
+                    <button className="btn" onClick={() => startRename(profile.name)}>{t('common.rename')}</button>
+                    <button className="btn btn-danger" onClick={() => onDelete(profile.name)}>{t('common.delete')}</button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <h3>{t('manager.predefined')}</h3>
+        <p className="card-hint">{t('manager.predefinedHint')}</p>
+        <ul className="profile-list">
+          {predefinedProfiles.map(profile => (
+            <li key={profile.name}>
+              <button className="profile-name" onClick={() => onSelect(profile.name)} title={t('manager.load')}>{profileLabel(profile.name)}</button>
+              <div className="profile-actions">
+                <button className="btn" onClick={() => onDuplicate(profile)}>{t('manager.duplicate')}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="modal-actions">
+        <button className="btn btn-primary" onClick={onClose}>{t('common.close')}</button>
+      </div>
+    </>
+  );
+};
+
+export default ProfileManager;
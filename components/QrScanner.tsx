@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+
+interface QrScannerProps {
+  onResult: (text: string) => void;
+  onCancel: () => void;
+}
+
+// Not yet part of the TypeScript DOM library.
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+const barcodeDetector = () => (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL_MS = 300;
+
+/** Whether the browser can read QR codes from the camera (Chrome on Android, among others). */
+export const isQrScanSupported = (): boolean => barcodeDetector() !== undefined && !!navigator.mediaDevices?.getUserMedia;
+
+/** Camera preview that reports the first QR code it sees. The camera is switched off again on unmount. */
+const QrScanner: React.FC<QrScannerProps> = ({ onResult, onCancel }) => {
+  const { t } = useI18n();
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false }).then(async camera => {
+      if (cancelled) {
+        camera.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = camera;
+      const video = videoRef.current!;
+      video.srcObject = camera;
+      await video.play();
+      timer = window.setInterval(async () => {
+        try {
+          const codes = await detector.detect(video);
+          if (codes.length > 0 && !cancelled) {
+            cancelled = true;
+            onResult(codes[0].rawValue);
+          }
+        } catch (err) {
+          console.error('Error reading QR code:', err);
+        }
+      }, SCAN_INTERVAL_MS);
+    }).catch(err => {
+      console.error('Error opening camera:', err);
+      setError(t('scanner.cameraError'));
+    });
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="qr-scanner">
+      {error ? <p className="form-error" role="alert">{error}</p> : <video ref={videoRef} muted playsInline aria-label={t('scanner.preview')} />}
+      <button className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+    </div>
+  );
+};
+
+export default QrScanner;
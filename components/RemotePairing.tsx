@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+
+import { useI18n } from '../hooks/useI18n';
+import { buildRemoteLink, RemoteStatus } from '../utils/remoteControl';
+import QrScanner, { isQrScanSupported } from './QrScanner';
+
+interface RemotePairingProps {
+  /** Pairing code for the caregiver's device; null while it is being prepared. */
+  offer: string | null;
+  status: RemoteStatus | null;
+  /** Takes the caregiver's reply code; false if it is not valid. */
+  onAnswer: (code: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/** The owner's side of the pairing: shows the code for the caregiver and takes the reply. */
+const RemotePairing: React.FC<RemotePairingProps> = ({ offer, status, onAnswer, onClose }) => {
+  const { t } = useI18n();
+  const [answer, setAnswer] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [error, setError] = useState('');
+  const qrCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const link = offer ? buildRemoteLink(offer) : '';
+
+  useEffect(() => {
+    if (!qrCanvasRef.current || !link) return;
+    QRCode.toCanvas(qrCanvasRef.current, link, { errorCorrectionLevel: 'L', margin: 2, width: 240 }).catch(err => {
+      console.error('Error drawing QR code:', err);
+    });
+  }, [link]);
+
+  const connect = async (code: string) => {
+    setScanning(false);
+    setError('');
+    try {
+      if (!(await onAnswer(code))) setError(t('remote.invalidAnswer'));
+    } catch (err) {
+      console.error('Error accepting remote answer:', err);
+      setError(t('remote.connectError'));
+    }
+  };
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('remote.pairTitle')}</h2>
+        <p>{t('remote.pairStep1')}</p>
+        <div className="share-code">
+          {offer ? (
+            <>
+              <canvas ref={qrCanvasRef} aria-label={t('remote.qrAria')} />
+              <input type="text" readOnly value={link} aria-label={t('remote.linkAria')} onFocus={e => e.target.select()} />
+            </>
+          ) : (
+            <p className="card-hint">{t('remote.preparing')}</p>
+          )}
+        </div>
+        <p>{t('remote.pairStep2')}</p>
+        {scanning ? (
+          <QrScanner onResult={connect} onCancel={() => setScanning(false)} />
+        ) : (
+          <>
+            <div className="form-row">
+              <label htmlFor="remote-answer">{t('remote.answer')}</label>
+              <input id="remote-answer" type="text" value={answer} onChange={e => setAnswer(e.target.value)} disabled={!offer} />
+            </div>
+            <div className="profile-controls">
+              <button className="btn btn-primary" onClick={() => connect(answer)} disabled={!offer || !answer.trim() || status === 'closed'}>{t('remote.connect')}</button>
+              {isQrScanSupported() && <button className="btn" onClick={() => setScanning(true)} disabled={!offer}>{t('remote.scan')}</button>}
+            </div>
+          </>
+        )}
+        {error && <p className="form-error" role="alert">{error}</p>}
+        {status === 'closed' && <p className="form-error" role="alert">{t('remote.pairingClosed')}</p>}
+        <p className="card-hint">{t('remote.pairHint')}</p>
+      </div>
+      <div className="modal-actions">
+        <button className="btn" onClick={onClose}>{t('common.cancel')}</button>
+      </div>
+    </>
+  );
+};
+
+export default RemotePairing;
@@ -0,0 +1,14 @@
+import React from 'react';
+
+interface RichTextProps {
+  text: string;
+}
+
+/** Renders a translated message, turning `**text**` into bold text. */
+const RichText: React.FC<RichTextProps> = ({ text }) => (
+  <>
+    {text.split(/\*\*(.+?)\*\*/g).map((part, i) => (i % 2 === 1 ? <strong key={i}>{part}</strong> : part))}
+  </>
+);
+
+export default RichText;
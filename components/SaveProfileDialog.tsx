@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { PROFILE_NAME_MAX_LENGTH } from '../utils/profileSchema';
+
+interface SaveProfileDialogProps {
+  currentName: string | null;
+  isNameTaken: (name: string) => boolean;
+  onSave: (name: string, overwrite: boolean) => void;
+  onCancel: () => void;
+}
+
+const SaveProfileDialog: React.FC<SaveProfileDialogProps> = ({ currentName, isNameTaken, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState('');
+
+  const handleSaveNew = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setNameError(t('common.enterName'));
+      return;
+    }
+    if (isNameTaken(trimmed)) {
+      setNameError(t('common.nameTaken'));
+      return;
+    }
+    onSave(trimmed, false);
+  };
+
+  return (
+    <form onSubmit={handleSaveNew}>
+      <h2>{t('saveProfile.title')}</h2>
+      {currentName && (
+        <>
+          <p>{t('saveProfile.current', { name: currentName })}</p>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-primary" onClick={() => onSave(currentName, true)}>{t('saveProfile.overwrite', { name: currentName })}</button>
+          </div>
+          <p>{t('saveProfile.orNew')}</p>
+        </>
+      )}
+      <div className="form-row">
+        <label htmlFor="save-profile-name">{t('common.profileName')}</label>
+        <input id="save-profile-name" type="text" maxLength={PROFILE_NAME_MAX_LENGTH} value={name} autoFocus={!currentName} onChange={e => { setName(e.target.value); setNameError(''); }} />
+      </div>
+      {nameError && <p className="form-error" role="alert">{nameError}</p>}
+      <div className="modal-actions">
+        <button type="button" className="btn" onClick={onCancel}>{t('common.cancel')}</button>
+        <button type="submit" className={currentName ? 'btn' : 'btn btn-primary'}>{t('saveProfile.saveNew')}</button>
+      </div>
+    </form>
+  );
+};
+
+export default SaveProfileDialog;
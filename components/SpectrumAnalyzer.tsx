@@ -0,0 +1,173 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { MessageId } from '../i18n';
+
+interface SpectrumAnalyzerProps {
+  preEq: AnalyserNode | null;
+  postEq: AnalyserNode | null;
+}
+
+type Source = 'pre' | 'post' | 'both';
+type View = 'spectrum' | 'spectrogram';
+
+const MIN_FREQ = 50;
+const MAX_FREQ = 16000;
+const MIN_DB = -100;
+const MAX_DB = -10;
+const GRID_FREQUENCIES = [100, 250, 500, 1000, 2000, 4000, 8000];
+const GRID_DB = [-80, -60, -40, -20];
+
+const SOURCES: { id: Source; label: MessageId }[] = [
+  { id: 'pre', label: 'spectrum.pre' },
+  { id: 'post', label: 'spectrum.post' },
+  { id: 'both', label: 'spectrum.both' },
+];
+
+const logPosition = (freq: number) => Math.log(freq / MIN_FREQ) / Math.log(MAX_FREQ / MIN_FREQ);
+const dbPosition = (db: number) => (Math.max(MIN_DB, Math.min(MAX_DB, db)) - MIN_DB) / (MAX_DB - MIN_DB);
+const formatFrequency = (freq: number) => (freq < 1000 ? `${freq}` : `${freq / 1000}k`);
+
+// Dark blue → cyan → yellow → red, the usual heat map for spectrograms.
+const heatColor = (value: number) => {
+  const stops: [number, number, number][] = [[10, 10, 40], [0, 120, 200], [0, 220, 200], [250, 230, 40], [230, 40, 30]];
+  const scaled = Math.max(0, Math.min(1, value)) * (stops.length - 1);
+  const i = Math.min(stops.length - 2, Math.floor(scaled));
+  const t = scaled - i;
+  return stops[i].map((c, k) => Math.round(c + t * (stops[i + 1][k] - c)));
+};
+
+/**
+ * Spectrum on a logarithmic frequency axis with a dBFS scale, before and/or after
+ * the equalizer, or as a scrolling spectrogram.
+ */
+const SpectrumAnalyzer: React.FC<SpectrumAnalyzerProps> = ({ preEq, postEq }) => {
+  const { t } = useI18n();
+  const [source, setSource] = useState<Source>('both');
+  const [view, setView] = useState<View>('spectrum');
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const analysers = [source !== 'post' ? preEq : null, source !== 'pre' ? postEq : null];
+    if (!analysers.some(Boolean)) return;
+
+    const data = analysers.map(analyser => (analyser ? new Float32Array(analyser.frequencyBinCount) : null));
+    const style = getComputedStyle(document.documentElement);
+    const { width, height } = canvas;
+    let frame: number;
+
+    // dB value at a frequency; bins between two pixels are combined by taking the maximum.
+    const valueAt = (analyser: AnalyserNode, spectrum: Float32Array, from: number, to: number) => {
+      const binWidth = analyser.context.sampleRate / analyser.fftSize;
+      const first = Math.max(1, Math.floor(from / binWidth));
+      const last = Math.max(first, Math.min(spectrum.length - 1, Math.floor(to / binWidth)));
+      let max = -Infinity;
+      for (let i = first; i <= last; i++) max = Math.max(max, spectrum[i]);
+      return max;
+    };
+    const freqAt = (position: number) => MIN_FREQ * Math.pow(MAX_FREQ / MIN_FREQ, position);
+
+    const drawSpectrum = () => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.strokeStyle = style.getPropertyValue('--outline');
+      ctx.fillStyle = style.getPropertyValue('--on-surface-secondary');
+      ctx.font = '11px Inter, sans-serif';
+      ctx.globalAlpha = 0.35;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      GRID_FREQUENCIES.forEach(freq => {
+        ctx.moveTo(logPosition(freq) * width, 0);
+        ctx.lineTo(logPosition(freq) * width, height);
+      });
+      GRID_DB.forEach(db => {
+        ctx.moveTo(0, height - dbPosition(db) * height);
+        ctx.lineTo(width, height - dbPosition(db) * height);
+      });
+      ctx.stroke();
+      ctx.globalAlpha = 1;
+      GRID_FREQUENCIES.forEach(freq => ctx.fillText(formatFrequency(freq), logPosition(freq) * width + 3, height - 4));
+      GRID_DB.forEach(db => ctx.fillText(`${db} dBFS`, 3, height - dbPosition(db) * height - 3));
+
+      ctx.lineWidth = 2;
+      analysers.forEach((analyser, k) => {
+        const spectrum = data[k];
+        if (!analyser || !spectrum) return;
+        analyser.getFloatFrequencyData(spectrum);
+        ctx.strokeStyle = style.getPropertyValue('--primary');
+        ctx.globalAlpha = k === 0 && source === 'both' ? 0.45 : 1;
+        ctx.beginPath();
+        for (let x = 0; x < width; x += 2) {
+          const db = valueAt(analyser, spectrum, freqAt(x / width), freqAt((x + 2) / width));
+          const y = height - dbPosition(db) * height;
+          if (x === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      });
+      ctx.globalAlpha = 1;
+    };
+
+    const column = ctx.createImageData(1, height);
+    const drawSpectrogram = () => {
+      // The spectrogram shows one source; with "both" the processed signal is used.
+      const k = analysers[1] ? 1 : 0;
+      const analyser = analysers[k]!;
+      const spectrum = data[k]!;
+      analyser.getFloatFrequencyData(spectrum);
+      ctx.drawImage(canvas, -1, 0);
+      for (let y = 0; y < height; y++) {
+        const position = 1 - y / height;
+        const [r, g, b] = heatColor(dbPosition(valueAt(analyser, spectrum, freqAt(position), freqAt(position + 1 / height))));
+        column.data.set([r, g, b, 255], y * 4);
+      }
+      ctx.putImageData(column, width - 1, 0);
+    };
+
+    const draw = () => {
+      if (view === 'spectrum') drawSpectrum();
+      else drawSpectrogram();
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [preEq, postEq, source, view]);
+
+  return (
+    <div className="spectrum-analyzer">
+      <div className="spectrum-controls">
+        <div className="segmented-control" role="radiogroup" aria-label={t('spectrum.signal')}>
+          {SOURCES.map(option => (
+            <button
+              key={option.id}
+              className={`btn ${source === option.id ? 'btn-primary' : ''}`}
+              role="radio"
+              aria-checked={source === option.id}
+              onClick={() => setSource(option.id)}
+            >
+              {t(option.label)}
+            </button>
+          ))}
+        </div>
+        <label className="toggle-row">
+          <input type="checkbox" checked={view === 'spectrogram'} onChange={e => setView(e.target.checked ? 'spectrogram' : 'spectrum')} />
+          {t('spectrum.spectrogramToggle')}
+        </label>
+      </div>
+      {source === 'both' && view === 'spectrum' && <p className="card-hint">{t('spectrum.bothHint')}</p>}
+      <canvas
+        ref={canvasRef}
+        className={view === 'spectrogram' ? 'visualizer spectrogram' : 'visualizer'}
+        width="600"
+        height="160"
+        role="img"
+        aria-label={t(view === 'spectrogram' ? 'spectrum.spectrogramAria' : 'spectrum.spectrumAria')}
+      />
+    </div>
+  );
+};
+
+export default SpectrumAnalyzer;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+
+import { useI18n } from '../hooks/useI18n';
+import { Profile } from '../types';
+import { isLocalDbSupported } from '../utils/localDb';
+import { clearUsage, listUsage, summarizeUsage, UsageDay, UsageEntry, usageToCsv } from '../utils/usageLog';
+
+interface UsageHistoryProps {
+  profileLabel: (name: string) => string;
+  onRestore: (snapshot: Profile) => void;
+  onClose: () => void;
+}
+
+const HISTORY_DAYS = 30;
+const MAX_SNAPSHOTS = 30;
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')} h`;
+};
+
+const formatDb = (db: number) => (Number.isFinite(db) ? `${db > 0 ? '+' : ''}${Math.round(db)} dB` : '–');
+
+const UsageHistory: React.FC<UsageHistoryProps> = ({ profileLabel, onRestore, onClose }) => {
+  const { t, tag } = useI18n();
+  const [days, setDays] = useState<UsageDay[]>([]);
+  const [snapshots, setSnapshots] = useState<UsageEntry[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState('');
+
+  const refresh = async () => {
+    try {
+      const entries = await listUsage(new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000));
+      setDays(summarizeUsage(entries));
+      setSnapshots(entries.filter(entry => entry.snapshot).reverse().slice(0, MAX_SNAPSHOTS));
+    } catch (err) {
+      console.error('Error loading usage log:', err);
+      setError(t('usage.loadError'));
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  useEffect(() => {
+    if (isLocalDbSupported()) refresh();
+  }, []);
+
+  const handleExport = async () => {
+    try {
+      const csv = usageToCsv(await listUsage(), t, profileLabel);
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `klangnah-${t('usage.fileName')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting usage log:', err);
+      setError(t('usage.exportError'));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('usage.confirmClear'))) return;
+    try {
+      await clearUsage();
+      await refresh();
+    } catch (err) {
+      console.error('Error clearing usage log:', err);
+      setError(t('usage.clearError'));
+    }
+  };
+
+  const longestDay = Math.max(1, ...days.map(day => day.seconds));
+  const profileSummary = (day: UsageDay) =>
+    Object.entries(day.profiles)
+      .sort(([, a], [, b]) => b - a)
+      .map(([name, seconds]) => `${profileLabel(name)} ${formatDuration(seconds)}`)
+      .join(', ');
+
+  return (
+    <>
+      <div className="modal-content-scrollable">
+        <h2 style={{ textAlign: 'center' }}>{t('usage.title')}</h2>
+        <p className="card-hint">{t('usage.hint')}</p>
+        {!isLocalDbSupported() && <p className="card-hint">{t('usage.unsupported')}</p>}
+        {error && <p className="form-error" role="alert">{error}</p>}
+
+        <h3>{t('usage.days', { days: HISTORY_DAYS })}</h3>
+        {loaded && days.length === 0 && <p className="card-hint">{t('usage.empty')}</p>}
+        {days.length > 0 && (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th scope="col">{t('usage.date')}</th>
+                <th scope="col">{t('usage.wearTime')}</th>
+                <th scope="col">{t('usage.gain')}</th>
+                <th scope="col">{t('usage.profiles')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map(day => (
+                <tr key={day.day}>
+                  <td>{new Date(`${day.day}T00:00:00`).toLocaleDateString(tag)}</td>
+                  <td>
+                    <div className="usage-bar" aria-hidden="true"><div style={{ width: `${(day.seconds / longestDay) * 100}%` }} /></div>
+                    {formatDuration(day.seconds)}
+                  </td>
+                  <td>{formatDb(day.gain)}</td>
+                  <td>{profileSummary(day)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3>{t('usage.snapshots')}</h3>
+        <p className="card-hint">{t('usage.snapshotsHint')}</p>
+        {loaded && snapshots.length === 0 && <p className="card-hint">{t('usage.empty')}</p>}
+        <ul className="profile-list">
+          {snapshots.map(entry => (
+            <li key={entry.id}>
+              <span className="profile-name">
+                {new Date(entry.time).toLocaleString(tag, { dateStyle: 'short', timeStyle: 'short' })} · {profileLabel(entry.profile)} · {t('usage.snapshotValues', { volume: entry.volume, preAmp: entry.preAmp })}
+              </span>
+              <div className="profile-actions">
+                <button className="btn" onClick={() => onRestore(entry.snapshot!)}>{t('usage.restore')}</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+      <div className="modal-actions">
+        <button className="btn" onClick={handleExport} disabled={!isLocalDbSupported()}>{t('usage.export')}</button>
+        <button className="btn" onClick={handleClear} disabled={!isLocalDbSupported()}>{t('usage.clear')}</button>
+        <button className="btn btn-primary" onClick={onClose}>{t('common.close')}</button>
+      </div>
+    </>
+  );
+};
+
+export default UsageHistory;
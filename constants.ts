@@ -0,0 +1,77 @@
+import { MessageId } from './i18n';
+import { CompressionSettings, EarSettings, EQFilters, EQLayout, EQSettings, NoiseColor, NoiseReductionSettings, Profile, SoundGeneratorSettings, SpeechFocusSettings } from './types';
+
+export const EQ_FREQUENCIES = [125, 250, 500, 1000, 2000, 4000];
+
+export const EQ_LAYOUTS: { id: EQLayout; label: MessageId; frequencies: number[] }[] = [
+  { id: 'six', label: 'eqLayout.six', frequencies: EQ_FREQUENCIES },
+  { id: 'ten', label: 'eqLayout.ten', frequencies: [125, 250, 500, 1000, 1500, 2000, 3000, 4000, 6000, 8000] },
+  {
+    id: 'third-octave',
+    label: 'eqLayout.third-octave',
+    frequencies: [100, 125, 160, 200, 250, 315, 400, 500, 630, 800, 1000, 1250, 1600, 2000, 2500, 3150, 4000, 5000, 6300, 8000, 10000],
+  },
+];
+export const DEFAULT_EQ_LAYOUT: EQLayout = 'six';
+export const EQ_MAX_GAIN = 20;
+
+export const DEFAULT_EQ_FILTERS: EQFilters = {
+  highPass: { enabled: false, frequency: 100 },
+  lowShelf: { enabled: false, frequency: 200, gain: 0 },
+  highShelf: { enabled: false, frequency: 4000, gain: 0 },
+  lowPass: { enabled: false, frequency: 10000 },
+};
+
+/** Frequencies of the hearing test. 6 and 8 kHz are needed to fit the upper EQ bands. */
+export const AUDIOGRAM_FREQUENCIES = [125, 250, 500, 1000, 2000, 4000, 6000, 8000];
+/** Range of the audiogram thresholds in dB HL. */
+export const AUDIOGRAM_MIN_LEVEL = -10;
+export const AUDIOGRAM_MAX_LEVEL = 120;
+
+export const DEFAULT_EQ: EQSettings = { 125: 0, 250: 0, 500: 0, 1000: 0, 2000: 0, 4000: 0 };
+export const DEFAULT_VOLUME = 100;
+export const DEFAULT_PRE_AMP = 100;
+export const DEFAULT_BALANCE = 0;
+export const DEFAULT_EAR_SETTINGS: EarSettings = { gain: 100, limiter: 0 };
+
+export const DEFAULT_NOISE_REDUCTION: NoiseReductionSettings = { enabled: false, strength: 50 };
+
+export const DEFAULT_SPEECH_FOCUS: SpeechFocusSettings = { enabled: false, strength: 70 };
+
+export const NOISE_COLORS: NoiseColor[] = ['white', 'pink', 'brown'];
+export const SOUND_GENERATOR_MIN_LEVEL = -70;
+/** Kept well below full scale; the output limiter and the dose protection apply on top. */
+export const SOUND_GENERATOR_MAX_LEVEL = -15;
+export const TINNITUS_FREQUENCY_MIN = 250;
+export const TINNITUS_FREQUENCY_MAX = 12000;
+export const SLEEP_TIMER_OPTIONS = [0, 15, 30, 60, 90];
+export const DEFAULT_SOUND_GENERATOR: SoundGeneratorSettings = {
+  enabled: false,
+  color: 'pink',
+  level: -40,
+  notch: false,
+  tinnitusFrequency: 4000,
+  ocean: false,
+  microphone: true,
+};
+
+export const COMPRESSOR_CROSSOVERS = [750, 3000];
+export const COMPRESSOR_BAND_LABELS: MessageId[] = ['compression.low', 'compression.mid', 'compression.high'];
+export const DEFAULT_COMPRESSION: CompressionSettings = {
+  enabled: false,
+  bands: [
+    { threshold: -40, ratio: 2, attack: 10, release: 150 },
+    { threshold: -45, ratio: 2.5, attack: 5, release: 100 },
+    { threshold: -45, ratio: 3, attack: 3, release: 80 },
+  ],
+};
+
+// Predefined profiles are stored under stable ids; the shown name is the message `profile.<id>`.
+export const PREDEFINED_PROFILES: Profile[] = [
+  { name: 'conversation', preAmp: 130, volume: 120, eq: { 125: -2, 250: -4, 500: 0, 1000: 6, 2000: 5, 4000: 3 }, balance: 0 },
+  { name: 'tv', preAmp: 120, volume: 110, eq: { 125: 4, 250: 2, 500: 1, 1000: 5, 2000: 4, 4000: 3 }, balance: 0 },
+  { name: 'street', preAmp: 100, volume: 130, eq: { 125: -12, 250: -10, 500: -5, 1000: 0, 2000: 3, 4000: 5 }, balance: 0 },
+];
+
+// The German names predefined profiles were referenced by before they had ids.
+export const LEGACY_PREDEFINED_NAMES: Record<string, string> = { 'Gespräch': 'conversation', 'Fernseher': 'tv', 'Straße': 'street' };
@@ -0,0 +1,8 @@
+import { createContext, useContext } from 'react';
+
+import { createI18n, I18n, SOURCE_LOCALE } from '../i18n';
+
+export const I18nContext = createContext<I18n>(createI18n(SOURCE_LOCALE));
+
+/** The active language with its translator, provided by the app root. */
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+
+import { Profile } from '../types';
+import { loadProfileLibrary, ProfileLibrary, PROFILE_SCHEMA_VERSION } from '../utils/profileSchema';
+
+const LIBRARY_KEY = 'profileLibrary';
+// Before schema versions existed the profiles were stored as a bare array under this key.
+const LEGACY_KEY = 'customProfiles';
+
+const readJson = (key: string): unknown => {
+  const item = window.localStorage.getItem(key);
+  return item ? JSON.parse(item) : undefined;
+};
+
+/**
+ * The user's own profiles, stored with a schema version and migrated to the
+ * current version on load. Stored profiles that fail the checks are repaired
+ * or, if that is not possible, kept aside unchanged.
+ */
+export const useProfileLibrary = (): [Profile[], React.Dispatch<React.SetStateAction<Profile[]>>] => {
+  const [library, setLibrary] = useState<ProfileLibrary>(() => {
+    try {
+      return loadProfileLibrary(readJson(LIBRARY_KEY), readJson(LEGACY_KEY));
+    } catch (error) {
+      console.error(error);
+      return { version: PROFILE_SCHEMA_VERSION, profiles: [] };
+    }
+  });
+
+  const setProfiles = (value: Profile[] | ((profiles: Profile[]) => Profile[])) => {
+    setLibrary(prev => {
+      const profiles = value instanceof Function ? value(prev.profiles) : value;
+      const next: ProfileLibrary = { ...prev, version: PROFILE_SCHEMA_VERSION, profiles };
+      try {
+        window.localStorage.setItem(LIBRARY_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.error(error);
+      }
+      return next;
+    });
+  };
+
+  return [library.profiles, setProfiles];
+};
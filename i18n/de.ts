@@ -0,0 +1,594 @@
+/**
+ * German source catalog. Every other language has to translate each of these
+ * ids. `{name}` placeholders are filled in by the translator; `**text**` marks
+ * bold text in longer passages (see RichText).
+ */
+export const de = {
+  'app.title': 'Klangnah',
+  'app.documentTitle': 'Klangnah - Hörhilfe',
+  'app.footer': '© 2025 Klangnah. Eine professionelle Hörhilfe-Anwendung.',
+
+  'common.close': 'Schließen',
+  'common.cancel': 'Abbrechen',
+  'common.understood': 'Verstanden',
+  'common.reset': 'Zurücksetzen',
+  'common.undo': 'Rückgängig',
+  'common.delete': 'Löschen',
+  'common.rename': 'Umbenennen',
+  'common.dismissNotice': 'Hinweis schließen',
+  'common.profileName': 'Profilname',
+  'common.enterName': 'Bitte geben Sie einen Namen ein.',
+  'common.nameTaken': 'Ein Profil mit diesem Namen existiert bereits.',
+  'common.leftEar': 'Linkes Ohr',
+  'common.rightEar': 'Rechtes Ohr',
+
+  'header.instructions': 'Anleitung anzeigen',
+  'header.largeControls': 'Große Bedienelemente',
+  'header.theme': 'Theme wechseln',
+  'header.language': 'Sprache',
+
+  'notice.update': 'Eine neue Version von Klangnah ist verfügbar.',
+  'notice.updateInterrupts': 'Die Hörhilfe wird beim Aktualisieren kurz unterbrochen.',
+  'notice.updateApply': 'Aktualisieren',
+  'notice.later': 'Später',
+  'notice.audioInterrupted': 'Die Audioausgabe wurde vom System unterbrochen, zum Beispiel durch einen Anruf. Klangnah setzt automatisch fort, sobald es wieder möglich ist – notfalls genügt ein Tippen auf die Seite.',
+  'notice.feedback': 'Rückkopplung bei {frequencies} erkannt und unterdrückt. Setzen Sie die Kopfhörer fester ein oder halten Sie sie weiter vom Mikrofon entfernt.',
+  'notice.sceneSuggestion': 'Umgebung „{scene}“ erkannt. Profil „{profile}“ laden?',
+  'notice.sceneLoad': 'Laden',
+  'notice.sceneDecline': 'Vorschlag ablehnen',
+  'notice.muted': 'Klangnah ist stummgeschaltet.',
+  'notice.unmute': 'Ton wieder einschalten',
+  'notice.remoteActive': 'Fernsteuerung aktiv: Ein gekoppeltes Gerät kann Profil, Lautstärke, Balance und Equalizer ändern.',
+
+  'device.micDisconnected': 'Das Mikrofon wurde getrennt. Klangnah verwendet jetzt das Standardmikrofon.',
+  'device.selectedMicDisconnected': 'Das gewählte Mikrofon wurde getrennt. Klangnah verwendet jetzt das Standardmikrofon.',
+  'device.micSwitchFailed': 'Das Mikrofon konnte nicht gewechselt werden.',
+  'device.outputSelectFailed': 'Das Ausgabegerät konnte nicht gewählt werden.',
+  'device.outputDisconnected': 'Die Audioausgabe wurde getrennt (z. B. Kopfhörer abgesteckt). Klangnah wurde stummgeschaltet, damit es nicht über den Lautsprecher pfeift.',
+  'error.microphone': 'Mikrofonzugriff wurde verweigert oder die Audio-Einstellungen werden nicht unterstützt. Die App kann nicht ohne Mikrofon funktionieren.',
+  'error.clipPlayback': 'Die Aufnahme konnte nicht abgespielt werden. Das Dateiformat wird von diesem Browser möglicherweise nicht unterstützt.',
+
+  'devices.title': 'Audiogeräte',
+  'devices.input': 'Mikrofon',
+  'devices.defaultInput': 'Standardmikrofon',
+  'devices.output': 'Ausgabe',
+  'devices.defaultOutput': 'Standardausgabe',
+  'devices.outputFallback': 'Ausgabegerät',
+  'devices.noOutputSelection': 'Dieser Browser erlaubt keine Wahl des Ausgabegeräts. Wählen Sie es in den Systemeinstellungen.',
+
+  'slider.aria': '{label} Regler',
+  'slider.decrease': '{label} verringern',
+  'slider.increase': '{label} erhöhen',
+  'slider.announce': '{label}: {value}',
+
+  'preAmp.title': 'Vorverstärkung (Pre-Amp)',
+  'preAmp.label': 'Pre-Amp',
+  'volume.title': 'Master-Lautstärke',
+  'volume.label': 'Volume',
+  'volume.mute': 'Stumm',
+  'volume.unmute': 'Ton an',
+
+  'meter.input': 'Eingang',
+  'meter.output': 'Ausgang',
+  'meter.peak': 'Spitze',
+  'meter.rms': 'RMS',
+  'meter.clipped': 'Übersteuert',
+  'meter.limited': 'Begrenzt',
+  'meter.resetTitle': 'Anzeige zurücksetzen',
+  'meter.clipActive': '{label} – Anzeige zurücksetzen',
+  'meter.clipInactive': 'Nicht {label}',
+  'meter.aria': '{label} in dBFS',
+
+  'balance.title': 'Links-Rechts-Balance',
+  'balance.label': 'Balance',
+  'balance.center': 'Mitte',
+  'balance.left': 'Links {value}',
+  'balance.right': 'Rechts {value}',
+  'ear.gain': 'Pegel {ear}',
+  'ear.limit': 'Limit {ear}',
+  'ear.shortLeft': 'L',
+  'ear.shortRight': 'R',
+
+  'eq.title': 'Equalizer',
+  'eq.earGroup': 'Equalizer für welches Ohr',
+  'eq.both': 'Beide Ohren',
+  'eq.left': 'Links',
+  'eq.right': 'Rechts',
+  'eq.layout': 'Bänder',
+  'eq.filters': 'Filter (für beide Ohren)',
+  'eq.highPass': 'Hochpass (tiefes Rumpeln entfernen)',
+  'eq.highPassFrom': 'Hochpass ab',
+  'eq.lowShelf': 'Tiefen-Shelf',
+  'eq.lowShelfUpTo': 'Tiefen bis',
+  'eq.lowShelfGain': 'Tiefen',
+  'eq.highShelf': 'Höhen-Shelf',
+  'eq.highShelfFrom': 'Höhen ab',
+  'eq.highShelfGain': 'Höhen',
+  'eq.lowPass': 'Tiefpass (Zischen und Rauschen abschneiden)',
+  'eq.lowPassUpTo': 'Tiefpass bis',
+  'eq.responseCurve': 'Frequenzgang des Equalizers',
+  'eqLayout.six': '6 Bänder',
+  'eqLayout.ten': '10 Bänder',
+  'eqLayout.third-octave': 'Terzbänder',
+
+  'spectrum.title': 'Spektrum',
+  'spectrum.signal': 'Signal',
+  'spectrum.pre': 'Vor EQ',
+  'spectrum.post': 'Nach EQ',
+  'spectrum.both': 'Beide',
+  'spectrum.spectrogramToggle': 'Verlauf (Spektrogramm)',
+  'spectrum.bothHint': 'Blass: vor dem Equalizer, kräftig: nach dem Equalizer.',
+  'spectrum.spectrumAria': 'Frequenzspektrum in dBFS',
+  'spectrum.spectrogramAria': 'Spektrogramm',
+
+  'clips.title': 'Aufnahmen',
+  'clips.hint': 'Nehmen Sie kurze Ausschnitte einer Umgebung auf, etwa im Restaurant, und stellen Sie Ihr Profil später zu Hause daran ein. Aufnahmen werden nur auf diesem Gerät gespeichert.',
+  'clips.allow': 'Aufnahmen erlauben',
+  'clips.playingNotice': 'Sie hören eine Aufnahme statt des Mikrofons.',
+  'clips.unsupported': 'Dieser Browser kann keine Aufnahmen lokal speichern.',
+  'clips.loadError': 'Die gespeicherten Aufnahmen konnten nicht geladen werden.',
+  'clips.saveError': 'Die Aufnahme konnte nicht gespeichert werden. Möglicherweise ist der Speicher voll.',
+  'usage.title': 'Nutzungsverlauf',
+  'usage.hint': 'Klangnah protokolliert nur auf diesem Gerät, wann die Hörhilfe läuft, welches Profil aktiv ist, Änderungen an Lautstärke, Pre-Amp und Equalizer sowie die durchschnittlichen Pegel. Tonaufnahmen entstehen dabei nicht.',
+  'usage.unsupported': 'Dieser Browser kann den Verlauf nicht speichern.',
+  'usage.loadError': 'Der Verlauf konnte nicht geladen werden.',
+  'usage.exportError': 'Der Verlauf konnte nicht exportiert werden.',
+  'usage.clearError': 'Der Verlauf konnte nicht gelöscht werden.',
+  'usage.days': 'Letzte {days} Tage',
+  'usage.empty': 'Noch keine Einträge.',
+  'usage.date': 'Datum',
+  'usage.wearTime': 'Tragezeit',
+  'usage.gain': 'Ø Verstärkung',
+  'usage.profiles': 'Profile',
+  'usage.snapshots': 'Frühere Einstellungen',
+  'usage.snapshotsHint': 'Mit „Wiederherstellen“ kehren Sie zu einer früheren Einstellung zurück.',
+  'usage.snapshotValues': 'Lautstärke {volume} %, Pre-Amp {preAmp} %',
+  'usage.restore': 'Wiederherstellen',
+  'usage.export': 'Als CSV exportieren',
+  'usage.fileName': 'verlauf',
+  'usage.clear': 'Verlauf löschen',
+  'usage.confirmClear': 'Den gesamten Nutzungsverlauf löschen?',
+  'usage.csvTime': 'Zeit',
+  'usage.csvSession': 'Sitzung',
+  'usage.csvEvent': 'Ereignis',
+  'usage.csvProfile': 'Profil',
+  'usage.csvVolume': 'Lautstärke (%)',
+  'usage.csvPreAmp': 'Pre-Amp (%)',
+  'usage.csvEqLeft': 'EQ links (Hz:dB)',
+  'usage.csvEqRight': 'EQ rechts (Hz:dB)',
+  'usage.csvSeconds': 'Dauer (s)',
+  'usage.csvInput': 'Eingangspegel (dBFS)',
+  'usage.csvOutput': 'Ausgangspegel (dBFS)',
+  'usage.event.start': 'Start',
+  'usage.event.stop': 'Stopp',
+  'usage.event.profile': 'Profilwechsel',
+  'usage.event.settings': 'Einstellung',
+  'usage.event.levels': 'Pegel',
+  'clips.deleteError': 'Die Aufnahme konnte nicht gelöscht werden.',
+  'clips.record': '● Aufnehmen',
+  'clips.stopRecording': '■ Stopp ({elapsed} / {max})',
+  'clips.import': 'Audiodatei importieren',
+  'clips.startHint': 'Starten Sie Klangnah, um aufzunehmen oder Aufnahmen abzuspielen.',
+  'clips.recording': 'Aufnahme läuft – nur das Mikrofonsignal, ohne Bearbeitung.',
+  'clips.loop': 'In Schleife abspielen',
+  'clips.labelAria': 'Bezeichnung der Aufnahme',
+  'clips.originImport': 'Datei',
+  'clips.originRecording': 'Aufnahme',
+  'clips.play': 'Abspielen',
+  'clips.stop': 'Stopp',
+  'clips.confirmDelete': '„{label}“ endgültig löschen?',
+  'clips.defaultLabel': 'Aufnahme {date} {time}',
+
+  'noise.title': 'Rauschunterdrückung',
+  'noise.enable': 'Gleichmäßige Hintergrundgeräusche (Brummen, Lüfter) dämpfen',
+  'noise.strength': 'Stärke',
+  'noise.learn': 'Störgeräusch jetzt lernen',
+  'noise.learning': 'Bitte einen Moment still sein – das Hintergrundgeräusch wird gelernt …',
+  'noise.learned': 'Hintergrundgeräusch gelernt.',
+  'noise.unsupported': 'Die Rauschunterdrückung wird von diesem Browser nicht unterstützt (AudioWorklet erforderlich).',
+  'focus.title': 'Sprachfokus',
+  'focus.enable': 'Sprache von vorn hervorheben',
+  'focus.strength': 'Stärke',
+  'focus.directional': 'Richtwirkung aktiv: Das Mikrofon liefert {channels} Kanäle, Klang von vorn wird bevorzugt.',
+  'focus.mono': 'Dieses Mikrofon liefert nur einen Kanal und hat keine Richtwirkung. Stattdessen werden Konsonanten zwischen 2 und 4 kHz betont.',
+  'focus.unknown': 'Ob das Mikrofon eine Richtwirkung unterstützt, zeigt sich nach dem Start.',
+  'generator.title': 'Tinnitus-Entlastung',
+  'generator.enable': 'Entspannungsgeräusch abspielen',
+  'generator.color': 'Geräusch',
+  'generator.white': 'Weißes Rauschen',
+  'generator.pink': 'Rosa Rauschen',
+  'generator.brown': 'Braunes Rauschen',
+  'generator.level': 'Pegel',
+  'generator.ocean': 'Wie Meeresrauschen langsam an- und abschwellen lassen',
+  'generator.microphone': 'Mikrofon weiter verstärken',
+  'generator.microphoneOff': 'Das Mikrofon ist stummgeschaltet, Sie hören nur das Geräusch.',
+  'generator.sleepTimer': 'Schlaftimer',
+  'generator.sleepOff': 'Aus',
+  'generator.sleepMinutes': '{minutes} Minuten',
+  'generator.sleepUntil': 'Das Geräusch wird um {time} langsam ausgeblendet.',
+  'generator.tinnitusTitle': 'Tinnitus-Frequenz',
+  'generator.frequency': 'Frequenz',
+  'generator.matchHint': 'Spielen Sie den Vergleichston ab und verschieben Sie den Regler, bis er so hoch klingt wie Ihr Tinnitus.',
+  'generator.matchStart': 'Vergleichston abspielen',
+  'generator.matchStop': 'Vergleichston beenden',
+  'generator.matchStopped': 'Der Vergleichston ist nach dem Start verfügbar.',
+  'generator.notch': 'Eine Oktave um die Tinnitus-Frequenz aussparen (Notched Noise)',
+  'generator.safety': 'Das Geräusch läuft durch den Ausgangslimiter und zählt zur Tagesdosis.',
+  'remote.title': 'Fernsteuerung durch Angehörige',
+  'remote.hint': 'Eine vertraute Person kann mit ihrem Smartphone die Pegel sehen und Profil, Lautstärke, Balance und Equalizer einstellen. Beide Geräte müssen im selben WLAN sein. Es wird kein Ton übertragen.',
+  'remote.pair': 'Gerät koppeln',
+  'remote.revoke': 'Zugriff entziehen',
+  'remote.unsupported': 'Dieser Browser unterstützt keine direkte Verbindung zwischen Geräten.',
+  'remote.pairTitle': 'Gerät koppeln',
+  'remote.pairStep1': '1. Scannen Sie diesen QR-Code mit dem Gerät der helfenden Person oder schicken Sie ihr den Link.',
+  'remote.pairStep2': '2. Das andere Gerät zeigt danach einen Antwortcode. Scannen Sie ihn oder fügen Sie ihn hier ein.',
+  'remote.pairHint': 'Die Verbindung läuft direkt zwischen den beiden Geräten, ohne Server. Übertragen werden nur Einstellungen und Pegelwerte, nie Ton.',
+  'remote.preparing': 'Kopplungscode wird vorbereitet …',
+  'remote.qrAria': 'QR-Code zum Koppeln',
+  'remote.linkAria': 'Link zum Koppeln',
+  'remote.answer': 'Antwortcode',
+  'remote.connect': 'Verbinden',
+  'remote.scan': 'Mit Kamera scannen',
+  'remote.invalidAnswer': 'Das ist kein gültiger Antwortcode für diese Kopplung.',
+  'remote.invalidCode': 'Das ist kein gültiger Kopplungscode.',
+  'remote.connectError': 'Die Verbindung konnte nicht hergestellt werden.',
+  'remote.pairingClosed': 'Die Verbindung ist gescheitert. Sind beide Geräte im selben WLAN? Starten Sie die Kopplung neu.',
+  'remote.connectedAnnounce': 'Fernsteuerung verbunden.',
+  'remote.endedAnnounce': 'Die Fernsteuerung wurde beendet.',
+  'remote.revokedAnnounce': 'Der Zugriff wurde entzogen.',
+  'remote.caregiverTitle': 'Anderes Gerät fernsteuern',
+  'remote.enterCode': 'Geben Sie den Kopplungscode oder Link vom Gerät der hörenden Person ein.',
+  'remote.code': 'Kopplungscode',
+  'remote.join': 'Verbinden',
+  'remote.showAnswer': 'Zeigen Sie diesen Antwortcode dem anderen Gerät, damit es ihn scannt, oder schicken Sie ihn als Text.',
+  'remote.waiting': 'Verbunden, warte auf die Einstellungen …',
+  'remote.running': 'Die Hörhilfe läuft.',
+  'remote.stopped': 'Die Hörhilfe ist gestoppt. Einstellungen gelten beim nächsten Start.',
+  'remote.revoked': 'Der Zugriff wurde auf dem anderen Gerät beendet.',
+  'remote.disconnected': 'Die Verbindung wurde getrennt.',
+  'remote.disconnect': 'Trennen',
+  'scanner.preview': 'Kamerabild zum Scannen des QR-Codes',
+  'scanner.cameraError': 'Die Kamera konnte nicht geöffnet werden. Fügen Sie den Code stattdessen ein.',
+  'latency.title': 'Latenz',
+  'latency.mode': 'Verarbeitung',
+  'latency.modeInteractive': 'Normal',
+  'latency.modeLowest': 'Geringste Latenz',
+  'latency.modeHint': 'Bei „Geringste Latenz“ arbeitet Klangnah mit dem kleinsten Audiopuffer und der Abtastrate des Mikrofons. Rauschunterdrückung und Dynamikkompression sind dann ausgeschaltet. Wählen Sie wieder „Normal“, falls der Ton aussetzt oder knackt.',
+  'latency.restartNeeded': 'Die neue Einstellung gilt ab dem nächsten Start der Hörhilfe.',
+  'latency.restart': 'Jetzt neu starten',
+  'latency.input': 'Mikrofon',
+  'latency.base': 'Audiopuffer',
+  'latency.processing': 'Bearbeitung',
+  'latency.output': 'Ausgabe',
+  'latency.estimate': 'Gesamt (geschätzt)',
+  'latency.sampleRate': 'Abtastrate',
+  'latency.loopbackHint': 'Für eine genaue Messung spielt Klangnah leise Klicks ab und wartet, bis das Mikrofon sie hört. Halten Sie dazu einen Ohrhörer direkt an das Mikrofon. Die Hörhilfe ist während der Messung stumm.',
+  'latency.loopback': 'Mit Klick messen',
+  'latency.loopbackShort': 'Klick',
+  'latency.measuring': 'Messung läuft …',
+  'latency.notHeard': 'Das Mikrofon hat den Klick nicht gehört. Halten Sie den Ohrhörer näher an das Mikrofon.',
+  'latency.loopbackResult': 'Gemessene Gesamtverzögerung: {value}',
+  'latency.save': 'Messung speichern',
+  'latency.stopped': 'Die Werte erscheinen, sobald die Hörhilfe läuft.',
+  'latency.history': 'Gespeicherte Messungen',
+  'latency.date': 'Datum',
+  'latency.devices': 'Geräte',
+  'latency.clear': 'Liste löschen',
+  'noise.lowLatency': 'Im Modus „Geringste Latenz“ ist die Rauschunterdrückung ausgeschaltet.',
+  'compression.lowLatency': 'Im Modus „Geringste Latenz“ ist die Kompression ausgeschaltet.',
+
+  'compression.title': 'Dynamikkompression (WDRC)',
+  'compression.enable': 'Leise Töne anheben, laute Geräusche abmildern',
+  'compression.low': 'Tief',
+  'compression.mid': 'Mitte',
+  'compression.high': 'Hoch',
+  'compression.threshold': 'Schwelle',
+  'compression.ratio': 'Ratio',
+  'compression.attack': 'Attack',
+  'compression.release': 'Release',
+
+  'protection.title': 'Gehörschutz',
+  'protection.maximum': 'Maximum',
+  'protection.calibration': 'Kalibrierung',
+  'protection.outputLevel': 'Ausgangspegel (geschätzt):',
+  'protection.dose': 'Tagesdosis:',
+  'protection.doseAria': 'Verbrauchte Tagesdosis',
+  'protection.doseAction': 'Wenn die Tagesdosis erreicht ist',
+  'protection.warn': 'Nur warnen',
+  'protection.attenuate': 'Automatisch leiser ({db} dB)',
+  'protection.feedback': 'Rückkopplungen (Pfeifen) automatisch unterdrücken',
+  'protection.notches': 'Aktive Kerbfilter: {frequencies}',
+
+  'profile.default': 'Standard',
+  'profile.custom': 'Benutzerdefiniert',
+  'profile.conversation': 'Gespräch',
+  'profile.tv': 'Fernseher',
+  'profile.street': 'Straße',
+
+  'profiles.title': 'Profile',
+  'profiles.select': 'Profil auswählen',
+  'profiles.predefined': 'Vordefiniert',
+  'profiles.mine': 'Meine Profile',
+  'profiles.save': 'Speichern',
+  'profiles.manage': 'Verwalten',
+  'profiles.hearingTest': 'Hörtest',
+  'profiles.export': 'Exportieren',
+  'profiles.import': 'Importieren',
+  'profiles.favorites': 'Favoriten',
+  'profiles.deleted': 'Profil „{name}“ gelöscht.',
+  'profiles.abCompare': 'A/B-Vergleich',
+  'profiles.abProfile': 'Profil {side}',
+  'profiles.crossfade': 'Überblendung',
+  'profiles.smoothing': 'Reglerglättung',
+  'profiles.hearingTestFrom': 'Hörtest vom {date}',
+  'profiles.fittingRule': 'Anpassungsregel auswählen',
+  'profiles.refit': 'Neu berechnen',
+  'profiles.history': 'Verlauf',
+  'profiles.copyName': '{name} (Kopie)',
+
+  'scene.title': 'Umgebungserkennung',
+  'scene.enable': 'Umgebung erkennen und passendes Profil wählen',
+  'scene.detected': 'Erkannt: {scene}',
+  'scene.analysing': 'Umgebung wird analysiert …',
+  'scene.mode': 'Bei Wechsel der Umgebung',
+  'scene.suggest': 'Profil vorschlagen',
+  'scene.auto': 'Profil automatisch wechseln',
+  'scene.hold': 'Mindestdauer',
+  'scene.keepProfile': 'Profil beibehalten',
+  'scene.quiet': 'Ruhe',
+  'scene.speech': 'Gespräch',
+  'scene.speech-in-noise': 'Sprache im Lärm',
+  'scene.traffic': 'Verkehr',
+  'scene.music': 'Musik',
+
+  'controls.title': 'Bedienung',
+  'controls.largeControls': 'Große Bedienelemente mit hohem Kontrast',
+  'controls.spokenFeedback': 'Eingestellte Werte ansagen',
+  'controls.noSpeech': 'Dieser Browser unterstützt keine Sprachausgabe.',
+  'controls.shortcuts': 'Tastenkürzel',
+  'controls.shortcutVolume': 'Lautstärke um {step} % ändern',
+  'controls.shortcutMute': 'Stumm / Ton an',
+  'controls.shortcutProfile': 'Nächstes / vorheriges Profil',
+  'controls.shortcutStart': 'Hörhilfe starten / stoppen',
+  'controls.warningAcknowledged': 'Sicherheitshinweis am {date} bestätigt.',
+  'controls.showWarningAgain': 'Hinweis wieder anzeigen',
+
+  'announce.volume': 'Lautstärke {value} %',
+  'announce.muted': 'Stumm',
+  'announce.unmuted': 'Ton an',
+  'announce.profile': 'Profil {name}',
+  'announce.stopped': 'Hörhilfe gestoppt',
+  'announce.starting': 'Hörhilfe wird gestartet',
+
+  'stop.button': 'Hörhilfe stoppen',
+  'stopped.title': 'Gestoppt',
+  'stopped.text': 'Die Hörhilfe ist momentan nicht aktiv.',
+  'stopped.start': 'Hörhilfe starten',
+  'stopped.hearingTest': 'Hörtest durchführen',
+  'stopped.remote': 'Anderes Gerät fernsteuern',
+  'stopped.quickStart': 'Starten mit „{profile}“',
+  'stopped.quickStartHint': 'Mit Ihren letzten Einstellungen, Lautstärke {volume} %. Der Ton wird in den ersten Sekunden langsam lauter.',
+
+  'footer.impressum': 'Impressum',
+  'footer.privacy': 'Datenschutz',
+
+  'warning.title': 'Wichtiger Hinweis',
+  'warning.headphones': 'Schließen Sie unbedingt Kopfhörer an, bevor Sie Klangnah starten, um Rückkopplungen zu vermeiden!',
+  'warning.feedback': 'Ohne Kopfhörer können laute Rückkopplungen entstehen, die Ihr Gehör schädigen können.',
+  'warning.dontShowAgain': 'Nicht mehr anzeigen (nach Updates wird erneut gefragt)',
+  'warning.start': 'Verstanden – Starten',
+
+  'highVolume.title': 'Warnung: Sehr hohe Lautstärke',
+  'highVolume.text': 'Sehr hohe Lautstärke (über 270%) kann Ihr Gehör schädigen. Bitte reduzieren Sie die Lautstärke vorsichtig.',
+  'highVolume.advice': 'Auch bei Hörbeeinträchtigung sollten Sie extreme Lautstärken vermeiden.',
+
+  'dose.title': 'Tägliche Hördosis erreicht',
+  'dose.text': 'Sie haben heute bereits die empfohlene Schallmenge für einen Tag gehört. Weiteres lautes Hören kann Ihr Gehör dauerhaft schädigen.',
+  'dose.attenuated': 'Die Ausgabe wurde deshalb um {db} dB abgesenkt.',
+  'dose.reduce': 'Bitte reduzieren Sie die Lautstärke oder legen Sie eine Hörpause ein.',
+
+  'instructions.title': 'Anleitung zur Verwendung',
+  'instructions.safetyTitle': '❗ Wichtiger Sicherheitshinweis',
+  'instructions.safety': 'Schließen Sie unbedingt Kopfhörer an Ihr Gerät an, um gefährliche Rückkopplungen zu vermeiden.',
+  'instructions.headphonesTitle': '1. Kopfhörer anschließen',
+  'instructions.headphones': 'Stellen Sie sicher, dass Ihre Kopfhörer fest mit dem Gerät verbunden sind, bevor Sie die App starten.',
+  'instructions.startTitle': '2. Hörhilfe starten',
+  'instructions.start': 'Klicken Sie auf den "Verstanden - Starten" Knopf im Warnhinweis. Erlauben Sie im aufkommenden Fenster den Zugriff auf Ihr Mikrofon. Um die Übertragung zu beenden, klicken Sie auf "Hörhilfe stoppen".',
+  'instructions.devices': 'Unter „Audiogeräte“ wählen Sie Mikrofon und Ausgabe (z. B. Headset, USB-Mikrofon oder Bluetooth-Kopfhörer). Die Auswahl wird mit einem Profil gespeichert. Werden die Kopfhörer während der Nutzung getrennt, schaltet Klangnah automatisch stumm, damit es nicht über den Lautsprecher pfeift.',
+  'instructions.latency': 'Unter „Latenz“ sehen Sie, wie stark Klangnah den Ton verzögert. Eine kleine Verzögerung ist wichtig, damit Lippenbewegungen und Stimme zusammenpassen. Die Einstellung „Geringste Latenz“ verkürzt die Verzögerung, schaltet dafür aber Rauschunterdrückung und Kompression aus. Gespeicherte Messungen helfen beim Vergleich verschiedener Kopfhörer und Mikrofone.',
+  'instructions.levelsTitle': '3. Verstärkung, Pegelanzeige & Balance',
+  'instructions.preAmp': '**Vorverstärkung (Pre-Amp):** Besonders auf Mobilgeräten ist das Mikrofonsignal oft leise. Die **Pegelanzeige** darüber zeigt das ankommende Signal in dBFS (0 dBFS ist der höchste Pegel, den das Gerät verarbeiten kann). Der helle Balken zeigt die Spitzen, der kräftige den Mittelwert (RMS). Stellen Sie den Regler so ein, dass die Spitzen beim Sprechen etwa zwischen −18 und −6 dBFS liegen. Leuchtet „Übersteuert“ auf, ist das Signal zu laut und verzerrt; verringern Sie dann den Pre-Amp und tippen Sie auf die Anzeige, um sie zurückzusetzen. Die Anzeige „Begrenzt“ beim Ausgang leuchtet, wenn der Gehörschutz-Begrenzer eingreift.',
+  'instructions.volume': '**Master-Lautstärke:** Regeln Sie hiermit die finale Lautstärke, die an Ihre Kopfhörer geht. Eine Erhöhung bis zu 300% ist möglich, aber seien Sie vorsichtig.',
+  'instructions.balance': '**Links-Rechts-Balance:** Falls Sie auf einem Ohr schlechter hören, können Sie mit diesem Regler die Lautstärke zwischen dem linken und rechten Kopfhörer verschieben, um dies auszugleichen. Darunter stellen Sie für jedes Ohr einen eigenen Pegel und eine Obergrenze (Limit) ein, über die das Signal auf diesem Ohr nicht hinausgeht.',
+  'instructions.eqTitle': '4. Equalizer verwenden',
+  'instructions.eq': 'Nutzen Sie die Equalizer-Regler, um einzelne Frequenzbereiche anzuheben oder abzusenken. Mit „Beide Ohren“, „Links“ und „Rechts“ wählen Sie, für welches Ohr die Regler gelten. Das **Spektrum** zeigt auf einer Frequenzachse wie beim Equalizer, wie laut jeder Frequenzbereich ist – wahlweise vor oder nach dem Equalizer oder beides übereinander. So „sehen“ Sie, welche Frequenzen zu laut oder zu leise sind. Der „Verlauf“ (Spektrogramm) zeigt die Geräusche Ihrer Umgebung über die letzten Sekunden als Farbbild. Besonders der 125Hz-Regler hilft, fehlende Bässe auf Mobilgeräten auszugleichen.',
+  'instructions.eqLayouts': 'Unter „Bänder“ wählen Sie zwischen 6 Bändern, 10 Bändern bis 8 kHz und feinen Terzbändern bis 10 kHz. Gerade ein Hörverlust in den hohen Tönen lässt sich mit den feineren Aufteilungen gezielt ausgleichen. Beim Wechsel wird Ihre Einstellung auf die neuen Bänder übertragen; auch ältere Profile passen sich automatisch an. Die Kurve über den Reglern zeigt, wie der Equalizer insgesamt wirkt. Unter „Filter“ finden Sie zusätzlich Shelf-Filter, die alle Tiefen oder Höhen gemeinsam anheben oder absenken, sowie Hoch- und Tiefpass, um Rumpeln oder Rauschen ganz abzuschneiden.',
+  'instructions.noiseTitle': '5. Rauschunterdrückung und Sprachfokus',
+  'instructions.noise': 'Die Rauschunterdrückung dämpft gleichmäßige Geräusche wie Brummen, Lüfter oder Motorengeräusche. Drücken Sie in einer Sprechpause auf „Störgeräusch jetzt lernen“, damit Klangnah das aktuelle Hintergrundgeräusch erfasst. Eine hohe Stärke dämpft mehr, kann Sprache aber etwas künstlich klingen lassen.',
+  'instructions.focus': 'Der Sprachfokus hebt Sprache hervor. Mikrofone mit mehreren Kanälen, etwa in vielen Laptops oder USB-Mikrofonleisten, werden auf den Bereich vor Ihnen ausgerichtet; Geräusche von der Seite werden leiser. Bei Mikrofonen mit nur einem Kanal ist das nicht möglich – dann betont Klangnah die Anfänge von Konsonanten zwischen 2 und 4 kHz, was Sprache oft deutlicher macht als eine reine Anhebung der Höhen im Equalizer. Die Karte zeigt an, welche der beiden Arten gerade aktiv ist.',
+  'instructions.compressionTitle': '6. Dynamikkompression',
+  'instructions.compression': 'Die Kompression (WDRC) arbeitet in drei Frequenzbändern: Leise Geräusche wie entfernte Sprache werden angehoben, laute wie zuschlagende Türen abgemildert. **Schwelle** legt fest, ab welchem Pegel komprimiert wird, **Ratio** wie stark. **Attack** und **Release** bestimmen, wie schnell die Kompression einsetzt und wieder nachlässt.',
+  'instructions.protectionTitle': '7. Gehörschutz',
+  'instructions.feedback': 'Erkennt Klangnah ein Pfeifen durch Rückkopplung, wird die Lautstärke kurz abgesenkt und ein schmaler Kerbfilter auf die pfeifende Frequenz gesetzt. Sie erhalten dann einen Hinweis. Nach einiger Zeit ohne Pfeifen werden die Filter wieder gelöst.',
+  'instructions.dose': 'Der Begrenzer am Ende der Signalkette sorgt dafür, dass die Ausgabe nie über den eingestellten **Maximalpegel** steigt. Klangnah schätzt außerdem laufend, wie viel Schall Sie heute gehört haben (Tagesdosis nach WHO-Empfehlung: 80 dB für 40 Stunden pro Woche). Bei 100 % werden Sie gewarnt oder die Ausgabe wird automatisch leiser. Mit **Kalibrierung** geben Sie an, wie laut Ihre Kopfhörer bei Vollaussteuerung sind; ohne Messung ist die Anzeige nur ein Richtwert.',
+  'instructions.profilesTitle': '8. Profile nutzen',
+  'instructions.profiles': 'Wählen Sie vordefinierte Profile für gängige Situationen oder speichern Sie Ihre eigenen Einstellungen (inklusive Balance) für den schnellen Zugriff.',
+  'instructions.profileManager': 'Unter „Verwalten“ können Sie eigene Profile umbenennen, mit den aktuellen Einstellungen überschreiben, löschen (mit der Möglichkeit, dies rückgängig zu machen) und per Ziehen oder mit den Pfeiltasten neu ordnen. Vordefinierte Profile lassen sich als bearbeitbare Kopie übernehmen. Mit dem Stern markierte Favoriten erscheinen als Schnellwahl direkt unter der Profilauswahl.',
+  'instructions.crossfade': 'Beim Profilwechsel wird sanft übergeblendet; die Dauer stellen Sie unter „Überblendung“ ein. „Reglerglättung“ legt fest, wie weich Reglerbewegungen umgesetzt werden, damit kein Knacken entsteht. Mit dem „A/B-Vergleich“ wählen Sie zwei Profile aus und schalten mit den Tasten A und B praktisch ohne Verzögerung zwischen ihnen um.',
+  'instructions.exchange': 'Mit „Exportieren“ sichern Sie Profile als Datei oder übertragen sie per Link bzw. QR-Code auf ein anderes Gerät, mit „Importieren“ lesen Sie sie wieder ein. Gibt es ein Profil mit demselben Namen schon, entscheiden Sie, ob es ersetzt, das neue umbenannt oder übersprungen wird.',
+  'instructions.history': 'Unter „Verlauf“ sehen Sie Ihre tägliche Tragezeit, die genutzten Profile und die durchschnittliche Verstärkung der letzten Wochen. Frühere Einstellungen lassen sich dort wiederherstellen, und mit „Als CSV exportieren“ erhalten Sie eine Tabelle, die Sie Ihrer Hörakustikerin oder Ihrem Hörakustiker geben können.',
+  'instructions.hearingTestTitle': '9. Hörtest',
+  'instructions.hearingTest': 'Mit dem Hörtest ermitteln Sie für jedes Ohr, ab welcher Lautstärke Sie die einzelnen Tonhöhen hören. Daraus berechnet Klangnah nach einer anerkannten Anpassungsregel (NAL-R oder halbe Verstärkung) ein eigenes Profil. Das Audiogramm wird mit dem Profil gespeichert, sodass Sie die Anpassung später mit einer anderen Regel neu berechnen können.',
+  'instructions.sceneTitle': '10. Umgebungserkennung',
+  'instructions.scene': 'Klangnah kann anhand von Lautstärke, Klangfarbe und Sprachanteil erkennen, ob Sie sich in einer ruhigen Umgebung, im Gespräch, in lauter Umgebung mit Sprache, im Straßenverkehr oder bei Musik befinden. Legen Sie für jede Umgebung fest, welches Profil passt. Klangnah schlägt das Profil dann vor oder wechselt automatisch mit sanfter Überblendung. Die „Mindestdauer“ gibt an, wie lange eine neue Umgebung anhalten muss, bevor gewechselt wird; so springt das Profil nicht ständig hin und her.',
+  'instructions.clipsTitle': '11. Aufnahmen',
+  'instructions.clips': 'Ein Profil für das Restaurant lässt sich am besten einstellen, wenn man die Geräusche dort hört. Schalten Sie unter „Aufnahmen“ die Funktion ein und nehmen Sie unterwegs kurze Ausschnitte (bis zu einer Minute) auf. Aufgenommen wird nur das unbearbeitete Mikrofonsignal. Zu Hause spielen Sie die Aufnahme mit „Abspielen“ statt des Mikrofons durch alle Einstellungen und passen das Profil in Ruhe an, auch im A/B-Vergleich. Eigene Audiodateien können Sie ebenfalls importieren. Geben Sie Aufnahmen eine aussagekräftige Bezeichnung und löschen Sie sie, wenn Sie sie nicht mehr brauchen.',
+  'instructions.offlineTitle': '12. Installation und Offline-Betrieb',
+  'instructions.offline': 'Sie können Klangnah wie eine App installieren: im Browsermenü über „App installieren“ bzw. auf dem iPhone über „Teilen“ → „Zum Home-Bildschirm“. Nach dem ersten Aufruf funktioniert Klangnah auch ohne Internetverbindung. Gibt es eine neue Version, erscheint oben ein Hinweis; mit „Aktualisieren“ wird sie geladen. Unterbricht das System die Audioausgabe, etwa durch einen Anruf oder wenn das Gerät kurz gesperrt war, setzt Klangnah die Verarbeitung von selbst fort. Sie müssen „Hörhilfe starten“ nicht erneut drücken.',
+  'instructions.controlsTitle': '13. Bedienung per Tastatur, Headset und Sprachausgabe',
+  'instructions.keyboard': 'Mit der Tastatur steuern Sie Klangnah ohne Maus: **+** und **−** ändern die Lautstärke in Schritten von {step} %, **M** schaltet stumm und wieder laut, **N** und **P** wechseln zum nächsten bzw. vorherigen Profil, **S** startet oder stoppt die Hörhilfe. Mit den Tasten eines Headsets oder Kopfhörers schalten Sie ebenfalls stumm (Wiedergabe/Pause), wechseln das Profil (nächster/vorheriger Titel) und ändern die Lautstärke (Vor- und Zurückspulen). Welche Tasten ankommen, hängt vom Gerät und Browser ab.',
+  'instructions.accessibility': 'Unter „Bedienung“ oder mit dem Knopf „Große Bedienelemente“ oben rechts schalten Sie eine Ansicht mit starkem Kontrast, großer Schrift, breiten Reglern und großen Minus- und Plus-Knöpfen ein. „Eingestellte Werte ansagen“ liest jede Änderung vor, etwa „Lautstärke 120 %“. Alle Regler und Meldungen sind auch mit einem Bildschirmleser bedienbar.',
+  'instructions.languageTitle': '14. Sprache',
+  'instructions.language': 'Klangnah richtet sich nach der Sprache Ihres Browsers. Mit der Sprachauswahl oben rechts können Sie die Sprache auch selbst wählen (Deutsch, Englisch oder Türkisch); die Wahl wird gespeichert. Eigene Profilnamen bleiben dabei unverändert.',
+  'instructions.generatorTitle': '15. Tinnitus-Entlastung',
+  'instructions.generator': 'Ein leises Rauschen kann einen Tinnitus überdecken und das Einschlafen erleichtern. Weißes Rauschen klingt hell, rosa Rauschen ausgewogen und braunes Rauschen tief und weich; auf Wunsch schwillt es langsam an und ab wie Meeresrauschen. Der Pegel ist unabhängig von der Lautstärke. Schalten Sie „Mikrofon weiter verstärken“ aus, um nur das Geräusch zu hören. Der Schlaftimer blendet das Geräusch nach der gewählten Zeit langsam aus; ist das Mikrofon stummgeschaltet, stoppt Klangnah danach.',
+  'instructions.generatorNotch': 'Für Notched Noise stellen Sie zuerst mit dem Vergleichston die Tonhöhe Ihres Tinnitus ein. Danach wird aus dem Rauschen eine Oktave um diese Frequenz herausgefiltert. Die Einstellungen werden mit dem Profil gespeichert. Sprechen Sie eine Tinnitus-Therapie mit Ihrer HNO-Ärztin oder Ihrem HNO-Arzt ab.',
+  'instructions.remoteTitle': '16. Fernsteuerung durch Angehörige',
+  'instructions.remote': 'Unter „Fernsteuerung durch Angehörige“ koppeln Sie ein zweites Gerät, etwa das Smartphone eines Familienmitglieds. Es scannt den QR-Code, zeigt dann einen Antwortcode, den Sie auf Ihrem Gerät scannen oder einfügen. Danach kann die andere Person Ihre Pegel sehen und Profil, Lautstärke, Balance und Equalizer ändern – genau so, als würden Sie die Regler selbst bewegen. Solange die Verbindung besteht, zeigt ein Hinweis oben auf der Seite das an; mit „Zugriff entziehen“ beenden Sie sie jederzeit.',
+  'instructions.quickStartTitle': '17. Schnellstart',
+  'instructions.quickStart': 'Klangnah merkt sich Ihre zuletzt verwendeten Einstellungen und Ihr Profil, auch ungespeicherte Änderungen. Beim nächsten Öffnen startet der Knopf „Starten mit …“ die Hörhilfe mit genau diesen Einstellungen. Jeder Start beginnt leise und wird in wenigen Sekunden auf die eingestellte Lautstärke angehoben. Wenn Sie beim Sicherheitshinweis „Nicht mehr anzeigen“ wählen, erscheint er erst nach dem nächsten Update wieder; unter „Bedienung“ können Sie ihn jederzeit wieder einschalten.',
+  'instructions.tipsTitle': 'Zusätzliche Tipps:',
+  'instructions.tipSave': 'Verwenden Sie die "Speichern"-Funktion, um Ihre Einstellungen als neues Profil zu sichern.',
+  'instructions.tipVolume': 'Bei Lautstärken über 270% erscheint eine Sicherheitswarnung.',
+  'instructions.tipDose': 'Ihr Dosisverlauf der letzten Tage bleibt auch nach dem Schließen der App erhalten.',
+  'instructions.tipUse': 'Die App ist speziell als Alltagshilfe gedacht, z.B. bei chronischen Mittelohrentzündungen, um Gespräche besser zu verstehen.',
+  'instructions.disclaimerTitle': 'Haftungsausschluss',
+  'instructions.disclaimer': 'Diese Anwendung dient als Hörhilfe und ersetzt keine professionelle medizinische Beratung oder ein medizinisches Hörgerät. Bei anhaltenden Hörproblemen konsultieren Sie bitte einen HNO-Arzt.',
+
+  'impressum.title': 'Impressum',
+  'impressum.legal': 'Angaben gemäß § 5 TMG',
+  'impressum.contact': 'Kontakt:',
+  'impressum.phone': 'Telefon',
+  'impressum.email': 'E-Mail',
+
+  'privacy.title': 'Datenschutzerklärung',
+  'privacy.localTitle': 'Datenverarbeitung auf Ihrem Gerät',
+  'privacy.local': 'Diese Anwendung wurde mit dem Fokus auf maximalen Datenschutz entwickelt. Alle Kernfunktionen, insbesondere die Verarbeitung Ihrer Audiodaten, finden ausschließlich in Echtzeit auf Ihrem Gerät statt.',
+  'privacy.noRecording': '**Keine Audiospeicherung:** Es werden keine Audiodaten von Ihrem Mikrofon aufgezeichnet, gespeichert oder an externe Server gesendet – es sei denn, Sie schalten „Aufnahmen erlauben“ ein und starten selbst eine Aufnahme.',
+  'privacy.clips': '**Aufnahmen:** Selbst gestartete Aufnahmen und importierte Audiodateien werden ausschließlich in der Datenbank Ihres Browsers (IndexedDB) auf diesem Gerät gespeichert und nie hochgeladen. Sie können sie jederzeit einzeln löschen; sie werden außerdem gelöscht, wenn Sie die Websitedaten im Browser entfernen.',
+  'privacy.usage': '**Nutzungsverlauf:** Wann die Hörhilfe läuft, welche Profile und Einstellungen Sie verwenden und die durchschnittlichen Pegel werden ebenfalls nur in der Datenbank Ihres Browsers gespeichert, höchstens ein Jahr lang. Sie können den Verlauf jederzeit löschen oder selbst als CSV-Datei exportieren.',
+  'privacy.remote': '**Fernsteuerung:** Bei einer Kopplung verbinden sich die beiden Geräte direkt über WebRTC im lokalen Netz, ohne Vermittlungsserver. Übertragen werden nur Einstellungen, Profilnamen und Pegelwerte – niemals Ton vom Mikrofon.',
+  'privacy.settings': '**Lokale Einstellungen:** Alle von Ihnen vorgenommenen Einstellungen, wie Lautstärke, Equalizer-Werte, gespeicherte Profile und die gewählte Sprache, werden ausschließlich im lokalen Speicher (Local Storage) Ihres Webbrowsers gesichert. Diese Daten verlassen Ihr Gerät nicht.',
+  'privacy.export': '**Profil-Export:** Exportierte Profile (Datei, Link oder QR-Code) enthalten Ihre Einstellungen und gegebenenfalls Ihr Audiogramm. Die Daten stehen vollständig im Link selbst und werden nicht an einen Server übertragen. Geben Sie Links nur an Personen weiter, denen Sie diese Daten anvertrauen möchten.',
+  'privacy.offlineTitle': 'Offline-Nutzung und Schriftarten',
+  'privacy.offline': 'Klangnah lädt keine Inhalte von fremden Servern. Die Schriftart "Inter" wird zusammen mit der App ausgeliefert. Beim ersten Aufruf speichert Ihr Browser alle Dateien der App in seinem Cache (Service Worker), damit Klangnah auch ohne Internetverbindung funktioniert. Dabei werden nur Programmdateien gespeichert, keine persönlichen Daten.',
+
+  'hearingTest.title': 'Hörtest',
+  'hearingTest.intro': 'Der Hörtest spielt für jedes Ohr kurze Töne in verschiedenen Tonhöhen. Aus Ihren Antworten wird ein Audiogramm erstellt und daraus ein passendes Profil berechnet.',
+  'hearingTest.tipRoom': 'Setzen Sie Ihre Kopfhörer auf und suchen Sie einen ruhigen Raum.',
+  'hearingTest.tipVolume': 'Stellen Sie die Systemlautstärke auf etwa 50 % und ändern Sie sie während des Tests nicht.',
+  'hearingTest.tipAnswer': 'Antworten Sie mit „Gehört“, sobald Sie einen Ton wahrnehmen – auch wenn er sehr leise ist.',
+  'hearingTest.disclaimer': 'Der Test ersetzt keine Untersuchung beim HNO-Arzt oder Hörakustiker.',
+  'hearingTest.rule': 'Anpassungsregel',
+  'hearingTest.begin': 'Test beginnen',
+  'hearingTest.step': 'Schritt {step} von {total}',
+  'hearingTest.playing': 'Ton wird abgespielt …',
+  'hearingTest.question': 'Haben Sie den Ton gehört?',
+  'hearingTest.notHeard': 'Nicht gehört',
+  'hearingTest.heard': 'Gehört',
+  'hearingTest.repeat': 'Wiederholen',
+  'hearingTest.resultTitle': 'Ihr Audiogramm',
+  'hearingTest.resultText': 'Hörschwellen in dB HL. Sie können die Werte bei Bedarf korrigieren, z. B. mit den Werten aus einem Audiogramm Ihres Hörakustikers.',
+  'hearingTest.thresholdAria': '{ear} {frequency} Hörschwelle',
+  'hearingTest.discard': 'Verwerfen',
+  'hearingTest.create': 'Profil erstellen',
+  'fittingRule.nal-r': 'NAL-R',
+  'fittingRule.half-gain': 'Halbe Verstärkung (Half-Gain)',
+
+  'saveProfile.title': 'Profil speichern',
+  'saveProfile.current': 'Die aktuellen Einstellungen im Profil „{name}“ speichern:',
+  'saveProfile.overwrite': '„{name}“ überschreiben',
+  'saveProfile.orNew': 'Oder als neues Profil speichern:',
+  'saveProfile.saveNew': 'Als neues Profil speichern',
+
+  'export.title': 'Profile exportieren',
+  'export.scope': 'Was exportieren?',
+  'export.current': 'Aktuelles Profil ({name})',
+  'export.library': 'Alle eigenen Profile ({count})',
+  'export.text': 'Speichern Sie die Profile als Datei oder übertragen Sie sie mit dem Link bzw. QR-Code auf ein anderes Gerät. Die Daten werden dabei nicht über einen Server gesendet.',
+  'export.tooLarge': 'Zu viele Daten für einen QR-Code. Bitte nutzen Sie die Datei oder den Link.',
+  'export.qrAria': 'QR-Code zum Übertragen der Profile',
+  'export.linkAria': 'Teilen-Link',
+  'export.download': 'Als Datei speichern',
+  'export.copy': 'Link kopieren',
+  'export.copied': 'Kopiert',
+  'export.libraryFileName': 'bibliothek',
+
+  'import.title': 'Profile importieren',
+  'import.text': 'Wählen Sie eine Klangnah-Profildatei (.json) oder fügen Sie einen Teilen-Code bzw. -Link ein.',
+  'import.file': 'Datei',
+  'import.code': 'Code',
+  'import.codePlaceholder': 'KN2… oder Link',
+  'import.read': 'Code lesen',
+  'import.reviewTitle': 'Import prüfen',
+  'import.invalidEntries': 'Diese Einträge sind fehlerhaft und werden nicht importiert:',
+  'import.nameExists': '– Name bereits vorhanden',
+  'import.resolutionAria': 'Vorgehen für {name}',
+  'import.add': 'Hinzufügen',
+  'import.overwrite': 'Vorhandenes ersetzen',
+  'import.skip': 'Überspringen',
+  'import.newNameAria': 'Neuer Name für {name}',
+  'import.confirm': 'Importieren',
+  'import.renameMissing': 'Bitte geben Sie für jedes umbenannte Profil einen Namen ein.',
+  'import.nameTaken': 'Der Name „{name}“ ist bereits vergeben.',
+
+  'manager.title': 'Profile verwalten',
+  'manager.empty': 'Noch keine eigenen Profile. Speichern Sie Ihre Einstellungen oder kopieren Sie ein vordefiniertes Profil.',
+  'manager.favoriteAria': '{name} als Favorit markieren',
+  'manager.ok': 'OK',
+  'manager.load': 'Profil laden',
+  'manager.moveUp': '{name} nach oben',
+  'manager.moveDown': '{name} nach unten',
+  'manager.overwrite': 'Überschreiben',
+  'manager.overwriteTitle': 'Aktuelle Einstellungen in diesem Profil speichern',
+  'manager.predefined': 'Vordefinierte Profile',
+  'manager.predefinedHint': 'Vordefinierte Profile lassen sich nicht ändern. Legen Sie eine Kopie an, um sie anzupassen.',
+  'manager.duplicate': 'Kopie anlegen',
+
+  'schema.notNumber': '{label} fehlt oder ist keine Zahl.',
+  'schema.outOfRange': '{label} liegt außerhalb von {min} bis {max}.',
+  'schema.missing': '{label} fehlt.',
+  'schema.invalidFrequency': '{label}: {key} ist keine gültige Frequenz.',
+  'schema.invalid': '{label} ist ungültig.',
+  'schema.frequency': '{label} Frequenz',
+  'schema.gain': '{label} Verstärkung',
+  'schema.nameMissing': 'Der Name fehlt.',
+  'schema.nameTooLong': 'Der Name ist länger als 60 Zeichen.',
+  'schema.preAmp': 'Pre-Amp',
+  'schema.volume': 'Lautstärke',
+  'schema.balance': 'Balance',
+  'schema.eqMissing': 'Der Equalizer fehlt.',
+  'schema.eqLeft': 'Equalizer links',
+  'schema.eqRight': 'Equalizer rechts',
+  'schema.eqLayoutUnknown': 'Die Equalizer-Aufteilung ist unbekannt.',
+  'schema.eqFiltersInvalid': 'Die Equalizer-Filter sind ungültig.',
+  'schema.highPass': 'Hochpass',
+  'schema.lowShelf': 'Tiefen-Shelf',
+  'schema.highShelf': 'Höhen-Shelf',
+  'schema.lowPass': 'Tiefpass',
+  'schema.earsInvalid': 'Die Ohr-Einstellungen sind ungültig.',
+  'schema.earMissing': 'Die Einstellungen für {ear} fehlen.',
+  'schema.left': 'links',
+  'schema.right': 'rechts',
+  'schema.earGain': 'Pegel {ear}',
+  'schema.earLimit': 'Limit {ear}',
+  'schema.compressionInvalid': 'Die Kompression ist ungültig.',
+  'schema.bandInvalid': 'Kompressionsband {band} ist ungültig.',
+  'schema.bandThreshold': 'Band {band} Schwelle',
+  'schema.bandRatio': 'Band {band} Ratio',
+  'schema.bandAttack': 'Band {band} Attack',
+  'schema.bandRelease': 'Band {band} Release',
+  'schema.noiseReductionInvalid': 'Die Rauschunterdrückung ist ungültig.',
+  'schema.noiseReductionStrength': 'Stärke der Rauschunterdrückung',
+  'schema.speechFocusInvalid': 'Der Sprachfokus ist ungültig.',
+  'schema.speechFocusStrength': 'Stärke des Sprachfokus',
+  'schema.soundGeneratorInvalid': 'Die Tinnitus-Entlastung ist ungültig.',
+  'schema.soundGeneratorColor': 'Das Geräusch der Tinnitus-Entlastung ist unbekannt.',
+  'schema.soundGeneratorLevel': 'Pegel der Tinnitus-Entlastung',
+  'schema.tinnitusFrequency': 'Tinnitus-Frequenz',
+  'schema.audiogramInvalid': 'Das Audiogramm ist ungültig.',
+  'schema.audiogramLeft': 'Audiogramm links',
+  'schema.audiogramRight': 'Audiogramm rechts',
+  'schema.fittingRuleUnknown': 'Die Anpassungsregel ist unbekannt.',
+  'schema.favoriteInvalid': 'Die Favoriten-Markierung ist ungültig.',
+  'schema.entry': 'Eintrag {index}',
+  'schema.notAProfile': 'Eintrag {index}: kein Profil.',
+  'schema.noProfiles': 'Die Daten enthalten keine Profile.',
+  'schema.newerVersion': 'Die Datei stammt aus einer neueren Klangnah-Version (Format {version}). Bitte aktualisieren Sie die App.',
+  'schema.invalidJson': 'Die Datei ist keine gültige Klangnah-Profildatei (JSON).',
+  'schema.noDecompression': 'Dieser Browser kann komprimierte Teilen-Codes nicht lesen.',
+  'schema.corruptCode': 'Der Teilen-Code ist unvollständig oder beschädigt.',
+};
+
+export type MessageId = keyof typeof de;
+export type Messages = Record<MessageId, string>;
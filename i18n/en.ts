@@ -0,0 +1,588 @@
+import { Messages } from './de';
+
+export const en: Messages = {
+  'app.title': 'Klangnah',
+  'app.documentTitle': 'Klangnah - Hearing Aid',
+  'app.footer': '© 2025 Klangnah. A professional hearing aid application.',
+
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.understood': 'Understood',
+  'common.reset': 'Reset',
+  'common.undo': 'Undo',
+  'common.delete': 'Delete',
+  'common.rename': 'Rename',
+  'common.dismissNotice': 'Dismiss notice',
+  'common.profileName': 'Profile name',
+  'common.enterName': 'Please enter a name.',
+  'common.nameTaken': 'A profile with this name already exists.',
+  'common.leftEar': 'Left ear',
+  'common.rightEar': 'Right ear',
+
+  'header.instructions': 'Show instructions',
+  'header.largeControls': 'Large controls',
+  'header.theme': 'Switch theme',
+  'header.language': 'Language',
+
+  'notice.update': 'A new version of Klangnah is available.',
+  'notice.updateInterrupts': 'The hearing aid will pause briefly while updating.',
+  'notice.updateApply': 'Update',
+  'notice.later': 'Later',
+  'notice.audioInterrupted': 'Audio output was interrupted by the system, for example by a call. Klangnah resumes automatically as soon as possible – if necessary, tap the page once.',
+  'notice.feedback': 'Feedback detected at {frequencies} and suppressed. Insert the headphones more firmly or keep them further away from the microphone.',
+  'notice.sceneSuggestion': 'Detected “{scene}”. Load the profile “{profile}”?',
+  'notice.sceneLoad': 'Load',
+  'notice.sceneDecline': 'Dismiss suggestion',
+  'notice.muted': 'Klangnah is muted.',
+  'notice.unmute': 'Unmute',
+  'notice.remoteActive': 'Remote control active: a paired device can change profile, volume, balance and equalizer.',
+
+  'device.micDisconnected': 'The microphone was disconnected. Klangnah now uses the default microphone.',
+  'device.selectedMicDisconnected': 'The selected microphone was disconnected. Klangnah now uses the default microphone.',
+  'device.micSwitchFailed': 'The microphone could not be changed.',
+  'device.outputSelectFailed': 'The output device could not be selected.',
+  'device.outputDisconnected': 'The audio output was disconnected (e.g. headphones unplugged). Klangnah has been muted so that it does not whistle through the speaker.',
+  'error.microphone': 'Microphone access was denied or the audio settings are not supported. The app cannot work without a microphone.',
+  'error.clipPlayback': 'The recording could not be played. This browser may not support the file format.',
+
+  'devices.title': 'Audio devices',
+  'devices.input': 'Microphone',
+  'devices.defaultInput': 'Default microphone',
+  'devices.output': 'Output',
+  'devices.defaultOutput': 'Default output',
+  'devices.outputFallback': 'Output device',
+  'devices.noOutputSelection': 'This browser does not allow choosing the output device. Select it in your system settings.',
+
+  'slider.aria': '{label} slider',
+  'slider.decrease': 'Decrease {label}',
+  'slider.increase': 'Increase {label}',
+  'slider.announce': '{label}: {value}',
+
+  'preAmp.title': 'Pre-amplification (pre-amp)',
+  'preAmp.label': 'Pre-amp',
+  'volume.title': 'Master volume',
+  'volume.label': 'Volume',
+  'volume.mute': 'Mute',
+  'volume.unmute': 'Sound on',
+
+  'meter.input': 'Input',
+  'meter.output': 'Output',
+  'meter.peak': 'Peak',
+  'meter.rms': 'RMS',
+  'meter.clipped': 'Clipping',
+  'meter.limited': 'Limited',
+  'meter.resetTitle': 'Reset indicator',
+  'meter.clipActive': '{label} – reset indicator',
+  'meter.clipInactive': 'Not {label}',
+  'meter.aria': '{label} in dBFS',
+
+  'balance.title': 'Left-right balance',
+  'balance.label': 'Balance',
+  'balance.center': 'Centre',
+  'balance.left': 'Left {value}',
+  'balance.right': 'Right {value}',
+  'ear.gain': 'Level {ear}',
+  'ear.limit': 'Limit {ear}',
+  'ear.shortLeft': 'L',
+  'ear.shortRight': 'R',
+
+  'eq.title': 'Equalizer',
+  'eq.earGroup': 'Equalizer for which ear',
+  'eq.both': 'Both ears',
+  'eq.left': 'Left',
+  'eq.right': 'Right',
+  'eq.layout': 'Bands',
+  'eq.filters': 'Filters (both ears)',
+  'eq.highPass': 'High-pass (remove low rumble)',
+  'eq.highPassFrom': 'High-pass from',
+  'eq.lowShelf': 'Low shelf',
+  'eq.lowShelfUpTo': 'Lows up to',
+  'eq.lowShelfGain': 'Lows',
+  'eq.highShelf': 'High shelf',
+  'eq.highShelfFrom': 'Highs from',
+  'eq.highShelfGain': 'Highs',
+  'eq.lowPass': 'Low-pass (cut hiss and noise)',
+  'eq.lowPassUpTo': 'Low-pass up to',
+  'eq.responseCurve': 'Equalizer frequency response',
+  'eqLayout.six': '6 bands',
+  'eqLayout.ten': '10 bands',
+  'eqLayout.third-octave': 'Third-octave bands',
+
+  'spectrum.title': 'Spectrum',
+  'spectrum.signal': 'Signal',
+  'spectrum.pre': 'Before EQ',
+  'spectrum.post': 'After EQ',
+  'spectrum.both': 'Both',
+  'spectrum.spectrogramToggle': 'History (spectrogram)',
+  'spectrum.bothHint': 'Faint: before the equalizer, strong: after the equalizer.',
+  'spectrum.spectrumAria': 'Frequency spectrum in dBFS',
+  'spectrum.spectrogramAria': 'Spectrogram',
+
+  'clips.title': 'Recordings',
+  'clips.hint': 'Record short excerpts of a place, such as a restaurant, and fine-tune your profile with them at home later. Recordings are stored on this device only.',
+  'clips.allow': 'Allow recordings',
+  'clips.playingNotice': 'You are listening to a recording instead of the microphone.',
+  'clips.unsupported': 'This browser cannot store recordings locally.',
+  'clips.loadError': 'The saved recordings could not be loaded.',
+  'clips.saveError': 'The recording could not be saved. The storage may be full.',
+  'usage.title': 'Usage history',
+  'usage.hint': 'Klangnah records, only on this device, when the hearing aid runs, which profile is active, changes to volume, pre-amp and equalizer, and the average levels. No audio is recorded.',
+  'usage.unsupported': 'This browser cannot store the history.',
+  'usage.loadError': 'The history could not be loaded.',
+  'usage.exportError': 'The history could not be exported.',
+  'usage.clearError': 'The history could not be cleared.',
+  'usage.days': 'Last {days} days',
+  'usage.empty': 'No entries yet.',
+  'usage.date': 'Date',
+  'usage.wearTime': 'Wear time',
+  'usage.gain': 'Avg. gain',
+  'usage.profiles': 'Profiles',
+  'usage.snapshots': 'Earlier settings',
+  'usage.snapshotsHint': 'Use “Restore” to go back to an earlier setting.',
+  'usage.snapshotValues': 'volume {volume} %, pre-amp {preAmp} %',
+  'usage.restore': 'Restore',
+  'usage.export': 'Export as CSV',
+  'usage.fileName': 'history',
+  'usage.clear': 'Clear history',
+  'usage.confirmClear': 'Delete the entire usage history?',
+  'usage.csvTime': 'Time',
+  'usage.csvSession': 'Session',
+  'usage.csvEvent': 'Event',
+  'usage.csvProfile': 'Profile',
+  'usage.csvVolume': 'Volume (%)',
+  'usage.csvPreAmp': 'Pre-amp (%)',
+  'usage.csvEqLeft': 'EQ left (Hz:dB)',
+  'usage.csvEqRight': 'EQ right (Hz:dB)',
+  'usage.csvSeconds': 'Duration (s)',
+  'usage.csvInput': 'Input level (dBFS)',
+  'usage.csvOutput': 'Output level (dBFS)',
+  'usage.event.start': 'Start',
+  'usage.event.stop': 'Stop',
+  'usage.event.profile': 'Profile change',
+  'usage.event.settings': 'Setting',
+  'usage.event.levels': 'Levels',
+  'clips.deleteError': 'The recording could not be deleted.',
+  'clips.record': '● Record',
+  'clips.stopRecording': '■ Stop ({elapsed} / {max})',
+  'clips.import': 'Import audio file',
+  'clips.startHint': 'Start Klangnah to record or to play recordings.',
+  'clips.recording': 'Recording – microphone signal only, without processing.',
+  'clips.loop': 'Play in a loop',
+  'clips.labelAria': 'Recording name',
+  'clips.originImport': 'File',
+  'clips.originRecording': 'Recording',
+  'clips.play': 'Play',
+  'clips.stop': 'Stop',
+  'clips.confirmDelete': 'Delete “{label}” permanently?',
+  'clips.defaultLabel': 'Recording {date} {time}',
+
+  'noise.title': 'Noise reduction',
+  'noise.enable': 'Reduce steady background noise (hum, fans)',
+  'noise.strength': 'Strength',
+  'noise.learn': 'Learn background noise now',
+  'noise.learning': 'Please stay quiet for a moment – learning the background noise …',
+  'noise.learned': 'Background noise learned.',
+  'noise.unsupported': 'This browser does not support noise reduction (AudioWorklet required).',
+  'focus.title': 'Speech focus',
+  'focus.enable': 'Emphasise speech from the front',
+  'focus.strength': 'Strength',
+  'focus.directional': 'Directional: the microphone delivers {channels} channels, sound from the front is preferred.',
+  'focus.mono': 'This microphone delivers a single channel and cannot be directional. Consonants between 2 and 4 kHz are emphasised instead.',
+  'focus.unknown': 'Whether the microphone supports directionality is shown after starting.',
+  'generator.title': 'Tinnitus relief',
+  'generator.enable': 'Play relief sound',
+  'generator.color': 'Sound',
+  'generator.white': 'White noise',
+  'generator.pink': 'Pink noise',
+  'generator.brown': 'Brown noise',
+  'generator.level': 'Level',
+  'generator.ocean': 'Swell slowly like ocean waves',
+  'generator.microphone': 'Keep amplifying the microphone',
+  'generator.microphoneOff': 'The microphone is muted, you only hear the sound.',
+  'generator.sleepTimer': 'Sleep timer',
+  'generator.sleepOff': 'Off',
+  'generator.sleepMinutes': '{minutes} minutes',
+  'generator.sleepUntil': 'The sound fades out slowly at {time}.',
+  'generator.tinnitusTitle': 'Tinnitus frequency',
+  'generator.frequency': 'Frequency',
+  'generator.matchHint': 'Play the comparison tone and move the slider until it sounds as high as your tinnitus.',
+  'generator.matchStart': 'Play comparison tone',
+  'generator.matchStop': 'Stop comparison tone',
+  'generator.matchStopped': 'The comparison tone is available after starting.',
+  'generator.notch': 'Leave out one octave around the tinnitus frequency (notched noise)',
+  'generator.safety': 'The sound passes through the output limiter and counts toward the daily dose.',
+  'remote.title': 'Remote control by family',
+  'remote.hint': 'Someone you trust can see the levels on their smartphone and set profile, volume, balance and equalizer. Both devices must be on the same Wi-Fi. No sound is transmitted.',
+  'remote.pair': 'Pair device',
+  'remote.revoke': 'Revoke access',
+  'remote.unsupported': 'This browser does not support direct connections between devices.',
+  'remote.pairTitle': 'Pair device',
+  'remote.pairStep1': '1. Scan this QR code with the helper’s device or send them the link.',
+  'remote.pairStep2': '2. The other device then shows a reply code. Scan it or paste it here.',
+  'remote.pairHint': 'The connection runs directly between the two devices, without a server. Only settings and levels are transmitted, never sound.',
+  'remote.preparing': 'Preparing pairing code …',
+  'remote.qrAria': 'QR code for pairing',
+  'remote.linkAria': 'Pairing link',
+  'remote.answer': 'Reply code',
+  'remote.connect': 'Connect',
+  'remote.scan': 'Scan with camera',
+  'remote.invalidAnswer': 'This is not a valid reply code for this pairing.',
+  'remote.invalidCode': 'This is not a valid pairing code.',
+  'remote.connectError': 'The connection could not be established.',
+  'remote.pairingClosed': 'The connection failed. Are both devices on the same Wi-Fi? Start the pairing again.',
+  'remote.connectedAnnounce': 'Remote control connected.',
+  'remote.endedAnnounce': 'Remote control has ended.',
+  'remote.revokedAnnounce': 'Access has been revoked.',
+  'remote.caregiverTitle': 'Control another device',
+  'remote.enterCode': 'Enter the pairing code or link from the listener’s device.',
+  'remote.code': 'Pairing code',
+  'remote.join': 'Connect',
+  'remote.showAnswer': 'Show this reply code to the other device so it can scan it, or send it as text.',
+  'remote.waiting': 'Connected, waiting for the settings …',
+  'remote.running': 'The hearing aid is running.',
+  'remote.stopped': 'The hearing aid is stopped. Settings apply at the next start.',
+  'remote.revoked': 'Access was ended on the other device.',
+  'remote.disconnected': 'The connection was lost.',
+  'remote.disconnect': 'Disconnect',
+  'scanner.preview': 'Camera image for scanning the QR code',
+  'scanner.cameraError': 'The camera could not be opened. Paste the code instead.',
+  'latency.title': 'Latency',
+  'latency.mode': 'Processing',
+  'latency.modeInteractive': 'Normal',
+  'latency.modeLowest': 'Lowest latency',
+  'latency.modeHint': 'With “Lowest latency” Klangnah uses the smallest audio buffer and the microphone’s sample rate. Noise reduction and dynamic compression are switched off. Choose “Normal” again if the sound drops out or crackles.',
+  'latency.restartNeeded': 'The new setting applies from the next start of the hearing aid.',
+  'latency.restart': 'Restart now',
+  'latency.input': 'Microphone',
+  'latency.base': 'Audio buffer',
+  'latency.processing': 'Processing',
+  'latency.output': 'Output',
+  'latency.estimate': 'Total (estimated)',
+  'latency.sampleRate': 'Sample rate',
+  'latency.loopbackHint': 'For an exact measurement Klangnah plays quiet clicks and waits until the microphone hears them. Hold an earphone right against the microphone. The hearing aid is muted during the measurement.',
+  'latency.loopback': 'Measure with click',
+  'latency.loopbackShort': 'Click',
+  'latency.measuring': 'Measuring …',
+  'latency.notHeard': 'The microphone did not hear the click. Hold the earphone closer to the microphone.',
+  'latency.loopbackResult': 'Measured total delay: {value}',
+  'latency.save': 'Save measurement',
+  'latency.stopped': 'The values appear once the hearing aid is running.',
+  'latency.history': 'Saved measurements',
+  'latency.date': 'Date',
+  'latency.devices': 'Devices',
+  'latency.clear': 'Clear list',
+  'noise.lowLatency': 'Noise reduction is switched off in “Lowest latency” mode.',
+  'compression.lowLatency': 'Compression is switched off in “Lowest latency” mode.',
+
+  'compression.title': 'Dynamic compression (WDRC)',
+  'compression.enable': 'Raise quiet sounds, soften loud noises',
+  'compression.low': 'Low',
+  'compression.mid': 'Mid',
+  'compression.high': 'High',
+  'compression.threshold': 'Threshold',
+  'compression.ratio': 'Ratio',
+  'compression.attack': 'Attack',
+  'compression.release': 'Release',
+
+  'protection.title': 'Hearing protection',
+  'protection.maximum': 'Maximum',
+  'protection.calibration': 'Calibration',
+  'protection.outputLevel': 'Output level (estimated):',
+  'protection.dose': 'Daily dose:',
+  'protection.doseAria': 'Daily dose used',
+  'protection.doseAction': 'When the daily dose is reached',
+  'protection.warn': 'Warn only',
+  'protection.attenuate': 'Turn down automatically ({db} dB)',
+  'protection.feedback': 'Suppress feedback (whistling) automatically',
+  'protection.notches': 'Active notch filters: {frequencies}',
+
+  'profile.default': 'Standard',
+  'profile.custom': 'Custom',
+  'profile.conversation': 'Conversation',
+  'profile.tv': 'Television',
+  'profile.street': 'Street',
+
+  'profiles.title': 'Profiles',
+  'profiles.select': 'Select profile',
+  'profiles.predefined': 'Predefined',
+  'profiles.mine': 'My profiles',
+  'profiles.save': 'Save',
+  'profiles.manage': 'Manage',
+  'profiles.hearingTest': 'Hearing test',
+  'profiles.export': 'Export',
+  'profiles.import': 'Import',
+  'profiles.favorites': 'Favourites',
+  'profiles.deleted': 'Profile “{name}” deleted.',
+  'profiles.abCompare': 'A/B comparison',
+  'profiles.abProfile': 'Profile {side}',
+  'profiles.crossfade': 'Crossfade',
+  'profiles.smoothing': 'Control smoothing',
+  'profiles.hearingTestFrom': 'Hearing test from {date}',
+  'profiles.fittingRule': 'Select fitting rule',
+  'profiles.refit': 'Recalculate',
+  'profiles.history': 'History',
+  'profiles.copyName': '{name} (copy)',
+
+  'scene.title': 'Environment detection',
+  'scene.enable': 'Detect the environment and choose a matching profile',
+  'scene.detected': 'Detected: {scene}',
+  'scene.analysing': 'Analysing the environment …',
+  'scene.mode': 'When the environment changes',
+  'scene.suggest': 'Suggest profile',
+  'scene.auto': 'Switch profile automatically',
+  'scene.hold': 'Minimum duration',
+  'scene.keepProfile': 'Keep profile',
+  'scene.quiet': 'Quiet',
+  'scene.speech': 'Conversation',
+  'scene.speech-in-noise': 'Speech in noise',
+  'scene.traffic': 'Traffic',
+  'scene.music': 'Music',
+
+  'controls.title': 'Controls',
+  'controls.largeControls': 'Large high-contrast controls',
+  'controls.spokenFeedback': 'Read out adjusted values',
+  'controls.noSpeech': 'This browser does not support speech output.',
+  'controls.shortcuts': 'Keyboard shortcuts',
+  'controls.shortcutVolume': 'Change volume by {step} %',
+  'controls.shortcutMute': 'Mute / sound on',
+  'controls.shortcutProfile': 'Next / previous profile',
+  'controls.shortcutStart': 'Start / stop the hearing aid',
+  'controls.warningAcknowledged': 'Safety notice acknowledged on {date}.',
+  'controls.showWarningAgain': 'Show notice again',
+
+  'announce.volume': 'Volume {value} %',
+  'announce.muted': 'Muted',
+  'announce.unmuted': 'Sound on',
+  'announce.profile': 'Profile {name}',
+  'announce.stopped': 'Hearing aid stopped',
+  'announce.starting': 'Starting hearing aid',
+
+  'stop.button': 'Stop hearing aid',
+  'stopped.title': 'Stopped',
+  'stopped.text': 'The hearing aid is currently not active.',
+  'stopped.start': 'Start hearing aid',
+  'stopped.hearingTest': 'Take hearing test',
+  'stopped.remote': 'Control another device',
+  'stopped.quickStart': 'Start with “{profile}”',
+  'stopped.quickStartHint': 'With your last settings, volume {volume} %. The sound fades in slowly over the first seconds.',
+
+  'footer.impressum': 'Legal notice',
+  'footer.privacy': 'Privacy',
+
+  'warning.title': 'Important notice',
+  'warning.headphones': 'Always connect headphones before starting Klangnah to avoid feedback!',
+  'warning.feedback': 'Without headphones, loud feedback can occur that may damage your hearing.',
+  'warning.dontShowAgain': 'Don’t show again (you will be asked again after updates)',
+  'warning.start': 'Understood – Start',
+
+  'highVolume.title': 'Warning: very high volume',
+  'highVolume.text': 'Very high volume (above 270%) can damage your hearing. Please reduce the volume carefully.',
+  'highVolume.advice': 'Even with hearing loss you should avoid extreme volumes.',
+
+  'dose.title': 'Daily sound dose reached',
+  'dose.text': 'You have already heard the recommended amount of sound for one day. Further loud listening can permanently damage your hearing.',
+  'dose.attenuated': 'The output has therefore been lowered by {db} dB.',
+  'dose.reduce': 'Please turn down the volume or take a listening break.',
+
+  'instructions.title': 'How to use Klangnah',
+  'instructions.safetyTitle': '❗ Important safety notice',
+  'instructions.safety': 'Always connect headphones to your device to avoid dangerous feedback.',
+  'instructions.headphonesTitle': '1. Connect headphones',
+  'instructions.headphones': 'Make sure your headphones are firmly connected to the device before starting the app.',
+  'instructions.startTitle': '2. Start the hearing aid',
+  'instructions.start': 'Click the "Understood – Start" button in the warning. Allow access to your microphone in the window that appears. To end the transmission, click "Stop hearing aid".',
+  'instructions.devices': 'Under “Audio devices” you choose the microphone and output (e.g. headset, USB microphone or Bluetooth headphones). The selection is saved with a profile. If the headphones are disconnected during use, Klangnah mutes automatically so that it does not whistle through the speaker.',
+  'instructions.latency': 'Under “Latency” you can see how much Klangnah delays the sound. A small delay matters so that lip movements and voice match. The “Lowest latency” setting shortens the delay but switches off noise reduction and compression. Saved measurements help you compare different headphones and microphones.',
+  'instructions.levelsTitle': '3. Amplification, level meter & balance',
+  'instructions.preAmp': '**Pre-amplification (pre-amp):** Especially on mobile devices the microphone signal is often quiet. The **level meter** above it shows the incoming signal in dBFS (0 dBFS is the highest level the device can process). The light bar shows the peaks, the strong one the average (RMS). Set the slider so that the peaks are roughly between −18 and −6 dBFS while speaking. If “Clipping” lights up, the signal is too loud and distorted; lower the pre-amp and tap the indicator to reset it. The “Limited” indicator at the output lights up when the hearing protection limiter steps in.',
+  'instructions.volume': '**Master volume:** Use this to set the final volume sent to your headphones. An increase up to 300% is possible, but be careful.',
+  'instructions.balance': '**Left-right balance:** If you hear worse on one ear, use this slider to shift the volume between the left and right headphone to compensate. Below it you set a separate level and an upper limit for each ear that the signal on that ear never exceeds.',
+  'instructions.eqTitle': '4. Using the equalizer',
+  'instructions.eq': 'Use the equalizer sliders to raise or lower individual frequency ranges. With “Both ears”, “Left” and “Right” you choose which ear the sliders apply to. The **spectrum** shows, on the same frequency axis as the equalizer, how loud each frequency range is – before or after the equalizer, or both on top of each other. This way you can “see” which frequencies are too loud or too quiet. The “History” (spectrogram) shows the sounds around you over the last few seconds as a colour image. The 125 Hz slider in particular helps to make up for missing bass on mobile devices.',
+  'instructions.eqLayouts': 'Under “Bands” you choose between 6 bands, 10 bands up to 8 kHz and fine third-octave bands up to 10 kHz. High-frequency hearing loss in particular can be compensated precisely with the finer layouts. When you switch, your setting is carried over to the new bands; older profiles adapt automatically as well. The curve above the sliders shows the overall effect of the equalizer. Under “Filters” you also find shelf filters that raise or lower all lows or highs together, and high- and low-pass filters that cut off rumble or hiss entirely.',
+  'instructions.noiseTitle': '5. Noise reduction and speech focus',
+  'instructions.noise': 'Noise reduction dampens steady sounds such as hum, fans or engine noise. Press “Learn background noise now” during a pause in speech so that Klangnah captures the current background noise. A high strength dampens more but can make speech sound slightly artificial.',
+  'instructions.focus': 'Speech focus brings out speech. Microphones with several channels, as in many laptops or USB microphone arrays, are aimed at the area in front of you; sounds from the side become quieter. Microphones with a single channel cannot do this – Klangnah then emphasises the onsets of consonants between 2 and 4 kHz, which often makes speech clearer than simply raising the treble in the equalizer. The card shows which of the two is currently active.',
+  'instructions.compressionTitle': '6. Dynamic compression',
+  'instructions.compression': 'Compression (WDRC) works in three frequency bands: quiet sounds such as distant speech are raised, loud ones such as slamming doors are softened. **Threshold** sets the level from which compression starts, **Ratio** how strong it is. **Attack** and **Release** determine how quickly compression kicks in and fades again.',
+  'instructions.protectionTitle': '7. Hearing protection',
+  'instructions.feedback': 'If Klangnah detects whistling caused by feedback, the volume is lowered briefly and a narrow notch filter is placed on the whistling frequency. You will then see a notice. After a while without whistling, the filters are released again.',
+  'instructions.dose': 'The limiter at the end of the signal chain makes sure the output never rises above the set **maximum level**. Klangnah also continuously estimates how much sound you have heard today (daily dose following the WHO recommendation: 80 dB for 40 hours per week). At 100 % you are warned or the output is turned down automatically. With **Calibration** you state how loud your headphones are at full scale; without a measurement the reading is only a guide.',
+  'instructions.profilesTitle': '8. Using profiles',
+  'instructions.profiles': 'Choose predefined profiles for common situations or save your own settings (including balance) for quick access.',
+  'instructions.profileManager': 'Under “Manage” you can rename your own profiles, overwrite them with the current settings, delete them (with the option to undo) and reorder them by dragging or with the arrow buttons. Predefined profiles can be copied into an editable profile. Favourites marked with a star appear as quick selection right below the profile selection.',
+  'instructions.crossfade': 'When switching profiles, Klangnah fades smoothly; you set the duration under “Crossfade”. “Control smoothing” determines how gently slider movements are applied so that no clicks occur. With “A/B comparison” you pick two profiles and switch between them practically without delay using the A and B buttons.',
+  'instructions.exchange': 'With “Export” you save profiles as a file or transfer them to another device via link or QR code; with “Import” you read them back in. If a profile with the same name already exists, you decide whether it is replaced, the new one renamed or skipped.',
+  'instructions.history': 'Under “History” you can see your daily wear time, the profiles you used and the average gain over the last weeks. Earlier settings can be restored there, and “Export as CSV” gives you a table you can hand to your audiologist.',
+  'instructions.hearingTestTitle': '9. Hearing test',
+  'instructions.hearingTest': 'The hearing test determines for each ear from which volume you hear the individual pitches. From this, Klangnah calculates a profile of your own using an established fitting rule (NAL-R or half gain). The audiogram is saved with the profile so that you can recalculate the fitting later with a different rule.',
+  'instructions.sceneTitle': '10. Environment detection',
+  'instructions.scene': 'Based on loudness, timbre and the share of speech, Klangnah can detect whether you are in a quiet environment, in a conversation, in a loud environment with speech, in traffic or listening to music. Choose which profile suits each environment. Klangnah then suggests the profile or switches automatically with a smooth crossfade. The “Minimum duration” states how long a new environment has to last before switching, so the profile does not jump back and forth all the time.',
+  'instructions.clipsTitle': '11. Recordings',
+  'instructions.clips': 'A profile for a restaurant is best adjusted while hearing the sounds there. Switch on the feature under “Recordings” and record short excerpts (up to one minute) while out and about. Only the unprocessed microphone signal is recorded. At home, use “Play” to send the recording through all settings instead of the microphone and adjust the profile at your leisure, also in the A/B comparison. You can import your own audio files too. Give recordings a meaningful name and delete them when you no longer need them.',
+  'instructions.offlineTitle': '12. Installation and offline use',
+  'instructions.offline': 'You can install Klangnah like an app: via “Install app” in the browser menu, or on the iPhone via “Share” → “Add to Home Screen”. After the first visit Klangnah also works without an internet connection. When a new version is available, a notice appears at the top; “Update” loads it. If the system interrupts audio output, for example during a call or when the device was briefly locked, Klangnah resumes processing on its own. You do not need to press “Start hearing aid” again.',
+  'instructions.controlsTitle': '13. Keyboard, headset and speech output',
+  'instructions.keyboard': 'You can control Klangnah with the keyboard instead of a mouse: **+** and **−** change the volume in steps of {step} %, **M** mutes and unmutes, **N** and **P** switch to the next or previous profile, **S** starts or stops the hearing aid. The buttons of a headset or headphones also mute (play/pause), switch the profile (next/previous track) and change the volume (fast forward and rewind). Which buttons arrive depends on the device and browser.',
+  'instructions.accessibility': 'Under “Controls” or with the “Large controls” button at the top right you switch on a view with strong contrast, large text, wide sliders and big minus and plus buttons. “Read out adjusted values” speaks every change, such as “Volume 120 %”. All sliders and messages can also be used with a screen reader.',
+  'instructions.languageTitle': '14. Language',
+  'instructions.language': 'Klangnah follows the language of your browser. With the language selection at the top right you can also choose the language yourself (German, English or Turkish); the choice is saved. The names of your own profiles stay unchanged.',
+  'instructions.generatorTitle': '15. Tinnitus relief',
+  'instructions.generator': 'A quiet noise can mask tinnitus and make it easier to fall asleep. White noise sounds bright, pink noise balanced and brown noise deep and soft; if you like, it slowly swells and ebbs like ocean waves. The level is independent of the volume. Switch off “Keep amplifying the microphone” to hear only the sound. The sleep timer slowly fades the sound out after the chosen time; if the microphone is muted, Klangnah stops afterwards.',
+  'instructions.generatorNotch': 'For notched noise, first use the comparison tone to set the pitch of your tinnitus. One octave around this frequency is then filtered out of the noise. The settings are saved with the profile. Discuss any tinnitus therapy with your ENT doctor.',
+  'instructions.remoteTitle': '16. Remote control by family',
+  'instructions.remote': 'Under “Remote control by family” you pair a second device, such as a family member’s smartphone. It scans the QR code and then shows a reply code, which you scan or paste on your device. The other person can then see your levels and change profile, volume, balance and equalizer – exactly as if you moved the sliders yourself. While the connection is active, a notice at the top of the page shows it; “Revoke access” ends it at any time.',
+  'instructions.quickStartTitle': '17. Quick start',
+  'instructions.quickStart': 'Klangnah remembers your last settings and profile, including unsaved changes. The next time you open it, the “Start with …” button starts the hearing aid with exactly these settings. Every start begins quietly and rises to the set volume within a few seconds. If you choose “Don’t show again” on the safety notice, it only appears again after the next update; under “Controls” you can turn it back on at any time.',
+  'instructions.tipsTitle': 'Additional tips:',
+  'instructions.tipSave': 'Use the "Save" function to keep your settings as a new profile.',
+  'instructions.tipVolume': 'A safety warning appears at volumes above 270%.',
+  'instructions.tipDose': 'Your dose history for the last days is kept even after closing the app.',
+  'instructions.tipUse': 'The app is intended as an everyday aid, e.g. with chronic middle ear infections, to understand conversations better.',
+  'instructions.disclaimerTitle': 'Disclaimer',
+  'instructions.disclaimer': 'This application serves as a hearing aid and does not replace professional medical advice or a medical hearing aid. If hearing problems persist, please consult an ENT doctor.',
+
+  'impressum.title': 'Legal notice',
+  'impressum.legal': 'Information according to § 5 TMG (German Telemedia Act)',
+  'impressum.contact': 'Contact:',
+  'impressum.phone': 'Phone',
+  'impressum.email': 'Email',
+
+  'privacy.title': 'Privacy policy',
+  'privacy.localTitle': 'Data processing on your device',
+  'privacy.local': 'This application was developed with a focus on maximum privacy. All core functions, in particular the processing of your audio, take place exclusively in real time on your device.',
+  'privacy.noRecording': '**No audio storage:** No audio from your microphone is recorded, stored or sent to external servers – unless you switch on “Allow recordings” and start a recording yourself.',
+  'privacy.clips': '**Recordings:** Recordings you start yourself and imported audio files are stored exclusively in your browser’s database (IndexedDB) on this device and are never uploaded. You can delete them individually at any time; they are also deleted when you remove the site data in your browser.',
+  'privacy.usage': '**Usage history:** When the hearing aid runs, which profiles and settings you use and the average levels are likewise stored only in your browser’s database, for at most one year. You can clear the history at any time or export it yourself as a CSV file.',
+  'privacy.remote': '**Remote control:** When pairing, the two devices connect directly via WebRTC in the local network, without a relay server. Only settings, profile names and levels are transmitted – never sound from the microphone.',
+  'privacy.settings': '**Local settings:** All settings you make, such as volume, equalizer values, saved profiles and the chosen language, are stored exclusively in the local storage of your web browser. This data does not leave your device.',
+  'privacy.export': '**Profile export:** Exported profiles (file, link or QR code) contain your settings and, where applicable, your audiogram. The data is contained entirely in the link itself and is not transmitted to a server. Only share links with people you want to entrust with this data.',
+  'privacy.offlineTitle': 'Offline use and fonts',
+  'privacy.offline': 'Klangnah does not load any content from third-party servers. The "Inter" font is shipped together with the app. On the first visit your browser stores all app files in its cache (service worker) so that Klangnah also works without an internet connection. Only program files are stored, no personal data.',
+
+  'hearingTest.title': 'Hearing test',
+  'hearingTest.intro': 'The hearing test plays short tones at different pitches for each ear. An audiogram is created from your answers, and a suitable profile is calculated from it.',
+  'hearingTest.tipRoom': 'Put on your headphones and find a quiet room.',
+  'hearingTest.tipVolume': 'Set the system volume to about 50 % and do not change it during the test.',
+  'hearingTest.tipAnswer': 'Answer “Heard” as soon as you perceive a tone – even if it is very quiet.',
+  'hearingTest.disclaimer': 'The test does not replace an examination by an ENT doctor or hearing care professional.',
+  'hearingTest.rule': 'Fitting rule',
+  'hearingTest.begin': 'Start test',
+  'hearingTest.step': 'Step {step} of {total}',
+  'hearingTest.playing': 'Playing tone …',
+  'hearingTest.question': 'Did you hear the tone?',
+  'hearingTest.notHeard': 'Not heard',
+  'hearingTest.heard': 'Heard',
+  'hearingTest.repeat': 'Repeat',
+  'hearingTest.resultTitle': 'Your audiogram',
+  'hearingTest.resultText': 'Hearing thresholds in dB HL. You can correct the values if needed, e.g. with the values from an audiogram by your hearing care professional.',
+  'hearingTest.thresholdAria': '{ear} {frequency} hearing threshold',
+  'hearingTest.discard': 'Discard',
+  'hearingTest.create': 'Create profile',
+  'fittingRule.nal-r': 'NAL-R',
+  'fittingRule.half-gain': 'Half gain',
+
+  'saveProfile.title': 'Save profile',
+  'saveProfile.current': 'Save the current settings in the profile “{name}”:',
+  'saveProfile.overwrite': 'Overwrite “{name}”',
+  'saveProfile.orNew': 'Or save as a new profile:',
+  'saveProfile.saveNew': 'Save as new profile',
+
+  'export.title': 'Export profiles',
+  'export.scope': 'What to export?',
+  'export.current': 'Current profile ({name})',
+  'export.library': 'All my profiles ({count})',
+  'export.text': 'Save the profiles as a file or transfer them to another device with the link or QR code. The data is not sent through a server.',
+  'export.tooLarge': 'Too much data for a QR code. Please use the file or the link.',
+  'export.qrAria': 'QR code for transferring the profiles',
+  'export.linkAria': 'Share link',
+  'export.download': 'Save as file',
+  'export.copy': 'Copy link',
+  'export.copied': 'Copied',
+  'export.libraryFileName': 'library',
+
+  'import.title': 'Import profiles',
+  'import.text': 'Choose a Klangnah profile file (.json) or paste a share code or link.',
+  'import.file': 'File',
+  'import.code': 'Code',
+  'import.codePlaceholder': 'KN2… or link',
+  'import.read': 'Read code',
+  'import.reviewTitle': 'Review import',
+  'import.invalidEntries': 'These entries are invalid and will not be imported:',
+  'import.nameExists': '– name already exists',
+  'import.resolutionAria': 'Action for {name}',
+  'import.add': 'Add',
+  'import.overwrite': 'Replace existing',
+  'import.skip': 'Skip',
+  'import.newNameAria': 'New name for {name}',
+  'import.confirm': 'Import',
+  'import.renameMissing': 'Please enter a name for every renamed profile.',
+  'import.nameTaken': 'The name “{name}” is already taken.',
+
+  'manager.title': 'Manage profiles',
+  'manager.empty': 'No profiles of your own yet. Save your settings or copy a predefined profile.',
+  'manager.favoriteAria': 'Mark {name} as favourite',
+  'manager.ok': 'OK',
+  'manager.load': 'Load profile',
+  'manager.moveUp': 'Move {name} up',
+  'manager.moveDown': 'Move {name} down',
+  'manager.overwrite': 'Overwrite',
+  'manager.overwriteTitle': 'Save the current settings in this profile',
+  'manager.predefined': 'Predefined profiles',
+  'manager.predefinedHint': 'Predefined profiles cannot be changed. Create a copy to adjust them.',
+  'manager.duplicate': 'Create copy',
+
+  'schema.notNumber': '{label} is missing or not a number.',
+  'schema.outOfRange': '{label} is outside {min} to {max}.',
+  'schema.missing': '{label} is missing.',
+  'schema.invalidFrequency': '{label}: {key} is not a valid frequency.',
+  'schema.invalid': '{label} is invalid.',
+  'schema.frequency': '{label} frequency',
+  'schema.gain': '{label} gain',
+  'schema.nameMissing': 'The name is missing.',
+  'schema.nameTooLong': 'The name is longer than 60 characters.',
+  'schema.preAmp': 'Pre-amp',
+  'schema.volume': 'Volume',
+  'schema.balance': 'Balance',
+  'schema.eqMissing': 'The equalizer is missing.',
+  'schema.eqLeft': 'Equalizer left',
+  'schema.eqRight': 'Equalizer right',
+  'schema.eqLayoutUnknown': 'The equalizer layout is unknown.',
+  'schema.eqFiltersInvalid': 'The equalizer filters are invalid.',
+  'schema.highPass': 'High-pass',
+  'schema.lowShelf': 'Low shelf',
+  'schema.highShelf': 'High shelf',
+  'schema.lowPass': 'Low-pass',
+  'schema.earsInvalid': 'The ear settings are invalid.',
+  'schema.earMissing': 'The settings for the {ear} ear are missing.',
+  'schema.left': 'left',
+  'schema.right': 'right',
+  'schema.earGain': 'Level {ear}',
+  'schema.earLimit': 'Limit {ear}',
+  'schema.compressionInvalid': 'The compression is invalid.',
+  'schema.bandInvalid': 'Compression band {band} is invalid.',
+  'schema.bandThreshold': 'Band {band} threshold',
+  'schema.bandRatio': 'Band {band} ratio',
+  'schema.bandAttack': 'Band {band} attack',
+  'schema.bandRelease': 'Band {band} release',
+  'schema.noiseReductionInvalid': 'The noise reduction is invalid.',
+  'schema.noiseReductionStrength': 'Noise reduction strength',
+  'schema.speechFocusInvalid': 'The speech focus is invalid.',
+  'schema.speechFocusStrength': 'Speech focus strength',
+  'schema.soundGeneratorInvalid': 'The tinnitus relief settings are invalid.',
+  'schema.soundGeneratorColor': 'The tinnitus relief sound is unknown.',
+  'schema.soundGeneratorLevel': 'Tinnitus relief level',
+  'schema.tinnitusFrequency': 'Tinnitus frequency',
+  'schema.audiogramInvalid': 'The audiogram is invalid.',
+  'schema.audiogramLeft': 'Audiogram left',
+  'schema.audiogramRight': 'Audiogram right',
+  'schema.fittingRuleUnknown': 'The fitting rule is unknown.',
+  'schema.favoriteInvalid': 'The favourite flag is invalid.',
+  'schema.entry': 'Entry {index}',
+  'schema.notAProfile': 'Entry {index}: not a profile.',
+  'schema.noProfiles': 'The data contains no profiles.',
+  'schema.newerVersion': 'The file comes from a newer version of Klangnah (format {version}). Please update the app.',
+  'schema.invalidJson': 'The file is not a valid Klangnah profile file (JSON).',
+  'schema.noDecompression': 'This browser cannot read compressed share codes.',
+  'schema.corruptCode': 'The share code is incomplete or damaged.',
+};
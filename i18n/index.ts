@@ -0,0 +1,70 @@
+import { de, MessageId, Messages } from './de';
+import { en } from './en';
+import { tr } from './tr';
+
+export type { MessageId } from './de';
+
+export type Locale = 'de' | 'en' | 'tr';
+
+export const SOURCE_LOCALE: Locale = 'de';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: 'de', label: 'Deutsch' },
+  { id: 'en', label: 'English' },
+  { id: 'tr', label: 'Türkçe' },
+];
+
+const CATALOGS: Record<Locale, Messages> = { de, en, tr };
+
+// Region used for number and date formatting when the browser names none for the language.
+const DEFAULT_TAGS: Record<Locale, string> = { de: 'de-DE', en: 'en-GB', tr: 'tr-TR' };
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && LOCALES.some(locale => locale.id === value);
+
+const browserLanguages = () =>
+  typeof navigator === 'undefined' ? [] : navigator.languages?.length ? navigator.languages : [navigator.language];
+
+const languageOf = (tag: string) => tag.toLowerCase().split('-')[0];
+
+/** First supported language among the browser's preferred languages. */
+export const detectLocale = (): Locale => {
+  for (const tag of browserLanguages()) {
+    const language = languageOf(tag);
+    if (isLocale(language)) return language;
+  }
+  return SOURCE_LOCALE;
+};
+
+/** BCP 47 tag for formatting and speech, keeping the user's region where it matches. */
+export const formattingTag = (locale: Locale) =>
+  browserLanguages().find(tag => tag && languageOf(tag) === locale) ?? DEFAULT_TAGS[locale];
+
+export type MessageParams = Record<string, string | number>;
+export type Translate = (id: MessageId, params?: MessageParams) => string;
+
+/** Looks up a message, falling back to German, and fills in `{name}` placeholders. */
+export const createTranslator = (locale: Locale): Translate => {
+  const catalog = CATALOGS[locale];
+  return (id, params) => {
+    const message = catalog[id] ?? de[id] ?? id;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+  };
+};
+
+/** A message in every supported language, e.g. to keep names unique whatever language is active. */
+export const allTranslations = (id: MessageId): string[] => LOCALES.map(locale => CATALOGS[locale.id][id]);
+
+export interface I18n {
+  locale: Locale;
+  /** BCP 47 tag for Intl formatting and speech synthesis. */
+  tag: string;
+  t: Translate;
+}
+
+export const createI18n = (locale: Locale): I18n => ({
+  locale,
+  tag: formattingTag(locale),
+  t: createTranslator(locale),
+});
@@ -0,0 +1,588 @@
+import { Messages } from './de';
+
+export const tr: Messages = {
+  'app.title': 'Klangnah',
+  'app.documentTitle': 'Klangnah - İşitme Yardımı',
+  'app.footer': '© 2025 Klangnah. Profesyonel bir işitme yardımı uygulaması.',
+
+  'common.close': 'Kapat',
+  'common.cancel': 'İptal',
+  'common.understood': 'Anladım',
+  'common.reset': 'Sıfırla',
+  'common.undo': 'Geri al',
+  'common.delete': 'Sil',
+  'common.rename': 'Yeniden adlandır',
+  'common.dismissNotice': 'Bildirimi kapat',
+  'common.profileName': 'Profil adı',
+  'common.enterName': 'Lütfen bir ad girin.',
+  'common.nameTaken': 'Bu adda bir profil zaten var.',
+  'common.leftEar': 'Sol kulak',
+  'common.rightEar': 'Sağ kulak',
+
+  'header.instructions': 'Kullanım kılavuzunu göster',
+  'header.largeControls': 'Büyük kontroller',
+  'header.theme': 'Temayı değiştir',
+  'header.language': 'Dil',
+
+  'notice.update': 'Klangnah’ın yeni bir sürümü mevcut.',
+  'notice.updateInterrupts': 'Güncelleme sırasında işitme yardımı kısa bir süre duraklar.',
+  'notice.updateApply': 'Güncelle',
+  'notice.later': 'Sonra',
+  'notice.audioInterrupted': 'Ses çıkışı sistem tarafından kesildi, örneğin bir arama nedeniyle. Klangnah mümkün olan en kısa sürede otomatik olarak devam eder – gerekirse sayfaya bir kez dokunun.',
+  'notice.feedback': '{frequencies} frekansında geri besleme algılandı ve bastırıldı. Kulaklığı daha sıkı takın veya mikrofondan uzak tutun.',
+  'notice.sceneSuggestion': '“{scene}” algılandı. “{profile}” profili yüklensin mi?',
+  'notice.sceneLoad': 'Yükle',
+  'notice.sceneDecline': 'Öneriyi reddet',
+  'notice.muted': 'Klangnah sessize alındı.',
+  'notice.unmute': 'Sesi aç',
+  'notice.remoteActive': 'Uzaktan kontrol etkin: Eşlenmiş bir cihaz profili, ses düzeyini, dengeyi ve ekolayzırı değiştirebilir.',
+
+  'device.micDisconnected': 'Mikrofonun bağlantısı kesildi. Klangnah artık varsayılan mikrofonu kullanıyor.',
+  'device.selectedMicDisconnected': 'Seçilen mikrofonun bağlantısı kesildi. Klangnah artık varsayılan mikrofonu kullanıyor.',
+  'device.micSwitchFailed': 'Mikrofon değiştirilemedi.',
+  'device.outputSelectFailed': 'Çıkış cihazı seçilemedi.',
+  'device.outputDisconnected': 'Ses çıkışının bağlantısı kesildi (ör. kulaklık çıkarıldı). Klangnah hoparlörden ıslık sesi çıkarmaması için sessize alındı.',
+  'error.microphone': 'Mikrofon erişimi reddedildi veya ses ayarları desteklenmiyor. Uygulama mikrofon olmadan çalışamaz.',
+  'error.clipPlayback': 'Kayıt oynatılamadı. Bu tarayıcı dosya biçimini desteklemiyor olabilir.',
+
+  'devices.title': 'Ses cihazları',
+  'devices.input': 'Mikrofon',
+  'devices.defaultInput': 'Varsayılan mikrofon',
+  'devices.output': 'Çıkış',
+  'devices.defaultOutput': 'Varsayılan çıkış',
+  'devices.outputFallback': 'Çıkış cihazı',
+  'devices.noOutputSelection': 'Bu tarayıcı çıkış cihazının seçilmesine izin vermiyor. Cihazı sistem ayarlarından seçin.',
+
+  'slider.aria': '{label} kaydırıcısı',
+  'slider.decrease': '{label} azalt',
+  'slider.increase': '{label} artır',
+  'slider.announce': '{label}: {value}',
+
+  'preAmp.title': 'Ön yükseltme (ön amfi)',
+  'preAmp.label': 'Ön amfi',
+  'volume.title': 'Ana ses düzeyi',
+  'volume.label': 'Ses düzeyi',
+  'volume.mute': 'Sessize al',
+  'volume.unmute': 'Sesi aç',
+
+  'meter.input': 'Giriş',
+  'meter.output': 'Çıkış',
+  'meter.peak': 'Tepe',
+  'meter.rms': 'RMS',
+  'meter.clipped': 'Aşırı yük',
+  'meter.limited': 'Sınırlandı',
+  'meter.resetTitle': 'Göstergeyi sıfırla',
+  'meter.clipActive': '{label} – göstergeyi sıfırla',
+  'meter.clipInactive': '{label} yok',
+  'meter.aria': '{label} dBFS cinsinden',
+
+  'balance.title': 'Sol-sağ dengesi',
+  'balance.label': 'Denge',
+  'balance.center': 'Orta',
+  'balance.left': 'Sol {value}',
+  'balance.right': 'Sağ {value}',
+  'ear.gain': 'Seviye {ear}',
+  'ear.limit': 'Sınır {ear}',
+  'ear.shortLeft': 'L',
+  'ear.shortRight': 'R',
+
+  'eq.title': 'Ekolayzır',
+  'eq.earGroup': 'Ekolayzırın uygulanacağı kulak',
+  'eq.both': 'İki kulak',
+  'eq.left': 'Sol',
+  'eq.right': 'Sağ',
+  'eq.layout': 'Bantlar',
+  'eq.filters': 'Filtreler (iki kulak)',
+  'eq.highPass': 'Yüksek geçiren (alçak uğultuyu kaldır)',
+  'eq.highPassFrom': 'Yüksek geçiren başlangıcı',
+  'eq.lowShelf': 'Alçak raf',
+  'eq.lowShelfUpTo': 'Baslar şu değere kadar',
+  'eq.lowShelfGain': 'Baslar',
+  'eq.highShelf': 'Yüksek raf',
+  'eq.highShelfFrom': 'Tizler şu değerden',
+  'eq.highShelfGain': 'Tizler',
+  'eq.lowPass': 'Alçak geçiren (cızırtı ve hışırtıyı kes)',
+  'eq.lowPassUpTo': 'Alçak geçiren sınırı',
+  'eq.responseCurve': 'Ekolayzırın frekans yanıtı',
+  'eqLayout.six': '6 bant',
+  'eqLayout.ten': '10 bant',
+  'eqLayout.third-octave': 'Üçte bir oktav bantları',
+
+  'spectrum.title': 'Spektrum',
+  'spectrum.signal': 'Sinyal',
+  'spectrum.pre': 'EQ öncesi',
+  'spectrum.post': 'EQ sonrası',
+  'spectrum.both': 'İkisi',
+  'spectrum.spectrogramToggle': 'Geçmiş (spektrogram)',
+  'spectrum.bothHint': 'Soluk: ekolayzırdan önce, belirgin: ekolayzırdan sonra.',
+  'spectrum.spectrumAria': 'dBFS cinsinden frekans spektrumu',
+  'spectrum.spectrogramAria': 'Spektrogram',
+
+  'clips.title': 'Kayıtlar',
+  'clips.hint': 'Bir yerden, örneğin bir restorandan kısa kesitler kaydedin ve profilinizi daha sonra evde bunlarla ince ayarlayın. Kayıtlar yalnızca bu cihazda saklanır.',
+  'clips.allow': 'Kayıtlara izin ver',
+  'clips.playingNotice': 'Mikrofon yerine bir kayıt dinliyorsunuz.',
+  'clips.unsupported': 'Bu tarayıcı kayıtları yerel olarak saklayamıyor.',
+  'clips.loadError': 'Kaydedilen kayıtlar yüklenemedi.',
+  'clips.saveError': 'Kayıt saklanamadı. Depolama alanı dolu olabilir.',
+  'usage.title': 'Kullanım geçmişi',
+  'usage.hint': 'Klangnah yalnızca bu cihazda; işitme cihazının ne zaman çalıştığını, hangi profilin etkin olduğunu, ses düzeyi, ön yükseltici ve ekolayzerdeki değişiklikleri ve ortalama seviyeleri kaydeder. Ses kaydı yapılmaz.',
+  'usage.unsupported': 'Bu tarayıcı geçmişi kaydedemiyor.',
+  'usage.loadError': 'Geçmiş yüklenemedi.',
+  'usage.exportError': 'Geçmiş dışa aktarılamadı.',
+  'usage.clearError': 'Geçmiş silinemedi.',
+  'usage.days': 'Son {days} gün',
+  'usage.empty': 'Henüz kayıt yok.',
+  'usage.date': 'Tarih',
+  'usage.wearTime': 'Kullanım süresi',
+  'usage.gain': 'Ort. kazanç',
+  'usage.profiles': 'Profiller',
+  'usage.snapshots': 'Önceki ayarlar',
+  'usage.snapshotsHint': 'Önceki bir ayara dönmek için “Geri yükle”yi kullanın.',
+  'usage.snapshotValues': 'ses düzeyi %{volume}, ön yükseltici %{preAmp}',
+  'usage.restore': 'Geri yükle',
+  'usage.export': 'CSV olarak dışa aktar',
+  'usage.fileName': 'gecmis',
+  'usage.clear': 'Geçmişi sil',
+  'usage.confirmClear': 'Tüm kullanım geçmişi silinsin mi?',
+  'usage.csvTime': 'Zaman',
+  'usage.csvSession': 'Oturum',
+  'usage.csvEvent': 'Olay',
+  'usage.csvProfile': 'Profil',
+  'usage.csvVolume': 'Ses düzeyi (%)',
+  'usage.csvPreAmp': 'Ön yükseltici (%)',
+  'usage.csvEqLeft': 'EQ sol (Hz:dB)',
+  'usage.csvEqRight': 'EQ sağ (Hz:dB)',
+  'usage.csvSeconds': 'Süre (sn)',
+  'usage.csvInput': 'Giriş seviyesi (dBFS)',
+  'usage.csvOutput': 'Çıkış seviyesi (dBFS)',
+  'usage.event.start': 'Başlat',
+  'usage.event.stop': 'Durdur',
+  'usage.event.profile': 'Profil değişikliği',
+  'usage.event.settings': 'Ayar',
+  'usage.event.levels': 'Seviyeler',
+  'clips.deleteError': 'Kayıt silinemedi.',
+  'clips.record': '● Kaydet',
+  'clips.stopRecording': '■ Durdur ({elapsed} / {max})',
+  'clips.import': 'Ses dosyası içe aktar',
+  'clips.startHint': 'Kayıt yapmak veya kayıtları oynatmak için Klangnah’ı başlatın.',
+  'clips.recording': 'Kayıt sürüyor – yalnızca mikrofon sinyali, işlenmeden.',
+  'clips.loop': 'Döngüde oynat',
+  'clips.labelAria': 'Kaydın adı',
+  'clips.originImport': 'Dosya',
+  'clips.originRecording': 'Kayıt',
+  'clips.play': 'Oynat',
+  'clips.stop': 'Durdur',
+  'clips.confirmDelete': '“{label}” kalıcı olarak silinsin mi?',
+  'clips.defaultLabel': 'Kayıt {date} {time}',
+
+  'noise.title': 'Gürültü azaltma',
+  'noise.enable': 'Sürekli arka plan gürültüsünü azalt (uğultu, fan)',
+  'noise.strength': 'Güç',
+  'noise.learn': 'Arka plan gürültüsünü şimdi öğren',
+  'noise.learning': 'Lütfen kısa bir süre sessiz kalın – arka plan gürültüsü öğreniliyor …',
+  'noise.learned': 'Arka plan gürültüsü öğrenildi.',
+  'noise.unsupported': 'Bu tarayıcı gürültü azaltmayı desteklemiyor (AudioWorklet gerekli).',
+  'focus.title': 'Konuşma odağı',
+  'focus.enable': 'Önden gelen konuşmayı öne çıkar',
+  'focus.strength': 'Güç',
+  'focus.directional': 'Yönlülük etkin: mikrofon {channels} kanal sağlıyor, önden gelen ses tercih ediliyor.',
+  'focus.mono': 'Bu mikrofon yalnızca tek kanal sağlıyor ve yönlü çalışamıyor. Bunun yerine 2 ile 4 kHz arasındaki ünsüzler vurgulanıyor.',
+  'focus.unknown': 'Mikrofonun yönlülüğü destekleyip desteklemediği başlatıldıktan sonra gösterilir.',
+  'generator.title': 'Tinnitus rahatlatma',
+  'generator.enable': 'Rahatlatıcı ses çal',
+  'generator.color': 'Ses',
+  'generator.white': 'Beyaz gürültü',
+  'generator.pink': 'Pembe gürültü',
+  'generator.brown': 'Kahverengi gürültü',
+  'generator.level': 'Seviye',
+  'generator.ocean': 'Okyanus dalgaları gibi yavaşça yükselip alçalsın',
+  'generator.microphone': 'Mikrofonu yükseltmeye devam et',
+  'generator.microphoneOff': 'Mikrofon sessize alındı, yalnızca sesi duyarsınız.',
+  'generator.sleepTimer': 'Uyku zamanlayıcısı',
+  'generator.sleepOff': 'Kapalı',
+  'generator.sleepMinutes': '{minutes} dakika',
+  'generator.sleepUntil': 'Ses {time} saatinde yavaşça kısılır.',
+  'generator.tinnitusTitle': 'Tinnitus frekansı',
+  'generator.frequency': 'Frekans',
+  'generator.matchHint': 'Karşılaştırma tonunu çalın ve tinnitusunuz kadar tiz gelene kadar kaydırıcıyı hareket ettirin.',
+  'generator.matchStart': 'Karşılaştırma tonunu çal',
+  'generator.matchStop': 'Karşılaştırma tonunu durdur',
+  'generator.matchStopped': 'Karşılaştırma tonu başlatıldıktan sonra kullanılabilir.',
+  'generator.notch': 'Tinnitus frekansı çevresindeki bir oktavı dışarıda bırak (çentikli gürültü)',
+  'generator.safety': 'Ses çıkış sınırlayıcısından geçer ve günlük doza dahil edilir.',
+  'remote.title': 'Yakınlar tarafından uzaktan kontrol',
+  'remote.hint': 'Güvendiğiniz bir kişi akıllı telefonunda seviyeleri görebilir ve profil, ses düzeyi, denge ve ekolayzırı ayarlayabilir. İki cihaz da aynı Wi-Fi ağında olmalıdır. Hiçbir ses aktarılmaz.',
+  'remote.pair': 'Cihaz eşle',
+  'remote.revoke': 'Erişimi geri al',
+  'remote.unsupported': 'Bu tarayıcı cihazlar arasında doğrudan bağlantıyı desteklemiyor.',
+  'remote.pairTitle': 'Cihaz eşle',
+  'remote.pairStep1': '1. Bu QR kodunu yardım eden kişinin cihazıyla tarayın veya bağlantıyı ona gönderin.',
+  'remote.pairStep2': '2. Diğer cihaz ardından bir yanıt kodu gösterir. Bu kodu tarayın veya buraya yapıştırın.',
+  'remote.pairHint': 'Bağlantı, sunucu olmadan doğrudan iki cihaz arasında kurulur. Yalnızca ayarlar ve seviyeler aktarılır, asla ses aktarılmaz.',
+  'remote.preparing': 'Eşleme kodu hazırlanıyor …',
+  'remote.qrAria': 'Eşleme için QR kodu',
+  'remote.linkAria': 'Eşleme bağlantısı',
+  'remote.answer': 'Yanıt kodu',
+  'remote.connect': 'Bağlan',
+  'remote.scan': 'Kamerayla tara',
+  'remote.invalidAnswer': 'Bu, bu eşleme için geçerli bir yanıt kodu değil.',
+  'remote.invalidCode': 'Bu geçerli bir eşleme kodu değil.',
+  'remote.connectError': 'Bağlantı kurulamadı.',
+  'remote.pairingClosed': 'Bağlantı başarısız oldu. İki cihaz da aynı Wi-Fi ağında mı? Eşlemeyi yeniden başlatın.',
+  'remote.connectedAnnounce': 'Uzaktan kontrol bağlandı.',
+  'remote.endedAnnounce': 'Uzaktan kontrol sona erdi.',
+  'remote.revokedAnnounce': 'Erişim geri alındı.',
+  'remote.caregiverTitle': 'Başka bir cihazı kontrol et',
+  'remote.enterCode': 'Dinleyen kişinin cihazındaki eşleme kodunu veya bağlantıyı girin.',
+  'remote.code': 'Eşleme kodu',
+  'remote.join': 'Bağlan',
+  'remote.showAnswer': 'Taraması için bu yanıt kodunu diğer cihaza gösterin veya metin olarak gönderin.',
+  'remote.waiting': 'Bağlandı, ayarlar bekleniyor …',
+  'remote.running': 'İşitme cihazı çalışıyor.',
+  'remote.stopped': 'İşitme cihazı durduruldu. Ayarlar bir sonraki başlatmada geçerli olur.',
+  'remote.revoked': 'Erişim diğer cihazda sonlandırıldı.',
+  'remote.disconnected': 'Bağlantı kesildi.',
+  'remote.disconnect': 'Bağlantıyı kes',
+  'scanner.preview': 'QR kodunu taramak için kamera görüntüsü',
+  'scanner.cameraError': 'Kamera açılamadı. Bunun yerine kodu yapıştırın.',
+  'latency.title': 'Gecikme',
+  'latency.mode': 'İşleme',
+  'latency.modeInteractive': 'Normal',
+  'latency.modeLowest': 'En düşük gecikme',
+  'latency.modeHint': '“En düşük gecikme” modunda Klangnah en küçük ses arabelleğini ve mikrofonun örnekleme hızını kullanır. Gürültü azaltma ve dinamik sıkıştırma kapatılır. Ses kesilir veya cızırdarsa yeniden “Normal”i seçin.',
+  'latency.restartNeeded': 'Yeni ayar, işitme cihazının bir sonraki başlatılmasından itibaren geçerlidir.',
+  'latency.restart': 'Şimdi yeniden başlat',
+  'latency.input': 'Mikrofon',
+  'latency.base': 'Ses arabelleği',
+  'latency.processing': 'İşleme',
+  'latency.output': 'Çıkış',
+  'latency.estimate': 'Toplam (tahmini)',
+  'latency.sampleRate': 'Örnekleme hızı',
+  'latency.loopbackHint': 'Kesin bir ölçüm için Klangnah sessiz tıklamalar çalar ve mikrofonun bunları duymasını bekler. Bunun için bir kulaklığı doğrudan mikrofona tutun. Ölçüm sırasında işitme cihazı sessizdir.',
+  'latency.loopback': 'Tıklamayla ölç',
+  'latency.loopbackShort': 'Tıklama',
+  'latency.measuring': 'Ölçülüyor …',
+  'latency.notHeard': 'Mikrofon tıklamayı duymadı. Kulaklığı mikrofona daha yakın tutun.',
+  'latency.loopbackResult': 'Ölçülen toplam gecikme: {value}',
+  'latency.save': 'Ölçümü kaydet',
+  'latency.stopped': 'Değerler işitme cihazı çalışır çalışmaz görünür.',
+  'latency.history': 'Kaydedilen ölçümler',
+  'latency.date': 'Tarih',
+  'latency.devices': 'Cihazlar',
+  'latency.clear': 'Listeyi temizle',
+  'noise.lowLatency': '“En düşük gecikme” modunda gürültü azaltma kapalıdır.',
+  'compression.lowLatency': '“En düşük gecikme” modunda sıkıştırma kapalıdır.',
+
+  'compression.title': 'Dinamik sıkıştırma (WDRC)',
+  'compression.enable': 'Sessiz sesleri yükselt, yüksek sesleri yumuşat',
+  'compression.low': 'Bas',
+  'compression.mid': 'Orta',
+  'compression.high': 'Tiz',
+  'compression.threshold': 'Eşik',
+  'compression.ratio': 'Oran',
+  'compression.attack': 'Atak',
+  'compression.release': 'Bırakma',
+
+  'protection.title': 'İşitme koruması',
+  'protection.maximum': 'Maksimum',
+  'protection.calibration': 'Kalibrasyon',
+  'protection.outputLevel': 'Çıkış seviyesi (tahmini):',
+  'protection.dose': 'Günlük doz:',
+  'protection.doseAria': 'Kullanılan günlük doz',
+  'protection.doseAction': 'Günlük doza ulaşıldığında',
+  'protection.warn': 'Yalnızca uyar',
+  'protection.attenuate': 'Otomatik olarak kıs ({db} dB)',
+  'protection.feedback': 'Geri beslemeyi (ıslık) otomatik olarak bastır',
+  'protection.notches': 'Etkin çentik filtreleri: {frequencies}',
+
+  'profile.default': 'Standart',
+  'profile.custom': 'Özel',
+  'profile.conversation': 'Sohbet',
+  'profile.tv': 'Televizyon',
+  'profile.street': 'Sokak',
+
+  'profiles.title': 'Profiller',
+  'profiles.select': 'Profil seç',
+  'profiles.predefined': 'Hazır profiller',
+  'profiles.mine': 'Profillerim',
+  'profiles.save': 'Kaydet',
+  'profiles.manage': 'Yönet',
+  'profiles.hearingTest': 'İşitme testi',
+  'profiles.export': 'Dışa aktar',
+  'profiles.import': 'İçe aktar',
+  'profiles.favorites': 'Favoriler',
+  'profiles.deleted': '“{name}” profili silindi.',
+  'profiles.abCompare': 'A/B karşılaştırması',
+  'profiles.abProfile': 'Profil {side}',
+  'profiles.crossfade': 'Geçiş süresi',
+  'profiles.smoothing': 'Kontrol yumuşatma',
+  'profiles.hearingTestFrom': '{date} tarihli işitme testi',
+  'profiles.fittingRule': 'Uyarlama kuralı seç',
+  'profiles.refit': 'Yeniden hesapla',
+  'profiles.history': 'Geçmiş',
+  'profiles.copyName': '{name} (kopya)',
+
+  'scene.title': 'Ortam algılama',
+  'scene.enable': 'Ortamı algıla ve uygun profili seç',
+  'scene.detected': 'Algılanan: {scene}',
+  'scene.analysing': 'Ortam analiz ediliyor …',
+  'scene.mode': 'Ortam değiştiğinde',
+  'scene.suggest': 'Profil öner',
+  'scene.auto': 'Profili otomatik değiştir',
+  'scene.hold': 'Asgari süre',
+  'scene.keepProfile': 'Profili koru',
+  'scene.quiet': 'Sessiz',
+  'scene.speech': 'Sohbet',
+  'scene.speech-in-noise': 'Gürültüde konuşma',
+  'scene.traffic': 'Trafik',
+  'scene.music': 'Müzik',
+
+  'controls.title': 'Kullanım',
+  'controls.largeControls': 'Büyük, yüksek kontrastlı kontroller',
+  'controls.spokenFeedback': 'Ayarlanan değerleri sesli oku',
+  'controls.noSpeech': 'Bu tarayıcı sesli okumayı desteklemiyor.',
+  'controls.shortcuts': 'Klavye kısayolları',
+  'controls.shortcutVolume': 'Ses düzeyini %{step} değiştir',
+  'controls.shortcutMute': 'Sessize al / sesi aç',
+  'controls.shortcutProfile': 'Sonraki / önceki profil',
+  'controls.shortcutStart': 'İşitme yardımını başlat / durdur',
+  'controls.warningAcknowledged': 'Güvenlik uyarısı {date} tarihinde onaylandı.',
+  'controls.showWarningAgain': 'Uyarıyı yeniden göster',
+
+  'announce.volume': 'Ses düzeyi %{value}',
+  'announce.muted': 'Sessize alındı',
+  'announce.unmuted': 'Ses açık',
+  'announce.profile': 'Profil {name}',
+  'announce.stopped': 'İşitme yardımı durduruldu',
+  'announce.starting': 'İşitme yardımı başlatılıyor',
+
+  'stop.button': 'İşitme yardımını durdur',
+  'stopped.title': 'Durduruldu',
+  'stopped.text': 'İşitme yardımı şu anda etkin değil.',
+  'stopped.start': 'İşitme yardımını başlat',
+  'stopped.hearingTest': 'İşitme testi yap',
+  'stopped.remote': 'Başka bir cihazı kontrol et',
+  'stopped.quickStart': '„{profile}“ ile başlat',
+  'stopped.quickStartHint': 'Son ayarlarınızla, ses düzeyi %{volume}. Ses ilk saniyelerde yavaşça yükselir.',
+
+  'footer.impressum': 'Künye',
+  'footer.privacy': 'Gizlilik',
+
+  'warning.title': 'Önemli uyarı',
+  'warning.headphones': 'Geri beslemeyi önlemek için Klangnah’ı başlatmadan önce mutlaka kulaklık bağlayın!',
+  'warning.feedback': 'Kulaklık olmadan işitmenize zarar verebilecek yüksek geri besleme oluşabilir.',
+  'warning.dontShowAgain': 'Bir daha gösterme (güncellemelerden sonra yeniden sorulur)',
+  'warning.start': 'Anladım – Başlat',
+
+  'highVolume.title': 'Uyarı: çok yüksek ses düzeyi',
+  'highVolume.text': 'Çok yüksek ses düzeyi (%270 üzeri) işitmenize zarar verebilir. Lütfen ses düzeyini dikkatlice azaltın.',
+  'highVolume.advice': 'İşitme kaybınız olsa bile aşırı ses düzeylerinden kaçının.',
+
+  'dose.title': 'Günlük ses dozuna ulaşıldı',
+  'dose.text': 'Bir gün için önerilen ses miktarını zaten dinlediniz. Yüksek sesle dinlemeye devam etmek işitmenize kalıcı zarar verebilir.',
+  'dose.attenuated': 'Bu nedenle çıkış {db} dB azaltıldı.',
+  'dose.reduce': 'Lütfen ses düzeyini azaltın veya dinlemeye ara verin.',
+
+  'instructions.title': 'Klangnah kullanım kılavuzu',
+  'instructions.safetyTitle': '❗ Önemli güvenlik uyarısı',
+  'instructions.safety': 'Tehlikeli geri beslemeyi önlemek için cihazınıza her zaman kulaklık bağlayın.',
+  'instructions.headphonesTitle': '1. Kulaklığı bağlayın',
+  'instructions.headphones': 'Uygulamayı başlatmadan önce kulaklığınızın cihaza sıkıca bağlı olduğundan emin olun.',
+  'instructions.startTitle': '2. İşitme yardımını başlatın',
+  'instructions.start': 'Uyarıdaki "Anladım – Başlat" düğmesine tıklayın. Açılan pencerede mikrofonunuza erişime izin verin. Aktarımı bitirmek için "İşitme yardımını durdur" düğmesine tıklayın.',
+  'instructions.devices': '“Ses cihazları” altında mikrofonu ve çıkışı seçersiniz (ör. kulaklıklı mikrofon, USB mikrofon veya Bluetooth kulaklık). Seçim bir profille birlikte kaydedilir. Kulaklığın bağlantısı kullanım sırasında kesilirse, Klangnah hoparlörden ıslık sesi çıkmaması için otomatik olarak sessize alınır.',
+  'instructions.latency': '“Gecikme” bölümünde Klangnah’ın sesi ne kadar geciktirdiğini görürsünüz. Dudak hareketleriyle sesin uyuşması için gecikmenin küçük olması önemlidir. “En düşük gecikme” ayarı gecikmeyi kısaltır, ancak gürültü azaltmayı ve sıkıştırmayı kapatır. Kaydedilen ölçümler farklı kulaklık ve mikrofonları karşılaştırmanıza yardımcı olur.',
+  'instructions.levelsTitle': '3. Yükseltme, seviye göstergesi ve denge',
+  'instructions.preAmp': '**Ön yükseltme (ön amfi):** Özellikle mobil cihazlarda mikrofon sinyali çoğu zaman zayıftır. Üstteki **seviye göstergesi** gelen sinyali dBFS cinsinden gösterir (0 dBFS, cihazın işleyebileceği en yüksek seviyedir). Açık çubuk tepe değerlerini, koyu çubuk ortalamayı (RMS) gösterir. Kaydırıcıyı, konuşurken tepe değerleri yaklaşık −18 ile −6 dBFS arasında olacak şekilde ayarlayın. “Aşırı yük” yanarsa sinyal çok yüksek ve bozulmuştur; ön amfiyi azaltın ve göstergeye dokunarak sıfırlayın. Çıkıştaki “Sınırlandı” göstergesi, işitme koruması sınırlayıcısı devreye girdiğinde yanar.',
+  'instructions.volume': '**Ana ses düzeyi:** Bununla kulaklığınıza giden son ses düzeyini ayarlarsınız. %300’e kadar artış mümkündür, ancak dikkatli olun.',
+  'instructions.balance': '**Sol-sağ dengesi:** Bir kulağınızla daha kötü duyuyorsanız, bu kaydırıcıyla ses düzeyini sol ve sağ kulaklık arasında kaydırarak bunu dengeleyebilirsiniz. Altında her kulak için ayrı bir seviye ve o kulaktaki sinyalin asla aşmayacağı bir üst sınır ayarlarsınız.',
+  'instructions.eqTitle': '4. Ekolayzırı kullanma',
+  'instructions.eq': 'Ekolayzır kaydırıcılarıyla tek tek frekans aralıklarını yükseltebilir veya azaltabilirsiniz. “İki kulak”, “Sol” ve “Sağ” ile kaydırıcıların hangi kulağa uygulanacağını seçersiniz. **Spektrum**, ekolayzırla aynı frekans ekseninde her frekans aralığının ne kadar yüksek olduğunu gösterir – ekolayzırdan önce, sonra veya ikisi üst üste. Böylece hangi frekansların çok yüksek veya çok sessiz olduğunu “görebilirsiniz”. “Geçmiş” (spektrogram), son birkaç saniyedeki çevre seslerini renkli bir görüntü olarak gösterir. Özellikle 125 Hz kaydırıcısı, mobil cihazlarda eksik basları telafi etmeye yardımcı olur.',
+  'instructions.eqLayouts': '“Bantlar” altında 6 bant, 8 kHz’e kadar 10 bant ve 10 kHz’e kadar ince üçte bir oktav bantları arasında seçim yaparsınız. Özellikle yüksek frekanslardaki işitme kaybı daha ince düzenlerle tam olarak telafi edilebilir. Geçiş yaptığınızda ayarınız yeni bantlara aktarılır; eski profiller de otomatik olarak uyarlanır. Kaydırıcıların üstündeki eğri ekolayzırın toplam etkisini gösterir. “Filtreler” altında ayrıca tüm basları veya tizleri birlikte yükselten ya da azaltan raf filtreleri ve uğultuyu veya hışırtıyı tamamen kesen yüksek ve alçak geçiren filtreler bulunur.',
+  'instructions.noiseTitle': '5. Gürültü azaltma ve konuşma odağı',
+  'instructions.noise': 'Gürültü azaltma; uğultu, fan veya motor sesi gibi sürekli sesleri bastırır. Klangnah’ın mevcut arka plan gürültüsünü kaydetmesi için konuşma arasında “Arka plan gürültüsünü şimdi öğren” düğmesine basın. Yüksek güç daha fazla bastırır, ancak konuşmayı biraz yapay duyurabilir.',
+  'instructions.focus': 'Konuşma odağı konuşmayı öne çıkarır. Birçok dizüstü bilgisayardaki veya USB mikrofon dizisindeki gibi birden fazla kanallı mikrofonlar önünüzdeki alana yöneltilir; yanlardan gelen sesler azalır. Tek kanallı mikrofonlarda bu mümkün değildir – Klangnah bu durumda 2 ile 4 kHz arasındaki ünsüzlerin başlangıçlarını vurgular; bu, ekolayzerde tizleri yükseltmekten çoğu zaman daha net bir konuşma sağlar. Kart, ikisinden hangisinin etkin olduğunu gösterir.',
+  'instructions.compressionTitle': '6. Dinamik sıkıştırma',
+  'instructions.compression': 'Sıkıştırma (WDRC) üç frekans bandında çalışır: uzaktaki konuşma gibi sessiz sesler yükseltilir, çarpan kapılar gibi yüksek sesler yumuşatılır. **Eşik**, sıkıştırmanın hangi seviyeden başlayacağını, **Oran** ne kadar güçlü olacağını belirler. **Atak** ve **Bırakma**, sıkıştırmanın ne kadar hızlı devreye girip tekrar azalacağını belirler.',
+  'instructions.protectionTitle': '7. İşitme koruması',
+  'instructions.feedback': 'Klangnah geri beslemeden kaynaklanan bir ıslık algılarsa, ses düzeyi kısa süreliğine azaltılır ve ıslık frekansına dar bir çentik filtresi yerleştirilir. Ardından bir bildirim görürsünüz. Bir süre ıslık olmazsa filtreler yeniden kaldırılır.',
+  'instructions.dose': 'Sinyal zincirinin sonundaki sınırlayıcı, çıkışın ayarlanan **maksimum seviyenin** üzerine asla çıkmamasını sağlar. Klangnah ayrıca bugün ne kadar ses duyduğunuzu sürekli olarak tahmin eder (DSÖ önerisine göre günlük doz: haftada 40 saat 80 dB). %100’de uyarılırsınız veya çıkış otomatik olarak azaltılır. **Kalibrasyon** ile kulaklığınızın tam seviyede ne kadar yüksek olduğunu belirtirsiniz; ölçüm olmadan değer yalnızca yol göstericidir.',
+  'instructions.profilesTitle': '8. Profilleri kullanma',
+  'instructions.profiles': 'Sık karşılaşılan durumlar için hazır profilleri seçin veya hızlı erişim için kendi ayarlarınızı (denge dahil) kaydedin.',
+  'instructions.profileManager': '“Yönet” altında kendi profillerinizi yeniden adlandırabilir, mevcut ayarlarla üzerine yazabilir, silebilir (geri alma seçeneğiyle) ve sürükleyerek veya ok düğmeleriyle sıralayabilirsiniz. Hazır profiller düzenlenebilir bir profile kopyalanabilir. Yıldızla işaretlenen favoriler, profil seçiminin hemen altında hızlı seçim olarak görünür.',
+  'instructions.crossfade': 'Profil değiştirirken Klangnah yumuşak bir geçiş yapar; süresini “Geçiş süresi” altında ayarlarsınız. “Kontrol yumuşatma”, kaydırıcı hareketlerinin ne kadar yumuşak uygulanacağını belirler, böylece tıklama sesi oluşmaz. “A/B karşılaştırması” ile iki profil seçer ve A ve B düğmeleriyle aralarında neredeyse gecikmesiz geçiş yaparsınız.',
+  'instructions.exchange': '“Dışa aktar” ile profilleri dosya olarak kaydeder veya bağlantı ya da QR kodu ile başka bir cihaza aktarırsınız; “İçe aktar” ile geri okursunuz. Aynı adda bir profil zaten varsa, değiştirilmesine, yenisinin yeniden adlandırılmasına veya atlanmasına siz karar verirsiniz.',
+  'instructions.history': '“Geçmiş” bölümünde son haftalardaki günlük kullanım sürenizi, kullandığınız profilleri ve ortalama kazancı görürsünüz. Önceki ayarlar oradan geri yüklenebilir; “CSV olarak dışa aktar” ile odyoloğunuza verebileceğiniz bir tablo elde edersiniz.',
+  'instructions.hearingTestTitle': '9. İşitme testi',
+  'instructions.hearingTest': 'İşitme testi, her kulak için tek tek perdeleri hangi ses düzeyinden itibaren duyduğunuzu belirler. Klangnah bundan yerleşik bir uyarlama kuralıyla (NAL-R veya yarım kazanç) size özel bir profil hesaplar. Odyogram profille birlikte kaydedilir, böylece uyarlamayı daha sonra başka bir kuralla yeniden hesaplayabilirsiniz.',
+  'instructions.sceneTitle': '10. Ortam algılama',
+  'instructions.scene': 'Ses yüksekliği, tını ve konuşma payına göre Klangnah; sessiz bir ortamda, bir sohbette, konuşmanın olduğu gürültülü bir ortamda, trafikte mi olduğunuzu ya da müzik mi dinlediğinizi algılayabilir. Her ortama hangi profilin uyduğunu seçin. Klangnah ardından profili önerir veya yumuşak bir geçişle otomatik olarak değiştirir. “Asgari süre”, profilin sürekli değişmemesi için yeni bir ortamın geçişten önce ne kadar sürmesi gerektiğini belirtir.',
+  'instructions.clipsTitle': '11. Kayıtlar',
+  'instructions.clips': 'Bir restoran profili en iyi oradaki sesleri duyarken ayarlanır. “Kayıtlar” altında özelliği açın ve dışarıdayken kısa kesitler (en fazla bir dakika) kaydedin. Yalnızca işlenmemiş mikrofon sinyali kaydedilir. Evde “Oynat” ile kaydı mikrofon yerine tüm ayarlardan geçirin ve profili rahatça, A/B karşılaştırmasında da ayarlayın. Kendi ses dosyalarınızı da içe aktarabilirsiniz. Kayıtlara anlamlı bir ad verin ve artık ihtiyacınız olmadığında silin.',
+  'instructions.offlineTitle': '12. Kurulum ve çevrimdışı kullanım',
+  'instructions.offline': 'Klangnah’ı bir uygulama gibi kurabilirsiniz: tarayıcı menüsündeki “Uygulamayı yükle” ile veya iPhone’da “Paylaş” → “Ana Ekrana Ekle” ile. İlk ziyaretten sonra Klangnah internet bağlantısı olmadan da çalışır. Yeni bir sürüm mevcut olduğunda üstte bir bildirim görünür; “Güncelle” onu yükler. Sistem ses çıkışını, örneğin bir arama sırasında veya cihaz kısa süre kilitlendiğinde keserse, Klangnah işlemeye kendiliğinden devam eder. “İşitme yardımını başlat” düğmesine yeniden basmanız gerekmez.',
+  'instructions.controlsTitle': '13. Klavye, kulaklık ve sesli okuma',
+  'instructions.keyboard': 'Klangnah’ı fare yerine klavyeyle de kontrol edebilirsiniz: **+** ve **−** ses düzeyini %{step} adımlarla değiştirir, **M** sessize alır ve sesi açar, **N** ve **P** sonraki veya önceki profile geçer, **S** işitme yardımını başlatır veya durdurur. Kulaklığın düğmeleri de sessize alır (oynat/duraklat), profili değiştirir (sonraki/önceki parça) ve ses düzeyini değiştirir (ileri ve geri sarma). Hangi düğmelerin çalıştığı cihaza ve tarayıcıya bağlıdır.',
+  'instructions.accessibility': '“Kullanım” altında veya sağ üstteki “Büyük kontroller” düğmesiyle güçlü kontrastlı, büyük yazılı, geniş kaydırıcılı ve büyük eksi ve artı düğmeli bir görünümü açarsınız. “Ayarlanan değerleri sesli oku”, “Ses düzeyi %120” gibi her değişikliği söyler. Tüm kaydırıcılar ve bildirimler ekran okuyucuyla da kullanılabilir.',
+  'instructions.languageTitle': '14. Dil',
+  'instructions.language': 'Klangnah tarayıcınızın dilini kullanır. Sağ üstteki dil seçimiyle dili kendiniz de seçebilirsiniz (Almanca, İngilizce veya Türkçe); seçim kaydedilir. Kendi profillerinizin adları değişmeden kalır.',
+  'instructions.generatorTitle': '15. Tinnitus rahatlatma',
+  'instructions.generator': 'Hafif bir gürültü tinnitusu maskeleyebilir ve uykuya dalmayı kolaylaştırabilir. Beyaz gürültü parlak, pembe gürültü dengeli, kahverengi gürültü ise derin ve yumuşak duyulur; isterseniz okyanus dalgaları gibi yavaşça yükselip alçalır. Seviye, ses düzeyinden bağımsızdır. Yalnızca sesi duymak için „Mikrofonu yükseltmeye devam et“ seçeneğini kapatın. Uyku zamanlayıcısı sesi seçilen sürenin sonunda yavaşça kısar; mikrofon sessizdeyse Klangnah ardından durur.',
+  'instructions.generatorNotch': 'Çentikli gürültü için önce karşılaştırma tonuyla tinnitusunuzun perdesini ayarlayın. Ardından bu frekans çevresindeki bir oktav gürültüden süzülür. Ayarlar profille birlikte kaydedilir. Her türlü tinnitus tedavisini KBB hekiminizle görüşün.',
+  'instructions.remoteTitle': '16. Yakınlar tarafından uzaktan kontrol',
+  'instructions.remote': '„Yakınlar tarafından uzaktan kontrol“ bölümünde, örneğin bir aile üyesinin akıllı telefonu gibi ikinci bir cihazı eşlersiniz. Bu cihaz QR kodunu tarar ve ardından sizin cihazınızda tarayacağınız veya yapıştıracağınız bir yanıt kodu gösterir. Bundan sonra diğer kişi seviyelerinizi görebilir ve profil, ses düzeyi, denge ve ekolayzırı değiştirebilir – tıpkı kaydırıcıları sizin hareket ettirmeniz gibi. Bağlantı sürdüğü sürece sayfanın üstündeki bir uyarı bunu gösterir; „Erişimi geri al“ ile bağlantıyı istediğiniz zaman sonlandırırsınız.',
+  'instructions.quickStartTitle': '17. Hızlı başlatma',
+  'instructions.quickStart': 'Klangnah, kaydedilmemiş değişiklikler dahil son kullandığınız ayarları ve profili hatırlar. Bir sonraki açılışta „… ile başlat“ düğmesi işitme yardımını tam olarak bu ayarlarla başlatır. Her başlatma sessiz başlar ve birkaç saniye içinde ayarlanan ses düzeyine yükselir. Güvenlik uyarısında „Bir daha gösterme“ seçeneğini seçerseniz, uyarı yalnızca bir sonraki güncellemeden sonra yeniden görünür; „Kullanım“ altında onu istediğiniz zaman yeniden açabilirsiniz.',
+  'instructions.tipsTitle': 'Ek ipuçları:',
+  'instructions.tipSave': 'Ayarlarınızı yeni bir profil olarak saklamak için "Kaydet" işlevini kullanın.',
+  'instructions.tipVolume': '%270’in üzerindeki ses düzeylerinde bir güvenlik uyarısı görünür.',
+  'instructions.tipDose': 'Son günlere ait doz geçmişiniz uygulama kapatıldıktan sonra da saklanır.',
+  'instructions.tipUse': 'Uygulama, örneğin kronik orta kulak iltihabında sohbetleri daha iyi anlamak için günlük bir yardımcı olarak tasarlanmıştır.',
+  'instructions.disclaimerTitle': 'Sorumluluk reddi',
+  'instructions.disclaimer': 'Bu uygulama bir işitme yardımı olarak hizmet eder ve profesyonel tıbbi tavsiyenin veya tıbbi bir işitme cihazının yerini tutmaz. İşitme sorunları devam ederse lütfen bir KBB doktoruna başvurun.',
+
+  'impressum.title': 'Künye',
+  'impressum.legal': '§ 5 TMG’ye (Alman Tele Medya Yasası) göre bilgiler',
+  'impressum.contact': 'İletişim:',
+  'impressum.phone': 'Telefon',
+  'impressum.email': 'E-posta',
+
+  'privacy.title': 'Gizlilik politikası',
+  'privacy.localTitle': 'Cihazınızda veri işleme',
+  'privacy.local': 'Bu uygulama en yüksek gizlilik gözetilerek geliştirilmiştir. Tüm temel işlevler, özellikle sesinizin işlenmesi, yalnızca gerçek zamanlı olarak cihazınızda gerçekleşir.',
+  'privacy.noRecording': '**Ses kaydı yok:** Mikrofonunuzdan hiçbir ses kaydedilmez, saklanmaz veya harici sunuculara gönderilmez – “Kayıtlara izin ver” seçeneğini açıp kendiniz bir kayıt başlatmadığınız sürece.',
+  'privacy.clips': '**Kayıtlar:** Kendi başlattığınız kayıtlar ve içe aktarılan ses dosyaları yalnızca bu cihazdaki tarayıcınızın veritabanında (IndexedDB) saklanır ve asla yüklenmez. Bunları istediğiniz zaman tek tek silebilirsiniz; tarayıcınızda site verilerini kaldırdığınızda da silinirler.',
+  'privacy.usage': '**Kullanım geçmişi:** İşitme cihazının ne zaman çalıştığı, hangi profil ve ayarları kullandığınız ve ortalama seviyeler de yalnızca tarayıcınızın veritabanında, en fazla bir yıl boyunca saklanır. Geçmişi istediğiniz zaman silebilir veya kendiniz CSV dosyası olarak dışa aktarabilirsiniz.',
+  'privacy.remote': '**Uzaktan kontrol:** Eşleme sırasında iki cihaz, aracı sunucu olmadan yerel ağda WebRTC üzerinden doğrudan bağlanır. Yalnızca ayarlar, profil adları ve seviyeler aktarılır – mikrofondan asla ses aktarılmaz.',
+  'privacy.settings': '**Yerel ayarlar:** Ses düzeyi, ekolayzır değerleri, kaydedilen profiller ve seçilen dil gibi yaptığınız tüm ayarlar yalnızca web tarayıcınızın yerel depolamasında saklanır. Bu veriler cihazınızdan çıkmaz.',
+  'privacy.export': '**Profil dışa aktarımı:** Dışa aktarılan profiller (dosya, bağlantı veya QR kodu) ayarlarınızı ve varsa odyogramınızı içerir. Veriler tamamen bağlantının kendisinde bulunur ve bir sunucuya iletilmez. Bağlantıları yalnızca bu verileri emanet etmek istediğiniz kişilerle paylaşın.',
+  'privacy.offlineTitle': 'Çevrimdışı kullanım ve yazı tipleri',
+  'privacy.offline': 'Klangnah üçüncü taraf sunuculardan içerik yüklemez. "Inter" yazı tipi uygulamayla birlikte gelir. İlk ziyarette tarayıcınız, Klangnah’ın internet bağlantısı olmadan da çalışması için tüm uygulama dosyalarını önbelleğine (service worker) kaydeder. Yalnızca program dosyaları saklanır, kişisel veri saklanmaz.',
+
+  'hearingTest.title': 'İşitme testi',
+  'hearingTest.intro': 'İşitme testi her kulak için farklı perdelerde kısa tonlar çalar. Yanıtlarınızdan bir odyogram oluşturulur ve buradan uygun bir profil hesaplanır.',
+  'hearingTest.tipRoom': 'Kulaklığınızı takın ve sessiz bir oda bulun.',
+  'hearingTest.tipVolume': 'Sistem ses düzeyini yaklaşık %50’ye ayarlayın ve test sırasında değiştirmeyin.',
+  'hearingTest.tipAnswer': 'Bir tonu algılar algılamaz “Duydum” yanıtını verin – çok sessiz olsa bile.',
+  'hearingTest.disclaimer': 'Test, bir KBB doktoru veya işitme uzmanı tarafından yapılan muayenenin yerini tutmaz.',
+  'hearingTest.rule': 'Uyarlama kuralı',
+  'hearingTest.begin': 'Testi başlat',
+  'hearingTest.step': 'Adım {step} / {total}',
+  'hearingTest.playing': 'Ton çalıyor …',
+  'hearingTest.question': 'Tonu duydunuz mu?',
+  'hearingTest.notHeard': 'Duymadım',
+  'hearingTest.heard': 'Duydum',
+  'hearingTest.repeat': 'Tekrarla',
+  'hearingTest.resultTitle': 'Odyogramınız',
+  'hearingTest.resultText': 'dB HL cinsinden işitme eşikleri. Gerekirse değerleri, örneğin işitme uzmanınızın odyogramındaki değerlerle düzeltebilirsiniz.',
+  'hearingTest.thresholdAria': '{ear} {frequency} işitme eşiği',
+  'hearingTest.discard': 'Vazgeç',
+  'hearingTest.create': 'Profil oluştur',
+  'fittingRule.nal-r': 'NAL-R',
+  'fittingRule.half-gain': 'Yarım kazanç',
+
+  'saveProfile.title': 'Profili kaydet',
+  'saveProfile.current': 'Mevcut ayarları “{name}” profiline kaydedin:',
+  'saveProfile.overwrite': '“{name}” üzerine yaz',
+  'saveProfile.orNew': 'Veya yeni bir profil olarak kaydedin:',
+  'saveProfile.saveNew': 'Yeni profil olarak kaydet',
+
+  'export.title': 'Profilleri dışa aktar',
+  'export.scope': 'Ne dışa aktarılsın?',
+  'export.current': 'Mevcut profil ({name})',
+  'export.library': 'Tüm profillerim ({count})',
+  'export.text': 'Profilleri dosya olarak kaydedin veya bağlantı ya da QR kodu ile başka bir cihaza aktarın. Veriler bir sunucu üzerinden gönderilmez.',
+  'export.tooLarge': 'QR kodu için çok fazla veri. Lütfen dosyayı veya bağlantıyı kullanın.',
+  'export.qrAria': 'Profilleri aktarmak için QR kodu',
+  'export.linkAria': 'Paylaşım bağlantısı',
+  'export.download': 'Dosya olarak kaydet',
+  'export.copy': 'Bağlantıyı kopyala',
+  'export.copied': 'Kopyalandı',
+  'export.libraryFileName': 'kutuphane',
+
+  'import.title': 'Profilleri içe aktar',
+  'import.text': 'Bir Klangnah profil dosyası (.json) seçin veya bir paylaşım kodu ya da bağlantısı yapıştırın.',
+  'import.file': 'Dosya',
+  'import.code': 'Kod',
+  'import.codePlaceholder': 'KN2… veya bağlantı',
+  'import.read': 'Kodu oku',
+  'import.reviewTitle': 'İçe aktarmayı gözden geçir',
+  'import.invalidEntries': 'Bu girdiler geçersiz ve içe aktarılmayacak:',
+  'import.nameExists': '– ad zaten mevcut',
+  'import.resolutionAria': '{name} için işlem',
+  'import.add': 'Ekle',
+  'import.overwrite': 'Mevcut olanı değiştir',
+  'import.skip': 'Atla',
+  'import.newNameAria': '{name} için yeni ad',
+  'import.confirm': 'İçe aktar',
+  'import.renameMissing': 'Lütfen yeniden adlandırılan her profil için bir ad girin.',
+  'import.nameTaken': '“{name}” adı zaten kullanılıyor.',
+
+  'manager.title': 'Profilleri yönet',
+  'manager.empty': 'Henüz kendi profiliniz yok. Ayarlarınızı kaydedin veya hazır bir profili kopyalayın.',
+  'manager.favoriteAria': '{name} profilini favori olarak işaretle',
+  'manager.ok': 'Tamam',
+  'manager.load': 'Profili yükle',
+  'manager.moveUp': '{name} profilini yukarı taşı',
+  'manager.moveDown': '{name} profilini aşağı taşı',
+  'manager.overwrite': 'Üzerine yaz',
+  'manager.overwriteTitle': 'Mevcut ayarları bu profile kaydet',
+  'manager.predefined': 'Hazır profiller',
+  'manager.predefinedHint': 'Hazır profiller değiştirilemez. Uyarlamak için bir kopya oluşturun.',
+  'manager.duplicate': 'Kopya oluştur',
+
+  'schema.notNumber': '{label} eksik veya bir sayı değil.',
+  'schema.outOfRange': '{label}, {min} ile {max} aralığının dışında.',
+  'schema.missing': '{label} eksik.',
+  'schema.invalidFrequency': '{label}: {key} geçerli bir frekans değil.',
+  'schema.invalid': '{label} geçersiz.',
+  'schema.frequency': '{label} frekansı',
+  'schema.gain': '{label} kazancı',
+  'schema.nameMissing': 'Ad eksik.',
+  'schema.nameTooLong': 'Ad 60 karakterden uzun.',
+  'schema.preAmp': 'Ön amfi',
+  'schema.volume': 'Ses düzeyi',
+  'schema.balance': 'Denge',
+  'schema.eqMissing': 'Ekolayzır eksik.',
+  'schema.eqLeft': 'Sol ekolayzır',
+  'schema.eqRight': 'Sağ ekolayzır',
+  'schema.eqLayoutUnknown': 'Ekolayzır düzeni bilinmiyor.',
+  'schema.eqFiltersInvalid': 'Ekolayzır filtreleri geçersiz.',
+  'schema.highPass': 'Yüksek geçiren',
+  'schema.lowShelf': 'Alçak raf',
+  'schema.highShelf': 'Yüksek raf',
+  'schema.lowPass': 'Alçak geçiren',
+  'schema.earsInvalid': 'Kulak ayarları geçersiz.',
+  'schema.earMissing': '{ear} kulak ayarları eksik.',
+  'schema.left': 'Sol',
+  'schema.right': 'Sağ',
+  'schema.earGain': 'Seviye {ear}',
+  'schema.earLimit': 'Sınır {ear}',
+  'schema.compressionInvalid': 'Sıkıştırma geçersiz.',
+  'schema.bandInvalid': 'Sıkıştırma bandı {band} geçersiz.',
+  'schema.bandThreshold': 'Bant {band} eşiği',
+  'schema.bandRatio': 'Bant {band} oranı',
+  'schema.bandAttack': 'Bant {band} ataği',
+  'schema.bandRelease': 'Bant {band} bırakması',
+  'schema.noiseReductionInvalid': 'Gürültü azaltma geçersiz.',
+  'schema.noiseReductionStrength': 'Gürültü azaltma gücü',
+  'schema.speechFocusInvalid': 'Konuşma odağı geçersiz.',
+  'schema.speechFocusStrength': 'Konuşma odağı gücü',
+  'schema.soundGeneratorInvalid': 'Tinnitus rahatlatma ayarları geçersiz.',
+  'schema.soundGeneratorColor': 'Tinnitus rahatlatma sesi bilinmiyor.',
+  'schema.soundGeneratorLevel': 'Tinnitus rahatlatma seviyesi',
+  'schema.tinnitusFrequency': 'Tinnitus frekansı',
+  'schema.audiogramInvalid': 'Odyogram geçersiz.',
+  'schema.audiogramLeft': 'Sol odyogram',
+  'schema.audiogramRight': 'Sağ odyogram',
+  'schema.fittingRuleUnknown': 'Uyarlama kuralı bilinmiyor.',
+  'schema.favoriteInvalid': 'Favori işareti geçersiz.',
+  'schema.entry': 'Girdi {index}',
+  'schema.notAProfile': 'Girdi {index}: profil değil.',
+  'schema.noProfiles': 'Veriler hiçbir profil içermiyor.',
+  'schema.newerVersion': 'Dosya Klangnah’ın daha yeni bir sürümünden geliyor (biçim {version}). Lütfen uygulamayı güncelleyin.',
+  'schema.invalidJson': 'Dosya geçerli bir Klangnah profil dosyası (JSON) değil.',
+  'schema.noDecompression': 'Bu tarayıcı sıkıştırılmış paylaşım kodlarını okuyamıyor.',
+  'schema.corruptCode': 'Paylaşım kodu eksik veya bozuk.',
+};
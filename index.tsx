@@ -1,31 +1,44 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 
-const EQ_FREQUENCIES = [125, 250, 500, 1000, 2000, 4000];
-
-interface EQSettings {
-  [key: number]: number;
-}
-
-interface Profile {
-  name: string;
-  preAmp: number;
-  volume: number;
-  eq: EQSettings;
-  balance: number;
-}
-
-const DEFAULT_EQ: EQSettings = { 125: 0, 250: 0, 500: 0, 1000: 0, 2000: 0, 4000: 0 };
-const DEFAULT_VOLUME = 100;
-const DEFAULT_PRE_AMP = 100;
-const DEFAULT_BALANCE = 0;
-
-const PREDEFINED_PROFILES: Profile[] = [
-  { name: 'Gespräch', preAmp: 130, volume: 120, eq: { 125: -2, 250: -4, 500: 0, 1000: 6, 2000: 5, 4000: 3 }, balance: 0 },
-  { name: 'Fernseher', preAmp: 120, volume: 110, eq: { 125: 4, 250: 2, 500: 1, 1000: 5, 2000: 4, 4000: 3 }, balance: 0 },
-  { name: 'Straße', preAmp: 100, volume: 130, eq: { 125: -12, 250: -10, 500: -5, 1000: 0, 2000: 3, 4000: 5 }, balance: 0 },
-];
-
+import { Audiogram, CompressionSettings, CompressorBand, DeviceSelection, Ear, EarSettings, EQFilters, EQLayout, FittingRule, NoiseColor, NoiseReductionSettings, Profile, SoundGeneratorSettings, SpeechFocusSettings } from './types';
+import { AUDIOGRAM_FREQUENCIES, EQ_LAYOUTS, EQ_MAX_GAIN, DEFAULT_EQ, DEFAULT_EQ_LAYOUT, DEFAULT_VOLUME, DEFAULT_PRE_AMP, DEFAULT_BALANCE, COMPRESSOR_BAND_LABELS, LEGACY_PREDEFINED_NAMES, PREDEFINED_PROFILES, NOISE_COLORS, SLEEP_TIMER_OPTIONS, SOUND_GENERATOR_MAX_LEVEL, SOUND_GENERATOR_MIN_LEVEL, TINNITUS_FREQUENCY_MAX, TINNITUS_FREQUENCY_MIN } from './constants';
+import { FITTING_RULES, fitAudiogram } from './utils/audiometry';
+import { EARS, eqFrequencies, isEqLinked, moveProfile, toStereoEq, uniqueProfileName } from './utils/profile';
+import { createHearingAidEngine, EngineSettings, DEFAULT_ENGINE_SETTINGS } from './audio/hearingAidEngine';
+import { isNoiseReductionSupported } from './audio/noiseReduction';
+import { measureLoopbackLatency } from './audio/latencyProbe';
+import { AB_SWITCH_CROSSFADE, DEFAULT_PROFILE_CROSSFADE, DEFAULT_SMOOTHING } from './audio/automation';
+import { createFeedbackDetector } from './utils/feedbackDetector';
+import { createSceneClassifier, createSceneTracker, Scene, SceneMode, SceneSettings, SCENES, SCENE_CROSSFADE_SECONDS, DEFAULT_SCENE_SETTINGS } from './utils/sceneClassifier';
+import { activeOutputLabel, AudioDevices, isOutputPresent, listAudioDevices, openInputStream, physicalDevices, resolveDeviceId, selectionFor, setOutputDevice, supportsOutputSelection } from './utils/devices';
+import { dateKey, doseIncrement, rmsToDbfs, DoseAction, DoseHistory, DEFAULT_FULL_SCALE_SPL, DEFAULT_OUTPUT_CEILING, DOSE_ATTENUATION_DB } from './utils/noiseDose';
+import HearingTest from './components/HearingTest';
+import EqResponseCurve from './components/EqResponseCurve';
+import LevelMeter from './components/LevelMeter';
+import SpectrumAnalyzer from './components/SpectrumAnalyzer';
+import ClipLibrary from './components/ClipLibrary';
+import LatencyDiagnostics from './components/LatencyDiagnostics';
+import UsageHistory from './components/UsageHistory';
+import RemotePairing from './components/RemotePairing';
+import CaregiverRemote from './components/CaregiverRemote';
+import { Clip } from './utils/clips';
+import { registerServiceWorker } from './utils/serviceWorker';
+import { keepAudioContextRunning } from './utils/audioLifecycle';
+import { createLevelAverage, createUsageSession, logUsage, pruneUsage, UsageEntry, USAGE_LEVEL_INTERVAL, USAGE_SETTINGS_DELAY } from './utils/usageLog';
+import { isLocalDbSupported } from './utils/localDb';
+import { audioContextOptions, LatencyMeasurement, LatencyMode, LatencyReport, MAX_LATENCY_MEASUREMENTS } from './utils/latency';
+import { isSpeechSupported, speak } from './utils/speech';
+import { createOwnerPairing, isRemoteControlSupported, OwnerPairing, RemoteMessage, RemoteProfileOption, RemoteStatus } from './utils/remoteControl';
+import { bindMediaSession, updateMediaSession } from './utils/mediaSession';
+import ProfileExport from './components/ProfileExport';
+import ProfileImport, { ImportedProfile } from './components/ProfileImport';
+import ProfileManager from './components/ProfileManager';
+import SaveProfileDialog from './components/SaveProfileDialog';
+import RichText from './components/RichText';
+import { useProfileLibrary } from './hooks/useProfileLibrary';
+import { I18nContext } from './hooks/useI18n';
+import { allTranslations, createI18n, detectLocale, isLocale, Locale, LOCALES, MessageId } from './i18n';
 
 const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] => {
   const [storedValue, setStoredValue] = useState<T>(() => {
@@ -51,11 +64,54 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
   return [storedValue, setValue];
 };
 
+const formatFrequency = (freq: number, tag: string) =>
+  freq < 1000 ? `${Math.round(freq)} Hz` : `${(freq / 1000).toLocaleString(tag, { maximumFractionDigits: 1 })} kHz`;
+
+// The sleep timer fades the relief sound out over this many seconds instead of cutting it off.
+const SLEEP_FADE_SECONDS = 30;
+
+// A start fades up from a low level over this many seconds, so the first moment is never loud.
+const START_FADE_IN_SECONDS = 3;
+
+// The current settings are stored this long after the last change, so dragging a slider does not write on every step.
+const SESSION_SAVE_DELAY_MS = 1000;
+
+// How often a paired caregiver device gets the current levels.
+const REMOTE_LEVEL_INTERVAL_MS = 250;
+
+// Volume change per key press or headset button, in percent.
+const VOLUME_KEY_STEP = 5;
+
+interface ShortcutActions {
+    volumeUp: () => void;
+    volumeDown: () => void;
+    toggleMute: () => void;
+    setMuted: (muted: boolean) => void;
+    nextProfile: () => void;
+    previousProfile: () => void;
+    toggleRunning: () => void;
+}
+
+const SHORTCUT_KEYS: Record<string, Exclude<keyof ShortcutActions, 'setMuted'>> = {
+    '+': 'volumeUp',
+    '=': 'volumeUp',
+    '-': 'volumeDown',
+    m: 'toggleMute',
+    n: 'nextProfile',
+    p: 'previousProfile',
+    s: 'toggleRunning',
+};
+
 const Modal: React.FC<{ children: React.ReactNode; show: boolean; }> = ({ children, show }) => {
+  const contentRef = useRef<HTMLDivElement | null>(null);
+  // Move focus into the dialog so screen readers read it and the keyboard stays inside.
+  useEffect(() => {
+    if (show) contentRef.current?.focus();
+  }, [show]);
   if (!show) return null;
   return (
     <div className="modal-overlay" aria-modal="true" role="dialog">
-      <div className="modal-content">
+      <div className="modal-content" ref={contentRef} tabIndex={-1}>
         {children}
       </div>
     </div>
@@ -64,33 +120,134 @@ const Modal: React.FC<{ children: React.ReactNode; show: boolean; }> = ({ childr
 
 const App: React.FC = () => {
     const [theme, setTheme] = useLocalStorage<'light' | 'dark'>('theme', 'light');
+    // Only a manual choice is stored; without one the browser language is followed.
+    const [storedLocale, setStoredLocale] = useLocalStorage<Locale | null>('locale', null);
+    const i18n = useMemo(() => createI18n(isLocale(storedLocale) ? storedLocale : detectLocale()), [storedLocale]);
+    const { t, tag } = i18n;
     const [isStarted, setIsStarted] = useState(false);
-    const [preAmp, setPreAmp] = useState(DEFAULT_PRE_AMP);
-    const [volume, setVolume] = useState(DEFAULT_VOLUME);
-    const [eqValues, setEqValues] = useState<EQSettings>(DEFAULT_EQ);
-    const [balance, setBalance] = useState(DEFAULT_BALANCE);
-    const [customProfiles, setCustomProfiles] = useLocalStorage<Profile[]>('customProfiles', []);
-    const [selectedProfile, setSelectedProfile] = useState<string>('default');
-
-    const [showInitialWarning, setShowInitialWarning] = useState(true);
+    const [eqEar, setEqEar] = useState<Ear | 'both'>('both');
+    const [noiseLearning, setNoiseLearning] = useState<'idle' | 'learning' | 'learned'>('idle');
+    const [noiseReductionAvailable, setNoiseReductionAvailable] = useState(isNoiseReductionSupported());
+    const [customProfiles, setCustomProfiles] = useProfileLibrary();
+    const [selectedProfile, setSelectedProfile] = useLocalStorage<string>('selectedProfile', 'default');
+    const [profileCrossfade, setProfileCrossfade] = useLocalStorage<number>('profileCrossfade', DEFAULT_PROFILE_CROSSFADE);
+    const [smoothingMs, setSmoothingMs] = useLocalStorage<number>('smoothingMs', DEFAULT_SMOOTHING * 1000);
+    // The settings of the last session, unsaved changes included; restored on the next visit.
+    const [lastSession, setLastSession] = useLocalStorage<Profile | null>('lastSession', null);
+    const [abCompare, setAbCompare] = useState<{ a: string; b: string; active: 'a' | 'b' } | null>(null);
+
+    // The safety notice is skipped once acknowledged, but shown again after every update of the app.
+    const [warningAcknowledged, setWarningAcknowledged] = useLocalStorage<{ date: string; build: string } | null>('warningAcknowledged', null);
+    const [showInitialWarning, setShowInitialWarning] = useState(() => warningAcknowledged?.build !== __APP_BUILD__);
+    const [skipWarning, setSkipWarning] = useState(false);
     const [showHighVolumeWarning, setShowHighVolumeWarning] = useState(false);
     const [showInstructions, setShowInstructions] = useState(false);
     const [showImpressum, setShowImpressum] = useState(false);
     const [showPrivacy, setShowPrivacy] = useState(false);
+    const [showHearingTest, setShowHearingTest] = useState(false);
+    const [showDoseWarning, setShowDoseWarning] = useState(false);
+    const [showProfileExport, setShowProfileExport] = useState(false);
+    const [profileImportCode, setProfileImportCode] = useState<string | null>(null);
+    const [remoteOfferCode, setRemoteOfferCode] = useState<string | null>(null);
+    const [showRemotePairing, setShowRemotePairing] = useState(false);
+    const [remoteOffer, setRemoteOffer] = useState<string | null>(null);
+    const [remoteStatus, setRemoteStatus] = useState<RemoteStatus | null>(null);
+    const [showSaveProfile, setShowSaveProfile] = useState(false);
+    const [showProfileManager, setShowProfileManager] = useState(false);
+    const [showUsageHistory, setShowUsageHistory] = useState(false);
+    const [deletedProfile, setDeletedProfile] = useState<{ profile: Profile; index: number } | null>(null);
+
+    const [outputCeiling, setOutputCeiling] = useLocalStorage<number>('outputCeiling', DEFAULT_OUTPUT_CEILING);
+    const [fullScaleSpl, setFullScaleSpl] = useLocalStorage<number>('fullScaleSpl', DEFAULT_FULL_SCALE_SPL);
+    const [doseAction, setDoseAction] = useLocalStorage<DoseAction>('doseAction', 'warn');
+    const [doseHistory, setDoseHistory] = useLocalStorage<DoseHistory>('doseHistory', {});
+    const [storedEqLayout, setStoredEqLayout] = useLocalStorage<EQLayout>('eqLayout', DEFAULT_EQ_LAYOUT);
+    const [engine] = useState(() => createHearingAidEngine({
+        ...DEFAULT_ENGINE_SETTINGS,
+        outputCeiling,
+        eqLayout: storedEqLayout,
+        eq: toStereoEq(DEFAULT_EQ, eqFrequencies(storedEqLayout)),
+    }));
+    const [engineSettings, setEngineSettings] = useState<EngineSettings>(engine.settings);
+    const { preAmp, volume, balance, eqLayout, eq: eqValues, eqFilters, ears: earSettings, compression, noiseReduction, speechFocus, soundGenerator } = engineSettings;
+    // A new object whenever the response curve has to be redrawn.
+    const eqRevision = useMemo(() => ({}), [eqValues, eqFilters]);
+    const [outputLevel, setOutputLevel] = useState(-Infinity);
+    const [todayDose, setTodayDose] = useState(() => doseHistory[dateKey()] || 0);
+    const [inputChannels, setInputChannels] = useState(0);
+    const [matchTone, setMatchTone] = useState(false);
+    const [sleepTimer, setSleepTimer] = useState<{ minutes: number; until: number } | null>(null);
+
+    const [feedbackProtection, setFeedbackProtection] = useLocalStorage<boolean>('feedbackProtection', true);
+    const [feedbackNotice, setFeedbackNotice] = useState<number[] | null>(null);
+    const [activeNotches, setActiveNotches] = useState<number[]>([]);
+
+    const [inputDeviceId, setInputDeviceId] = useLocalStorage<string>('inputDeviceId', '');
+    const [outputDeviceId, setOutputDeviceId] = useLocalStorage<string>('outputDeviceId', '');
+    const [audioDevices, setAudioDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+    const [isMuted, setIsMuted] = useState(false);
+    const [latencyMode, setLatencyMode] = useLocalStorage<LatencyMode>('latencyMode', 'interactive');
+    const [activeLatencyMode, setActiveLatencyMode] = useState<LatencyMode | null>(null);
+    const [latencyMeasurements, setLatencyMeasurements] = useLocalStorage<LatencyMeasurement[]>('latencyMeasurements', []);
+    const [deviceNotice, setDeviceNotice] = useState<MessageId | null>(null);
+
+    const [sceneSettings, setSceneSettings] = useLocalStorage<SceneSettings>('sceneSettings', DEFAULT_SCENE_SETTINGS);
+    const [detectedScene, setDetectedScene] = useState<Scene | null>(null);
+    const [sceneSuggestion, setSceneSuggestion] = useState<Scene | null>(null);
+
+    const [recordingEnabled, setRecordingEnabled] = useLocalStorage<boolean>('recordingEnabled', false);
+    const [playingClipId, setPlayingClipId] = useState<string | null>(null);
+
+    const [audioState, setAudioState] = useState<string>('running');
+    const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+    const [largeControls, setLargeControls] = useLocalStorage<boolean>('largeControls', false);
+    const [spokenFeedback, setSpokenFeedback] = useLocalStorage<boolean>('spokenFeedback', false);
+    const [announcement, setAnnouncement] = useState('');
 
     const [currentTime, setCurrentTime] = useState(new Date());
 
     const audioContextRef = useRef<AudioContext | null>(null);
-    const preAmpGainNodeRef = useRef<GainNode | null>(null);
-    const gainNodeRef = useRef<GainNode | null>(null);
-    const pannerNodeRef = useRef<StereoPannerNode | null>(null);
-    const eqNodesRef = useRef<BiquadFilterNode[]>([]);
-    const sourceNodeRef = useRef<MediaStreamAudioSourceNode | null>(null);
     const streamRef = useRef<MediaStream | null>(null);
-    const analyserNodeRef = useRef<AnalyserNode | null>(null);
-    const visualizerCanvasRef = useRef<HTMLCanvasElement | null>(null);
-    const animationFrameIdRef = useRef<number | null>(null);
+    const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const clipSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const activeOutputRef = useRef<string | null>(null);
+    const inputDeviceIdRef = useRef(inputDeviceId);
+    inputDeviceIdRef.current = inputDeviceId;
+    const outputDeviceIdRef = useRef(outputDeviceId);
+    outputDeviceIdRef.current = outputDeviceId;
+    const doseHistoryRef = useRef(doseHistory);
+    doseHistoryRef.current = doseHistory;
+    const speechTimerRef = useRef<number | undefined>(undefined);
+    // The fade-out before the sleep timer stops Klangnah, with the generator level it started from.
+    const sleepFadeRef = useRef<{ timer: number; level: number } | null>(null);
+    const usageSessionRef = useRef<string | null>(null);
+    const selectedProfileRef = useRef(selectedProfile);
+    selectedProfileRef.current = selectedProfile;
+    const shortcutActionsRef = useRef<ShortcutActions | null>(null);
+    const remotePairingRef = useRef<OwnerPairing | null>(null);
+    const remoteCommandRef = useRef<((message: RemoteMessage) => void) | null>(null);
+    // Bumped by every pairing attempt and by closing, so a pairing that is cancelled while it is prepared is discarded.
+    const remoteAttemptRef = useRef(0);
     
+    useEffect(() => engine.on('change', setEngineSettings), [engine]);
+    useEffect(() => engine.on('input', ({ channels }) => setInputChannels(channels)), [engine]);
+
+    useEffect(() => {
+        registerServiceWorker(apply => setApplyUpdate(() => apply));
+    }, []);
+
+    useEffect(() => {
+        const context = audioContextRef.current;
+        if (!isStarted || !context) return;
+        setAudioState(context.state);
+        return keepAudioContextRunning(context, setAudioState);
+    }, [isStarted]);
+
+    useEffect(() => {
+        engine.setSmoothing(smoothingMs / 1000);
+    }, [engine, smoothingMs]);
+
     useEffect(() => {
         const preferredTheme = window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light';
         const savedTheme = localStorage.getItem('theme');
@@ -101,131 +258,328 @@ const App: React.FC = () => {
         document.documentElement.setAttribute('data-theme', theme);
     }, [theme]);
 
+    useEffect(() => {
+        document.documentElement.setAttribute('data-large-controls', String(largeControls));
+    }, [largeControls]);
+
+    useEffect(() => {
+        document.documentElement.lang = i18n.locale;
+        document.title = t('app.documentTitle');
+    }, [i18n]);
+
+    useEffect(() => {
+        // Scene mappings saved before predefined profiles had ids still refer to their German names.
+        if (!Object.values(sceneSettings.mapping).some(name => name && name in LEGACY_PREDEFINED_NAMES)) return;
+        setSceneSettings(prev => ({
+            ...prev,
+            mapping: Object.fromEntries(Object.entries(prev.mapping).map(([scene, name]) => [scene, name && (LEGACY_PREDEFINED_NAMES[name] ?? name)])),
+        }));
+    }, []);
+
     useEffect(() => {
         const timer = setInterval(() => setCurrentTime(new Date()), 1000);
         return () => clearInterval(timer);
     }, []);
 
-    const drawVisualizer = useCallback(() => {
-        if (!analyserNodeRef.current || !visualizerCanvasRef.current) {
-            return;
-        }
-        const analyser = analyserNodeRef.current;
-        const canvas = visualizerCanvasRef.current;
-        const canvasCtx = canvas.getContext('2d');
-        if (!canvasCtx) return;
-
-        const bufferLength = analyser.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
-        analyser.getByteFrequencyData(dataArray);
-
-        const barColor = getComputedStyle(document.documentElement).getPropertyValue('--primary');
-        canvasCtx.clearRect(0, 0, canvas.width, canvas.height);
-        
-        const barWidth = (canvas.width / bufferLength) * 2.5;
-        let x = 0;
-
-        for (let i = 0; i < bufferLength; i++) {
-            const barHeight = dataArray[i] * (canvas.height / 256.0);
-            canvasCtx.fillStyle = barColor;
-            canvasCtx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
-            x += barWidth + 1;
-        }
+    useEffect(() => {
+        if (!isStarted) return;
+        const intervalSeconds = 0.25;
+        const samples = new Float32Array(2048);
+        let day = dateKey();
+        let dose = doseHistoryRef.current[day] || 0;
+        let ticks = 0;
+        let warned = dose >= 100;
+        let attenuated: boolean | null = null;
 
-        animationFrameIdRef.current = requestAnimationFrame(drawVisualizer);
-    }, []);
+        const timer = setInterval(() => {
+            const analyser = engine.analysers?.output;
+            if (!analyser) return;
+            analyser.getFloatTimeDomainData(samples);
+            const level = rmsToDbfs(samples) + fullScaleSpl;
+
+            const today = dateKey();
+            if (today !== day) {
+                day = today;
+                dose = 0;
+                warned = false;
+            }
+            dose += doseIncrement(level, intervalSeconds);
+            setOutputLevel(level);
+            setTodayDose(dose);
+
+            const exceeded = dose >= 100;
+            const attenuate = exceeded && doseAction === 'attenuate';
+            if (attenuate !== attenuated) {
+                attenuated = attenuate;
+                engine.setSafetyAttenuation(attenuate ? DOSE_ATTENUATION_DB : 0);
+            }
+            if (exceeded && !warned) {
+                warned = true;
+                setShowDoseWarning(true);
+            }
+
+            ticks++;
+            if (ticks % 4 === 0) {
+                const recent = Object.keys(doseHistoryRef.current).sort().slice(-29);
+                const next: DoseHistory = {};
+                recent.forEach(key => {
+                    next[key] = doseHistoryRef.current[key];
+                });
+                next[day] = dose;
+                setDoseHistory(next);
+            }
+        }, intervalSeconds * 1000);
+
+        return () => clearInterval(timer);
+    }, [isStarted, fullScaleSpl, doseAction, setDoseHistory]);
 
     useEffect(() => {
-        if (isStarted) {
-            animationFrameIdRef.current = requestAnimationFrame(drawVisualizer);
-        }
-        return () => {
-            if (animationFrameIdRef.current) {
-                cancelAnimationFrame(animationFrameIdRef.current);
-                animationFrameIdRef.current = null;
+        // The steady comparison tone would look like howling to the detector.
+        if (!isStarted || !feedbackProtection || matchTone) return;
+        const detector = createFeedbackDetector();
+        let spectrum: Float32Array | null = null;
+        let ticks = 0;
+
+        const timer = setInterval(() => {
+            const analyser = engine.analysers?.output;
+            const suppressor = engine.feedbackSuppressor;
+            const context = engine.context;
+            if (!analyser || !suppressor || !context) return;
+            if (!spectrum || spectrum.length !== analyser.frequencyBinCount) {
+                spectrum = new Float32Array(analyser.frequencyBinCount);
+            }
+            analyser.getFloatFrequencyData(spectrum);
+
+            const detected = detector.analyze(spectrum, context.sampleRate);
+            detected.forEach(frequency => suppressor.suppress(frequency, context.currentTime));
+            if (detected.length > 0) {
+                setFeedbackNotice(detected);
+                setActiveNotches(suppressor.activeFrequencies());
+            }
+
+            ticks++;
+            if (ticks % 10 === 0) {
+                suppressor.relax(context.currentTime);
+                setActiveNotches(suppressor.activeFrequencies());
             }
+        }, 100);
+
+        return () => clearInterval(timer);
+    }, [isStarted, feedbackProtection, matchTone]);
+
+    useEffect(() => {
+        if (!isStarted || !sceneSettings.enabled) return;
+        const intervalSeconds = 0.25;
+        const classifier = createSceneClassifier(intervalSeconds);
+        const tracker = createSceneTracker(intervalSeconds);
+        let spectrum: Float32Array | null = null;
+        let samples: Float32Array | null = null;
+
+        const timer = setInterval(() => {
+            const analyser = engine.analysers?.scene;
+            const context = engine.context;
+            if (!analyser || !context) return;
+            if (!spectrum || spectrum.length !== analyser.frequencyBinCount) {
+                spectrum = new Float32Array(analyser.frequencyBinCount);
+                samples = new Float32Array(analyser.fftSize);
+            }
+            analyser.getFloatFrequencyData(spectrum);
+            analyser.getFloatTimeDomainData(samples!);
+            // The analyser sits behind the pre-amp; undo its gain so switching profiles does not change the scene.
+            const preAmpGain = engine.settings.preAmp / 100;
+            const inputGainDb = preAmpGain > 0 ? 20 * Math.log10(preAmpGain) : 0;
+
+            const { scene } = classifier.analyze(spectrum, samples!, context.sampleRate, inputGainDb);
+            const stable = tracker.update(scene, context.currentTime, sceneSettings.holdSeconds);
+            if (stable) setDetectedScene(stable);
+        }, intervalSeconds * 1000);
+
+        return () => {
+            clearInterval(timer);
+            setDetectedScene(null);
+            setSceneSuggestion(null);
         };
-    }, [isStarted, drawVisualizer]);
+    }, [isStarted, sceneSettings.enabled, sceneSettings.holdSeconds]);
 
+    // Also runs when the mapping or the mode changes, so a new choice applies without waiting for the next scene change.
+    // The selected profile is left out on purpose: choosing another profile by hand is not undone right away.
+    useEffect(() => {
+        if (!detectedScene || !sceneSettings.enabled) return;
+        const target = sceneSettings.mapping[detectedScene];
+        if (!target || target === selectedProfile || !findProfile(target)) {
+            setSceneSuggestion(null);
+            return;
+        }
+        if (sceneSettings.mode === 'auto') {
+            selectProfile(target, SCENE_CROSSFADE_SECONDS);
+            setSceneSuggestion(null);
+        } else {
+            setSceneSuggestion(detectedScene);
+        }
+    }, [detectedScene, sceneSettings.mode, sceneSettings.mapping]);
 
-    const initAudio = useCallback(async () => {
-        if (audioContextRef.current) return;
-        try {
-            const audioConstraints = {
-                audio: {
-                    echoCancellation: false,
-                    noiseSuppression: false,
-                    autoGainControl: false,
-                },
-                video: false
+    useEffect(() => {
+        if (!feedbackNotice) return;
+        const timer = setTimeout(() => setFeedbackNotice(null), 8000);
+        return () => clearTimeout(timer);
+    }, [feedbackNotice]);
+
+
+    const watchInputTrack = (stream: MediaStream) => {
+        stream.getAudioTracks().forEach(track => {
+            track.onended = () => {
+                if (streamRef.current !== stream) return;
+                setDeviceNotice('device.micDisconnected');
+                switchInput('');
             };
-            const stream = await navigator.mediaDevices.getUserMedia(audioConstraints);
+        });
+    };
+
+    const setMuted = (muted: boolean) => {
+        setIsMuted(muted);
+        engine.setMuted(muted);
+    };
+
+    // Screen readers get the text through the live region; slider drags skip it because the
+    // slider reports its own value. With spoken feedback on, the text is also read aloud once
+    // the value has settled.
+    const announce = (text: string, toScreenReader = true) => {
+        if (toScreenReader) setAnnouncement(prev => (prev === text ? `${text}\u00a0` : text));
+        if (!spokenFeedback) return;
+        window.clearTimeout(speechTimerRef.current);
+        speechTimerRef.current = window.setTimeout(() => speak(text, tag), 300);
+    };
+
+    const switchInput = async (deviceId: string) => {
+        setInputDeviceId(deviceId);
+        inputDeviceIdRef.current = deviceId;
+        const context = audioContextRef.current;
+        if (!context || !engine.running) return;
+        try {
+            const { stream, inputId } = await openInputStream(deviceId);
+            micSourceRef.current = context.createMediaStreamSource(stream);
+            // While a clip is playing the new microphone is connected when playback stops.
+            if (!clipSourceRef.current) engine.setSource(micSourceRef.current);
+            streamRef.current?.getTracks().forEach(track => track.stop());
             streamRef.current = stream;
-            
-            const context = new AudioContext({ latencyHint: 'interactive' });
-            audioContextRef.current = context;
+            watchInputTrack(stream);
+            if (inputId !== deviceId) {
+                setInputDeviceId(inputId);
+                inputDeviceIdRef.current = inputId;
+            }
+        } catch (err) {
+            console.error('Error switching microphone:', err);
+            setDeviceNotice('device.micSwitchFailed');
+        }
+    };
 
-            const source = context.createMediaStreamSource(stream);
-            sourceNodeRef.current = source;
+    const switchOutput = async (deviceId: string) => {
+        setOutputDeviceId(deviceId);
+        outputDeviceIdRef.current = deviceId;
+        const context = audioContextRef.current;
+        if (!context) return;
+        try {
+            await setOutputDevice(context, deviceId);
+            activeOutputRef.current = activeOutputLabel(audioDevices.outputs, deviceId);
+        } catch (err) {
+            console.error('Error switching output device:', err);
+            setDeviceNotice('device.outputSelectFailed');
+        }
+    };
 
-            const preAmpGainNode = context.createGain();
-            preAmpGainNode.gain.value = preAmp / 100;
-            preAmpGainNodeRef.current = preAmpGainNode;
+    const applyDeviceSelection = (selection: DeviceSelection) => {
+        const nextInput = resolveDeviceId(physicalDevices(audioDevices.inputs), selection.inputId, selection.inputLabel, inputDeviceId);
+        const nextOutput = resolveDeviceId(physicalDevices(audioDevices.outputs), selection.outputId, selection.outputLabel, outputDeviceId);
+        if (nextInput !== inputDeviceId) {
+            switchInput(nextInput);
+        }
+        if (nextOutput !== outputDeviceId) {
+            switchOutput(nextOutput);
+        }
+    };
 
-            const analyserNode = context.createAnalyser();
-            analyserNode.fftSize = 256;
-            analyserNodeRef.current = analyserNode;
-            
-            const eqNodes = EQ_FREQUENCIES.map((freq) => {
-                const eqNode = context.createBiquadFilter();
-                eqNode.type = 'peaking';
-                eqNode.frequency.value = freq;
-                eqNode.Q.value = 1.41;
-                eqNode.gain.value = eqValues[freq] || 0;
-                return eqNode;
-            });
-            eqNodesRef.current = eqNodes;
+    useEffect(() => {
+        if (!isStarted || !navigator.mediaDevices) return;
+        const handleDeviceChange = async () => {
+            const devices = await listAudioDevices();
+            setAudioDevices(devices);
 
-            const pannerNode = context.createStereoPanner();
-            pannerNode.pan.value = balance / 100;
-            pannerNodeRef.current = pannerNode;
+            if (inputDeviceIdRef.current && !devices.inputs.some(d => d.deviceId === inputDeviceIdRef.current)) {
+                setDeviceNotice('device.selectedMicDisconnected');
+                switchInput('');
+            }
 
-            const gainNode = context.createGain();
-            gainNode.gain.value = volume / 100;
-            gainNodeRef.current = gainNode;
-            
-            let lastNode: AudioNode = source;
-            lastNode.connect(preAmpGainNode);
-            lastNode = preAmpGainNode;
+            const previousOutput = activeOutputRef.current;
+            if (previousOutput && !isOutputPresent(devices.outputs, previousOutput)) {
+                setMuted(true);
+                setDeviceNotice('device.outputDisconnected');
+                if (outputDeviceIdRef.current) {
+                    await switchOutput('');
+                }
+            }
+            activeOutputRef.current = activeOutputLabel(devices.outputs, outputDeviceIdRef.current);
+        };
+        navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+        return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    }, [isStarted]);
 
-            lastNode.connect(analyserNode);
-            lastNode = analyserNode;
+    const initAudio = async () => {
+        if (audioContextRef.current) return;
+        try {
+            const { stream, inputId } = await openInputStream(inputDeviceIdRef.current);
+            streamRef.current = stream;
+            watchInputTrack(stream);
+            if (inputId !== inputDeviceIdRef.current) setInputDeviceId(inputId);
+            
+            const context = new AudioContext(audioContextOptions(latencyMode, stream));
+            audioContextRef.current = context;
 
-            for (const eqNode of eqNodes) {
-                lastNode.connect(eqNode);
-                lastNode = eqNode;
+            if (outputDeviceIdRef.current) {
+                try {
+                    await setOutputDevice(context, outputDeviceIdRef.current);
+                } catch (err) {
+                    console.error('Selected output device unavailable, using default:', err);
+                    setOutputDeviceId('');
+                }
             }
-            lastNode.connect(pannerNode);
-            lastNode = pannerNode;
-            lastNode.connect(gainNode);
-            gainNode.connect(context.destination);
+
+            micSourceRef.current = context.createMediaStreamSource(stream);
+            await engine.start(context, micSourceRef.current, { lowLatency: latencyMode === 'lowest', fadeIn: START_FADE_IN_SECONDS });
+            setActiveLatencyMode(latencyMode);
+            setNoiseReductionAvailable(engine.noiseReductionAvailable);
+            setIsMuted(false);
+
+            const devices = await listAudioDevices();
+            setAudioDevices(devices);
+            activeOutputRef.current = activeOutputLabel(devices.outputs, outputDeviceIdRef.current);
 
             setIsStarted(true);
         } catch (err) {
             console.error('Error initializing audio:', err);
-            alert('Mikrofonzugriff wurde verweigert oder die Audio-Einstellungen werden nicht unterstützt. Die App kann nicht ohne Mikrofon funktionieren.');
+            alert(t('error.microphone'));
         }
-    }, [volume, eqValues, preAmp, balance]);
+    };
 
     const handleStartFromModal = () => {
+        if (skipWarning) {
+            setWarningAcknowledged({ date: new Date().toISOString(), build: __APP_BUILD__ });
+        }
         setShowInitialWarning(false);
         initAudio();
     };
     
     const handleStop = () => {
-        if (animationFrameIdRef.current) {
-            cancelAnimationFrame(animationFrameIdRef.current);
-            animationFrameIdRef.current = null;
+        if (clipSourceRef.current) {
+            clipSourceRef.current.onended = null;
+            clipSourceRef.current.stop();
+            clipSourceRef.current = null;
+            setPlayingClipId(null);
+        }
+        micSourceRef.current = null;
+        engine.stop();
+        if (sleepFadeRef.current) {
+            cancelSleepFade(false);
+            setSleepTimer(null);
         }
         if(audioContextRef.current) {
             audioContextRef.current.close();
@@ -235,165 +589,756 @@ const App: React.FC = () => {
             streamRef.current.getTracks().forEach(track => track.stop());
             streamRef.current = null;
         }
-        preAmpGainNodeRef.current = null;
-        gainNodeRef.current = null;
-        pannerNodeRef.current = null;
-        eqNodesRef.current = [];
-        sourceNodeRef.current = null;
-        analyserNodeRef.current = null;
+        setNoiseLearning('idle');
+        setMatchTone(false);
+        setActiveNotches([]);
+        activeOutputRef.current = null;
+        setIsMuted(false);
+        setActiveLatencyMode(null);
         setIsStarted(false);
     }
 
-    const handlePreAmpChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newPreAmp = parseInt(e.target.value, 10);
-        setPreAmp(newPreAmp);
-        if (preAmpGainNodeRef.current && audioContextRef.current) {
-            preAmpGainNodeRef.current.gain.setValueAtTime(newPreAmp / 100, audioContextRef.current.currentTime);
+    const handleLatencyRestart = () => {
+        handleStop();
+        initAudio();
+    };
+
+    // The hearing aid is muted meanwhile, otherwise the click would also come back amplified.
+    const handleMeasureLoopback = async () => {
+        const context = audioContextRef.current;
+        const source = micSourceRef.current;
+        if (!context || !source) return null;
+        engine.setMuted(true);
+        try {
+            return await measureLoopbackLatency(context, source, { maxLevel: engine.maxOutputLevel });
+        } finally {
+            engine.setMuted(isMuted);
         }
+    };
+
+    const handleSaveLatency = (report: LatencyReport, loopback: number | null) => {
+        const measurement: LatencyMeasurement = {
+            date: new Date().toISOString(),
+            mode: activeLatencyMode ?? latencyMode,
+            inputLabel: streamRef.current?.getAudioTracks()[0]?.label ?? '',
+            outputLabel: activeOutputRef.current ?? '',
+            report,
+            loopback,
+        };
+        setLatencyMeasurements(prev => [measurement, ...prev].slice(0, MAX_LATENCY_MEASUREMENTS));
+    };
+
+    const handlePreAmpChange = (value: number) => {
+        engine.setPreAmp(value);
         setSelectedProfile('custom');
     };
 
-    const handleVolumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newVolume = parseInt(e.target.value, 10);
-        setVolume(newVolume);
-        if (gainNodeRef.current && audioContextRef.current) {
-            gainNodeRef.current.gain.setValueAtTime(newVolume / 100, audioContextRef.current.currentTime);
-        }
+    const handleVolumeChange = (newVolume: number) => {
+        engine.setVolume(newVolume);
         if (newVolume > 270 && !showHighVolumeWarning) {
             setShowHighVolumeWarning(true);
         }
         setSelectedProfile('custom');
     };
 
-    const handleEqChange = (freq: number, value: number) => {
-        setEqValues(prev => ({ ...prev, [freq]: value }));
-        const eqNode = eqNodesRef.current.find(n => n.frequency.value === freq);
-        if (eqNode && audioContextRef.current) {
-            eqNode.gain.setValueAtTime(value, audioContextRef.current.currentTime);
-        }
+    const handleEqChange = (freq: number, value: number, ear: Ear | 'both' = eqEar) => {
+        engine.setEqGain(ear === 'both' ? EARS : [ear], freq, value);
         setSelectedProfile('custom');
     };
 
-    const handleBalanceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newBalance = parseInt(e.target.value, 10);
-        setBalance(newBalance);
-        if (pannerNodeRef.current && audioContextRef.current) {
-            pannerNodeRef.current.pan.setValueAtTime(newBalance / 100, audioContextRef.current.currentTime);
-        }
+    const handleEqLayoutChange = (layout: EQLayout) => {
+        engine.setEqLayout(layout);
+        setStoredEqLayout(layout);
+    };
+
+    const handleEqFilterChange = <K extends keyof EQFilters>(key: K, filter: EQFilters[K]) => {
+        engine.setEqFilters({ ...eqFilters, [key]: filter });
+        setSelectedProfile('custom');
+    };
+
+    const handleEarSettingChange = (ear: Ear, key: keyof EarSettings, value: number) => {
+        engine.setEarSetting(ear, key, value);
+        setSelectedProfile('custom');
+    };
+
+    const handleBalanceChange = (value: number) => {
+        engine.setBalance(value);
         setSelectedProfile('custom');
     };
     
-    const applyProfile = (profile: Profile) => {
-        const safePreAmp = Number.isFinite(profile.preAmp) ? profile.preAmp : DEFAULT_PRE_AMP;
-        const safeVolume = Number.isFinite(profile.volume) ? profile.volume : DEFAULT_VOLUME;
-        const safeBalance = Number.isFinite(profile.balance) ? profile.balance : DEFAULT_BALANCE;
-        
-        const safeEq: EQSettings = {};
-        EQ_FREQUENCIES.forEach(freq => {
-            const value = profile.eq?.[freq];
-            safeEq[freq] = Number.isFinite(value) ? value! : 0;
+    const handleFeedbackProtectionChange = (enabled: boolean) => {
+        setFeedbackProtection(enabled);
+        if (!enabled && engine.feedbackSuppressor && engine.context) {
+            engine.feedbackSuppressor.reset(engine.context.currentTime);
+            setActiveNotches([]);
+        }
+    };
+
+    const handleResetNotches = () => {
+        if (engine.feedbackSuppressor && engine.context) {
+            engine.feedbackSuppressor.reset(engine.context.currentTime);
+        }
+        setActiveNotches([]);
+    };
+
+    const handleOutputCeilingChange = (value: number) => {
+        setOutputCeiling(value);
+        engine.setOutputCeiling(value);
+    };
+
+    const updateCompression = (next: CompressionSettings) => {
+        engine.setCompression(next);
+        setSelectedProfile('custom');
+    };
+
+    const handleCompressionBandChange = (index: number, key: keyof CompressorBand, value: number) => {
+        updateCompression({
+            ...compression,
+            bands: compression.bands.map((band, i) => (i === index ? { ...band, [key]: value } : band)),
         });
+    };
 
-        setPreAmp(safePreAmp);
-        setVolume(safeVolume);
-        setEqValues(safeEq);
-        setBalance(safeBalance);
+    const updateNoiseReduction = (next: NoiseReductionSettings) => {
+        engine.setNoiseReduction(next);
+        setSelectedProfile('custom');
+    };
 
-        if (audioContextRef.current) {
-            if (preAmpGainNodeRef.current) {
-                preAmpGainNodeRef.current.gain.setValueAtTime(safePreAmp / 100, audioContextRef.current.currentTime);
-            }
-            if (gainNodeRef.current) {
-                gainNodeRef.current.gain.setValueAtTime(safeVolume / 100, audioContextRef.current.currentTime);
-            }
-            if (pannerNodeRef.current) {
-                pannerNodeRef.current.pan.setValueAtTime(safeBalance / 100, audioContextRef.current.currentTime);
+    const updateSpeechFocus = (next: SpeechFocusSettings) => {
+        engine.setSpeechFocus(next);
+        setSelectedProfile('custom');
+    };
+
+    const updateSoundGenerator = (next: SoundGeneratorSettings) => {
+        engine.setSoundGenerator(next);
+        if (!next.enabled) setSleepTimer(null);
+        setSelectedProfile('custom');
+    };
+
+    // Ends a running sleep fade-out and gives the generator its level back.
+    const cancelSleepFade = (enabled = engine.settings.soundGenerator.enabled) => {
+        const fade = sleepFadeRef.current;
+        if (!fade) return;
+        window.clearTimeout(fade.timer);
+        sleepFadeRef.current = null;
+        engine.setSoundGenerator({ ...engine.settings.soundGenerator, level: fade.level, enabled });
+    };
+
+    const handleSleepTimer = (minutes: number) => {
+        setSleepTimer(minutes > 0 ? { minutes, until: Date.now() + minutes * 60 * 1000 } : null);
+    };
+
+    useEffect(() => {
+        if (!sleepTimer) return;
+        const timer = window.setTimeout(() => {
+            const generator = engine.settings.soundGenerator;
+            if (generator.microphone) {
+                setSleepTimer(null);
+                engine.setSoundGenerator({ ...generator, enabled: false }, SLEEP_FADE_SECONDS);
+                return;
             }
-            eqNodesRef.current.forEach(node => {
-                const gainValue = safeEq[node.frequency.value];
-                node.gain.setValueAtTime(gainValue, audioContextRef.current!.currentTime);
-            });
+            // Switching the generator off would bring the microphone back, so without it the sound fades out and Klangnah stops.
+            engine.setSoundGenerator({ ...generator, level: SOUND_GENERATOR_MIN_LEVEL }, SLEEP_FADE_SECONDS);
+            // handleStop switches the generator off at its earlier level and clears the sleep timer.
+            sleepFadeRef.current = { level: generator.level, timer: window.setTimeout(handleStop, SLEEP_FADE_SECONDS * 1000) };
+        }, Math.max(0, sleepTimer.until - Date.now()));
+        return () => {
+            clearTimeout(timer);
+            cancelSleepFade();
+        };
+    }, [engine, sleepTimer]);
+
+    useEffect(() => {
+        engine.setMatchTone(matchTone && isStarted ? soundGenerator.tinnitusFrequency : null);
+    }, [engine, matchTone, isStarted, soundGenerator.tinnitusFrequency]);
+
+    const handleLearnNoise = async () => {
+        if (!engine.running) return;
+        setNoiseLearning('learning');
+        await engine.learnNoise();
+        setNoiseLearning('learned');
+    };
+
+    const stopClip = () => {
+        const node = clipSourceRef.current;
+        if (!node) return;
+        clipSourceRef.current = null;
+        node.onended = null;
+        node.stop();
+        if (micSourceRef.current) engine.setSource(micSourceRef.current);
+        setPlayingClipId(null);
+    };
+
+    // Feeds a clip through the processing chain in place of the microphone.
+    const playClip = async (clip: Clip, loop: boolean) => {
+        const context = audioContextRef.current;
+        if (!context || !engine.running) return;
+        try {
+            const buffer = await context.decodeAudioData(await clip.audio.arrayBuffer());
+            stopClip();
+            const node = context.createBufferSource();
+            node.buffer = buffer;
+            node.loop = loop;
+            node.onended = () => {
+                if (clipSourceRef.current === node) stopClip();
+            };
+            engine.setSource(node);
+            node.start();
+            clipSourceRef.current = node;
+            setPlayingClipId(clip.id);
+        } catch (err) {
+            console.error('Error playing clip:', err);
+            alert(t('error.clipPlayback'));
+        }
+    };
+
+    const applyProfile = (profile: Profile, crossfade = 0) => {
+        const applied = engine.applyProfile(profile, { crossfade });
+        setEqEar(isEqLinked(applied.eq) ? 'both' : 'left');
+        if (profile.devices) {
+            applyDeviceSelection(profile.devices);
         }
     }
 
-    const handleProfileSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const profileName = e.target.value;
-        setSelectedProfile(profileName);
-        if(profileName === 'default') {
-             applyProfile({name: 'default', preAmp: DEFAULT_PRE_AMP, volume: DEFAULT_VOLUME, eq: DEFAULT_EQ, balance: DEFAULT_BALANCE});
-             return;
+    const findProfile = (profileName: string): Profile | undefined => {
+        if (profileName === 'default') {
+            return {name: 'default', preAmp: DEFAULT_PRE_AMP, volume: DEFAULT_VOLUME, eq: DEFAULT_EQ, balance: DEFAULT_BALANCE};
         }
-        if(profileName === 'custom') return;
+        return [...PREDEFINED_PROFILES, ...customProfiles].find(p => p.name === profileName);
+    };
 
-        const allProfiles = [...PREDEFINED_PROFILES, ...customProfiles];
-        const profile = allProfiles.find(p => p.name === profileName);
+    const selectProfile = (profileName: string, crossfade = profileCrossfade) => {
+        setSelectedProfile(profileName);
+        const profile = findProfile(profileName);
         if(profile) {
-            applyProfile(profile);
+            applyProfile(profile, crossfade);
         }
     }
-    
-    const handleSaveProfile = () => {
-        const name = prompt('Geben Sie einen Namen für das neue Profil ein:');
-        if(name && !PREDEFINED_PROFILES.find(p => p.name === name) && !customProfiles.find(p => p.name === name)) {
-            const newProfile: Profile = { name, preAmp, volume, eq: eqValues, balance };
-            setCustomProfiles(prev => [...prev, newProfile]);
-            alert(`Profil "${name}" gespeichert!`);
-            setSelectedProfile(name);
-        } else if (name) {
-            alert('Ein Profil mit diesem Namen existiert bereits.');
+
+    const handleProfileSelect = (e: React.ChangeEvent<HTMLSelectElement>) => selectProfile(e.target.value);
+
+    const captureSettings = (name: string): Profile => ({
+        name, preAmp, volume, eq: eqValues, eqLayout, eqFilters, balance, ears: earSettings, compression, noiseReduction, speechFocus, soundGenerator,
+        devices: selectionFor(audioDevices, inputDeviceId, outputDeviceId),
+    });
+
+    useEffect(() => {
+        if (lastSession) {
+            // The devices are remembered on their own and may have changed since.
+            applyProfile({ ...lastSession, devices: undefined });
+            setSelectedProfile(lastSession.name);
+            return;
         }
+        const profile = selectedProfile === 'custom' ? undefined : findProfile(selectedProfile);
+        if (profile) {
+            applyProfile(profile);
+        } else {
+            setSelectedProfile('default');
+        }
+    }, []);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setLastSession(captureSettings(selectedProfile)), SESSION_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [engineSettings, selectedProfile]);
+
+    const recordUsage = (entry: Pick<UsageEntry, 'type'> & Partial<UsageEntry>) => {
+        const session = usageSessionRef.current;
+        if (!session) return;
+        logUsage({
+            time: new Date().toISOString(),
+            session,
+            profile: selectedProfileRef.current,
+            volume: engine.settings.volume,
+            preAmp: engine.settings.preAmp,
+            ...entry,
+        }).catch(err => console.error('Error writing usage log:', err));
+    };
+
+    // Usage log: one session per start, average levels every minute.
+    useEffect(() => {
+        if (!isStarted || !isLocalDbSupported()) return;
+        usageSessionRef.current = createUsageSession();
+        pruneUsage().catch(err => console.error('Error pruning usage log:', err));
+        recordUsage({ type: 'start', snapshot: captureSettings(selectedProfileRef.current) });
+
+        const samples = new Float32Array(2048);
+        const input = createLevelAverage();
+        const output = createLevelAverage();
+        const flush = () => {
+            // Very short remainders (stopping right after a full minute) are not worth an entry.
+            if (input.seconds >= 5) {
+                recordUsage({ type: 'levels', seconds: input.seconds, inputLevel: input.value, outputLevel: output.value });
+            }
+            input.reset();
+            output.reset();
+        };
+        const timer = setInterval(() => {
+            const analysers = engine.analysers;
+            if (!analysers) return;
+            analysers.input.getFloatTimeDomainData(samples);
+            input.add(rmsToDbfs(samples));
+            analysers.output.getFloatTimeDomainData(samples);
+            output.add(rmsToDbfs(samples));
+            if (input.seconds >= USAGE_LEVEL_INTERVAL) flush();
+        }, 1000);
+
+        return () => {
+            clearInterval(timer);
+            flush();
+            recordUsage({ type: 'stop' });
+            usageSessionRef.current = null;
+        };
+    }, [isStarted]);
+
+    useEffect(() => {
+        recordUsage({ type: 'profile' });
+    }, [selectedProfile]);
+
+    useEffect(() => {
+        if (!usageSessionRef.current) return;
+        const timer = setTimeout(() => recordUsage({ type: 'settings', snapshot: captureSettings(selectedProfileRef.current) }), USAGE_SETTINGS_DELAY);
+        return () => clearTimeout(timer);
+    }, [preAmp, volume, eqValues]);
+
+    const handleRestoreSnapshot = (snapshot: Profile) => {
+        // Only the sound settings go back; the devices stay as they are now.
+        applyProfile({ ...snapshot, devices: undefined }, profileCrossfade);
+        setSelectedProfile('custom');
+        setShowUsageHistory(false);
+    };
+
+    const handleSaveProfile = (name: string, overwrite: boolean) => {
+        if (overwrite) {
+            setCustomProfiles(prev => prev.map(p => (p.name === name ? { ...p, ...captureSettings(name) } : p)));
+        } else {
+            setCustomProfiles(prev => [...prev, captureSettings(name)]);
+        }
+        setSelectedProfile(name);
+        setShowSaveProfile(false);
+    };
+
+    const handleRenameProfile = (oldName: string, newName: string) => {
+        setCustomProfiles(prev => prev.map(p => (p.name === oldName ? { ...p, name: newName } : p)));
+        if (selectedProfile === oldName) setSelectedProfile(newName);
+        setSceneSettings(prev => ({
+            ...prev,
+            mapping: Object.fromEntries(Object.entries(prev.mapping).map(([scene, name]) => [scene, name === oldName ? newName : name])),
+        }));
+    };
+
+    const handleDeleteProfile = (name: string) => {
+        const index = customProfiles.findIndex(p => p.name === name);
+        if (index === -1) return;
+        setDeletedProfile({ profile: customProfiles[index], index });
+        setCustomProfiles(prev => prev.filter(p => p.name !== name));
+        if (selectedProfile === name) setSelectedProfile('custom');
+    };
+
+    const handleUndoDelete = () => {
+        if (!deletedProfile) return;
+        const { profile, index } = deletedProfile;
+        setCustomProfiles(prev => {
+            const name = uniqueProfileName(profile.name, n => prev.some(p => p.name === n) || reservedProfileNames.includes(n));
+            const next = [...prev];
+            next.splice(Math.min(index, next.length), 0, { ...profile, name });
+            return next;
+        });
+        setDeletedProfile(null);
+    };
+
+    useEffect(() => {
+        if (!deletedProfile) return;
+        const timer = window.setTimeout(() => setDeletedProfile(null), 10000);
+        return () => window.clearTimeout(timer);
+    }, [deletedProfile]);
+
+    const handleDuplicateProfile = (profile: Profile) => {
+        const name = uniqueProfileName(t('profiles.copyName', { name: profileLabel(profile.name) }), isProfileNameTaken);
+        const copy: Profile = { ...profile, name, eq: toStereoEq(profile.eq, eqFrequencies(profile.eqLayout ?? DEFAULT_EQ_LAYOUT)), favorite: false };
+        setCustomProfiles(prev => [...prev, copy]);
+        applyProfile(copy);
+        setSelectedProfile(name);
+    };
+
+    const handleToggleFavorite = (name: string) => {
+        setCustomProfiles(prev => prev.map(p => (p.name === name ? { ...p, favorite: !p.favorite } : p)));
     };
 
     const handleReset = () => {
-        applyProfile({name: 'default', preAmp: DEFAULT_PRE_AMP, volume: DEFAULT_VOLUME, eq: DEFAULT_EQ, balance: DEFAULT_BALANCE});
-        setSelectedProfile('default');
+        selectProfile('default');
+    };
+
+    const handleAbCompareToggle = (enabled: boolean) => {
+        if (!enabled) {
+            setAbCompare(null);
+            return;
+        }
+        const a = findProfile(selectedProfile) ? selectedProfile : 'default';
+        const b = [...PREDEFINED_PROFILES, ...customProfiles].find(p => p.name !== a)?.name ?? 'default';
+        setAbCompare({ a, b, active: 'a' });
+        selectProfile(a, AB_SWITCH_CROSSFADE);
+    };
+
+    const handleAbSwitch = (side: 'a' | 'b') => {
+        if (!abCompare) return;
+        setAbCompare({ ...abCompare, active: side });
+        selectProfile(abCompare[side], AB_SWITCH_CROSSFADE);
+    };
+
+    const handleAbProfileChange = (side: 'a' | 'b', profileName: string) => {
+        if (!abCompare) return;
+        setAbCompare({ ...abCompare, [side]: profileName });
+        if (abCompare.active === side) selectProfile(profileName, AB_SWITCH_CROSSFADE);
+    };
+
+    const handleOpenHearingTest = () => {
+        engine.setMuted(true);
+        setShowHearingTest(true);
+    };
+
+    const handleCancelHearingTest = () => {
+        setShowHearingTest(false);
+        engine.setMuted(isMuted);
+    };
+
+    const builtInProfileNames = ['default', 'custom', ...PREDEFINED_PROFILES.map(p => p.name)];
+    // Names in every language stay reserved, so switching the language never shows two profiles with the same name.
+    const reservedProfileNames = builtInProfileNames.flatMap(name => [name, ...allTranslations(`profile.${name}` as MessageId)]);
+
+    const isProfileNameTaken = (name: string) =>
+        reservedProfileNames.includes(name) || !!customProfiles.find(p => p.name === name);
+
+    // Fits at the tested frequencies and maps the result onto the active EQ layout.
+    const fitToLayout = (audiogram: Audiogram, rule: FittingRule) => {
+        const tested = Object.keys(audiogram.left).map(Number).sort((a, b) => a - b);
+        const fit = fitAudiogram(audiogram, tested, rule);
+        return { ...fit, eq: toStereoEq(fit.eq, eqFrequencies(eqLayout)), eqLayout };
+    };
+
+    const handleHearingTestComplete = (name: string, audiogram: Audiogram, rule: FittingRule) => {
+        const fit = fitToLayout(audiogram, rule);
+        const newProfile: Profile = { name, preAmp: DEFAULT_PRE_AMP, ...fit, audiogram, fittingRule: rule };
+        setCustomProfiles(prev => [...prev, newProfile]);
+        setShowHearingTest(false);
+        engine.setMuted(isMuted);
+        applyProfile(newProfile);
+        setSelectedProfile(name);
+    };
+
+    const favoriteProfiles = customProfiles.filter(p => p.favorite);
+
+    const sceneLabel = (scene: Scene) => t(`scene.${scene}`);
+    const profileLabel = (name: string) => (builtInProfileNames.includes(name) ? t(`profile.${name}` as MessageId) : name);
+
+    const changeVolumeBy = (delta: number) => {
+        const next = Math.min(300, Math.max(0, volume + delta));
+        handleVolumeChange(next);
+        announce(t('announce.volume', { value: next }));
+    };
+
+    const changeMuted = (muted: boolean) => {
+        if (!isStarted) return;
+        setMuted(muted);
+        announce(t(muted ? 'announce.muted' : 'announce.unmuted'));
+    };
+
+    const cycleProfile = (direction: 1 | -1) => {
+        const names = ['default', ...PREDEFINED_PROFILES.map(p => p.name), ...customProfiles.map(p => p.name)];
+        const index = names.indexOf(selectedProfile);
+        const next = index === -1
+            ? names[direction === 1 ? 0 : names.length - 1]
+            : names[(index + direction + names.length) % names.length];
+        selectProfile(next);
+        announce(t('announce.profile', { name: profileLabel(next) }));
+    };
+
+    const toggleRunning = () => {
+        if (isStarted) {
+            handleStop();
+            announce(t('announce.stopped'));
+        } else if (!showInitialWarning) {
+            initAudio();
+            announce(t('announce.starting'));
+        }
+    };
+
+    // Keyboard and headset handlers are registered once and always call the latest closures.
+    shortcutActionsRef.current = {
+        volumeUp: () => changeVolumeBy(VOLUME_KEY_STEP),
+        volumeDown: () => changeVolumeBy(-VOLUME_KEY_STEP),
+        toggleMute: () => changeMuted(!isMuted),
+        setMuted: changeMuted,
+        nextProfile: () => cycleProfile(1),
+        previousProfile: () => cycleProfile(-1),
+        toggleRunning,
+    };
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented) return;
+            const action = SHORTCUT_KEYS[e.key.toLowerCase()];
+            if (!action || (e.repeat && action !== 'volumeUp' && action !== 'volumeDown')) return;
+            const target = e.target as HTMLElement;
+            if (target.isContentEditable || target.matches('textarea, select, input:not([type="range"]):not([type="checkbox"]):not([type="radio"])')) return;
+            if (document.querySelector('.modal-overlay')) return;
+            e.preventDefault();
+            shortcutActionsRef.current![action]();
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    useEffect(() => {
+        if (!isStarted) return;
+        const unbind = bindMediaSession({
+            play: () => shortcutActionsRef.current!.setMuted(false),
+            pause: () => shortcutActionsRef.current!.setMuted(true),
+            next: () => shortcutActionsRef.current!.nextProfile(),
+            previous: () => shortcutActionsRef.current!.previousProfile(),
+            volumeUp: () => shortcutActionsRef.current!.volumeUp(),
+            volumeDown: () => shortcutActionsRef.current!.volumeDown(),
+        });
+        return () => {
+            unbind();
+            updateMediaSession(null, false);
+        };
+    }, [isStarted]);
+
+    useEffect(() => {
+        if (isStarted) updateMediaSession(profileLabel(selectedProfile), !isMuted, t('app.documentTitle'));
+    }, [isStarted, selectedProfile, isMuted, i18n]);
+
+    const handleSceneMappingChange = (scene: Scene, profileName: string) => {
+        setSceneSettings(prev => ({ ...prev, mapping: { ...prev.mapping, [scene]: profileName || undefined } }));
     };
 
+    const handleAcceptSceneSuggestion = () => {
+        const target = sceneSuggestion && sceneSettings.mapping[sceneSuggestion];
+        if (target) selectProfile(target, SCENE_CROSSFADE_SECONDS);
+        setSceneSuggestion(null);
+    };
+
+    const fittedProfile = customProfiles.find(p => p.name === selectedProfile && p.audiogram);
+
+    const handleRefit = (rule: FittingRule) => {
+        if (!fittedProfile?.audiogram) return;
+        const fit = fitToLayout(fittedProfile.audiogram, rule);
+        const refitted: Profile = { ...fittedProfile, ...fit, fittingRule: rule };
+        setCustomProfiles(prev => prev.map(p => (p.name === refitted.name ? refitted : p)));
+        applyProfile(refitted);
+    };
+
+    const currentSettingsProfile = (): Profile => ({
+        ...captureSettings(profileLabel(selectedProfile)),
+        ...(fittedProfile?.audiogram && { audiogram: fittedProfile.audiogram, fittingRule: fittedProfile.fittingRule }),
+    });
+
+    useEffect(() => {
+        if (window.location.hash.startsWith('#import=')) {
+            setProfileImportCode(window.location.hash.slice('#import='.length));
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        } else if (window.location.hash.startsWith('#remote=')) {
+            setRemoteOfferCode(window.location.hash.slice('#remote='.length));
+            window.history.replaceState(null, '', window.location.pathname + window.location.search);
+        }
+    }, []);
+
+    const remoteProfileOptions = (): RemoteProfileOption[] =>
+        ['default', ...PREDEFINED_PROFILES.map(p => p.name), ...customProfiles.map(p => p.name)].map(name => ({ name, label: profileLabel(name) }));
+
+    // Remote commands take the same paths as the controls on this device; values are kept to the slider ranges.
+    remoteCommandRef.current = (message: RemoteMessage) => {
+        switch (message.type) {
+            case 'profile':
+                if (remoteProfileOptions().some(p => p.name === message.name)) selectProfile(message.name);
+                break;
+            case 'volume':
+                handleVolumeChange(Math.round(Math.min(300, Math.max(0, message.value))));
+                break;
+            case 'balance':
+                handleBalanceChange(Math.round(Math.min(100, Math.max(-100, message.value))));
+                break;
+            case 'eq':
+                if (eqFrequencies(eqLayout).includes(message.frequency)) {
+                    handleEqChange(message.frequency, Math.round(Math.min(EQ_MAX_GAIN, Math.max(-EQ_MAX_GAIN, message.gain))), message.ear);
+                }
+                break;
+        }
+    };
+
+    const closeRemote = () => {
+        remoteAttemptRef.current++;
+        remotePairingRef.current?.link.close();
+        remotePairingRef.current = null;
+        setRemoteOffer(null);
+        setRemoteStatus(null);
+    };
+
+    const handleStartRemotePairing = async () => {
+        closeRemote();
+        const attempt = remoteAttemptRef.current;
+        setShowRemotePairing(true);
+        let connected = false;
+        try {
+            const pairing = await createOwnerPairing({
+                onMessage: message => remoteCommandRef.current!(message),
+                onStatus: status => {
+                    // Closing on purpose (revoke, new pairing) has already reset the state.
+                    if (attempt !== remoteAttemptRef.current) return;
+                    setRemoteStatus(status);
+                    if (status === 'connected') {
+                        connected = true;
+                        setShowRemotePairing(false);
+                        announce(t('remote.connectedAnnounce'));
+                    } else if (status === 'closed' && connected) {
+                        remotePairingRef.current = null;
+                        announce(t('remote.endedAnnounce'));
+                    }
+                },
+            });
+            if (attempt !== remoteAttemptRef.current) {
+                pairing.link.close();
+                return;
+            }
+            remotePairingRef.current = pairing;
+            setRemoteOffer(pairing.offer);
+            setRemoteStatus(pairing.link.status);
+        } catch (err) {
+            console.error('Error starting remote control:', err);
+            setShowRemotePairing(false);
+            alert(t('remote.connectError'));
+        }
+    };
+
+    const handleCancelRemotePairing = () => {
+        setShowRemotePairing(false);
+        if (remoteStatus !== 'connected') closeRemote();
+    };
+
+    const handleRevokeRemote = () => {
+        remotePairingRef.current?.link.send({ type: 'revoke' });
+        closeRemote();
+        announce(t('remote.revokedAnnounce'));
+    };
+
+    useEffect(() => {
+        if (remoteStatus !== 'connected') return;
+        remotePairingRef.current?.link.send({
+            type: 'state',
+            state: { running: isStarted, profile: selectedProfile, profiles: remoteProfileOptions(), volume, balance, eq: eqValues },
+        });
+    }, [remoteStatus, isStarted, selectedProfile, volume, balance, eqValues, customProfiles, i18n]);
+
+    useEffect(() => {
+        if (remoteStatus !== 'connected' || !isStarted) return;
+        const samples = new Float32Array(2048);
+        const timer = setInterval(() => {
+            const analysers = engine.analysers;
+            if (!analysers) return;
+            analysers.input.getFloatTimeDomainData(samples);
+            const input = rmsToDbfs(samples);
+            analysers.output.getFloatTimeDomainData(samples);
+            remotePairingRef.current?.link.send({ type: 'levels', input, output: rmsToDbfs(samples) });
+        }, REMOTE_LEVEL_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [remoteStatus, isStarted]);
+
+    const handleImport = (imported: ImportedProfile[]) => {
+        setCustomProfiles(prev => {
+            let next = [...prev];
+            imported.forEach(({ profile, replace }) => {
+                next = replace ? next.map(p => (p.name === profile.name ? profile : p)) : [...next, profile];
+            });
+            return next;
+        });
+        setProfileImportCode(null);
+    };
+
+    const renderProfileOptions = () => (
+        <>
+            <option value="default">{t('profile.default')}</option>
+            <optgroup label={t('profiles.predefined')}>
+                {PREDEFINED_PROFILES.map(p => <option key={p.name} value={p.name}>{profileLabel(p.name)}</option>)}
+            </optgroup>
+            {customProfiles.length > 0 && <optgroup label={t('profiles.mine')}>
+                {customProfiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </optgroup>}
+        </>
+    );
+
     const toggleTheme = () => setTheme(prev => (prev === 'light' ? 'dark' : 'light'));
     
-    const renderSlider = (label: string, value: number, min: number, max: number, step: number, unit: string, onChange: (value: number) => void, containerClass = "slider-container") => {
+    const renderSlider = (label: string, value: number, min: number, max: number, step: number, unit: string, onChange: (value: number) => void, containerClass = "slider-container", id = label, format = (v: number) => `${v}${unit}`) => {
         const backgroundSize = ((value - min) * 100) / (max - min) + '%';
+        const change = (next: number) => {
+            onChange(next);
+            announce(t('slider.announce', { label, value: format(next) }), false);
+        };
+        // The +/- buttons move in about 20 steps across the range, rounded to the slider's own step.
+        const coarseStep = Math.max(step, Math.round((max - min) / 20 / step) * step);
+        const stepBy = (direction: 1 | -1) => {
+            const decimals = (String(step).split('.')[1] || '').length;
+            const next = Math.min(max, Math.max(min, Number((value + direction * coarseStep).toFixed(decimals))));
+            if (next === value) return;
+            onChange(next);
+            announce(t('slider.announce', { label, value: format(next) }));
+        };
         return (
-            <div className={containerClass} key={label}>
-                <label htmlFor={label}>{label}</label>
+            <div className={containerClass} key={id}>
+                <label htmlFor={id}>{label}</label>
+                {largeControls && <button className="btn slider-stepper stepper-down" onClick={() => stepBy(-1)} disabled={value <= min} aria-label={t('slider.decrease', { label })}>−</button>}
                 <input
                     type="range"
-                    id={label}
+                    id={id}
                     min={min}
                     max={max}
                     step={step}
                     value={value}
-                    onChange={e => onChange(Number(e.target.value))}
+                    onChange={e => change(Number(e.target.value))}
                     style={{ backgroundSize }}
-                    aria-label={`${label} Regler`}
+                    aria-label={t('slider.aria', { label })}
                     aria-valuemin={min}
                     aria-valuemax={max}
                     aria-valuenow={value}
+                    aria-valuetext={format(value)}
                 />
-                <span className="value">{value}{unit}</span>
+                {largeControls && <button className="btn slider-stepper stepper-up" onClick={() => stepBy(1)} disabled={value >= max} aria-label={t('slider.increase', { label })}>+</button>}
+                <span className="value" aria-hidden="true">{format(value)}</span>
             </div>
         );
     };
 
+    const formatLevel = (value: number) => (Number.isFinite(value) ? `${Math.round(value)} dB` : '–');
+
+    const recentDoseDays = Object.keys(doseHistory).sort().reverse().slice(0, 7);
+
     const formatBalanceValue = (value: number) => {
-        if (value === 0) return 'Mitte';
-        if (value > 0) return `R ${value}`;
-        return `L ${-value}`;
+        if (value === 0) return t('balance.center');
+        if (value > 0) return t('balance.right', { value });
+        return t('balance.left', { value: -value });
     };
 
     return (
+        <I18nContext.Provider value={i18n}>
         <div className="app-container">
+            <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
             <header className="header">
                 <div className="time-date">
-                    <div className="time">{currentTime.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })}</div>
-                    <div>{currentTime.toLocaleDateString('de-DE')}</div>
+                    <div className="time">{currentTime.toLocaleTimeString(tag, { hour: '2-digit', minute: '2-digit' })}</div>
+                    <div>{currentTime.toLocaleDateString(tag)}</div>
                 </div>
-                 <h1 className="header-title">Klangnah</h1>
+                 <h1 className="header-title">{t('app.title')}</h1>
                 <div className="controls">
-                    <button className="icon-btn" onClick={() => setShowInstructions(true)} aria-label="Anleitung anzeigen">
+                    <select className="language-select" value={i18n.locale} onChange={e => setStoredLocale(e.target.value as Locale)} aria-label={t('header.language')}>
+                        {LOCALES.map(locale => <option key={locale.id} value={locale.id} lang={locale.id}>{locale.label}</option>)}
+                    </select>
+                    <button className="icon-btn" onClick={() => setShowInstructions(true)} aria-label={t('header.instructions')}>
                          <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm1 17h-2v-2h2v2zm2.07-7.75l-.9.92C13.45 12.9 13 13.5 13 15h-2v-.5c0-1.1.45-2.1 1.17-2.83l1.24-1.26c.37-.36.59-.86.59-1.41 0-1.1-.9-2-2-2s-2 .9-2 2H8c0-2.21 1.79-4 4-4s4 1.79 4 4c0 .88-.36 1.68-.93 2.25z"/></svg>
                     </button>
-                    <button className="icon-btn" onClick={toggleTheme} aria-label="Theme wechseln">
+                    <button className="icon-btn" onClick={() => setLargeControls(!largeControls)} aria-label={t('header.largeControls')} aria-pressed={largeControls}>
+                         <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M9 4v3h5v12h3V7h5V4H9zm-6 8h3v7h3v-7h3V9H3v3z"/></svg>
+                    </button>
+                    <button className="icon-btn" onClick={toggleTheme} aria-label={t('header.theme')}>
                         {theme === 'light' ? 
                          <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M12 3a9 9 0 1 0 9 9c0-.46-.04-.92-.1-1.36a5.389 5.389 0 0 1-4.4 2.26 5.403 5.403 0 0 1-5.4-5.4c0-1.54.65-2.94 1.68-3.96A8.91 8.91 0 0 0 12 3z"/></svg> :
                          <svg xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24"><path d="M20 8.69V4h-4.69L12 .69 8.69 4H4v4.69L.69 12 4 15.31V20h4.69L12 23.31 15.31 20H20v-4.69L23.31 12 20 8.69zM12 18c-3.31 0-6-2.69-6-6s2.69-6 6-6 6 2.69 6 6-2.69 6-6 6zm0-10c-2.21 0-4 1.79-4 4s1.79 4 4 4 4-1.79 4-4-1.79-4-4-4z"/></svg>}
@@ -402,74 +1347,574 @@ const App: React.FC = () => {
             </header>
 
             <main className="main-content">
+                {applyUpdate && (
+                    <div className="notice-banner" role="status">
+                        <span>{t('notice.update')}{isStarted && ` ${t('notice.updateInterrupts')}`}</span>
+                        <div className="notice-actions">
+                            <button className="btn btn-primary" onClick={applyUpdate}>{t('notice.updateApply')}</button>
+                            <button className="icon-btn" onClick={() => setApplyUpdate(null)} aria-label={t('notice.later')}>✕</button>
+                        </div>
+                    </div>
+                )}
+                {isStarted && audioState !== 'running' && (
+                    <div className="notice-banner" role="alert">
+                        <span>{t('notice.audioInterrupted')}</span>
+                    </div>
+                )}
+                {feedbackNotice && (
+                    <div className="notice-banner" role="alert">
+                        <span>{t('notice.feedback', { frequencies: feedbackNotice.map(freq => formatFrequency(freq, tag)).join(', ') })}</span>
+                        <button className="icon-btn" onClick={() => setFeedbackNotice(null)} aria-label={t('common.dismissNotice')}>✕</button>
+                    </div>
+                )}
+                {deviceNotice && (
+                    <div className="notice-banner" role="alert">
+                        <span>{t(deviceNotice)}</span>
+                        <button className="icon-btn" onClick={() => setDeviceNotice(null)} aria-label={t('common.dismissNotice')}>✕</button>
+                    </div>
+                )}
+                {sceneSuggestion && sceneSettings.mapping[sceneSuggestion] && (
+                    <div className="notice-banner" role="status">
+                        <span>{t('notice.sceneSuggestion', { scene: sceneLabel(sceneSuggestion), profile: profileLabel(sceneSettings.mapping[sceneSuggestion]!) })}</span>
+                        <div className="notice-actions">
+                            <button className="btn" onClick={handleAcceptSceneSuggestion}>{t('notice.sceneLoad')}</button>
+                            <button className="icon-btn" onClick={() => setSceneSuggestion(null)} aria-label={t('notice.sceneDecline')}>✕</button>
+                        </div>
+                    </div>
+                )}
+                {remoteStatus === 'connected' && (
+                    <div className="notice-banner remote-indicator" role="status">
+                        <span>{t('notice.remoteActive')}</span>
+                        <button className="btn btn-danger" onClick={handleRevokeRemote}>{t('remote.revoke')}</button>
+                    </div>
+                )}
+                {isStarted && isMuted && (
+                    <div className="notice-banner" role="status">
+                        <span>{t('notice.muted')}</span>
+                        <button className="btn" onClick={() => setMuted(false)}>{t('notice.unmute')}</button>
+                    </div>
+                )}
                 {isStarted ? (
                     <>
                     <div className="control-card">
-                        <h2>Vorverstärkung (Pre-Amp)</h2>
-                        <canvas ref={visualizerCanvasRef} className="visualizer" width="600" height="80"></canvas>
-                        {renderSlider('Pre-Amp', preAmp, 0, 300, 1, '%', (v) => handlePreAmpChange({ target: { value: String(v) } } as any))}
+                        <h2>{t('devices.title')}</h2>
+                        <div className="form-row">
+                            <label htmlFor="input-device">{t('devices.input')}</label>
+                            <select id="input-device" value={inputDeviceId} onChange={e => switchInput(e.target.value)}>
+                                <option value="">{t('devices.defaultInput')}</option>
+                                {physicalDevices(audioDevices.inputs).map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || t('devices.input')}</option>)}
+                            </select>
+                        </div>
+                        <div className="form-row">
+                            <label htmlFor="output-device">{t('devices.output')}</label>
+                            <select id="output-device" value={outputDeviceId} onChange={e => switchOutput(e.target.value)} disabled={!supportsOutputSelection()}>
+                                <option value="">{t('devices.defaultOutput')}</option>
+                                {physicalDevices(audioDevices.outputs).map(d => <option key={d.deviceId} value={d.deviceId}>{d.label || t('devices.outputFallback')}</option>)}
+                            </select>
+                        </div>
+                        {!supportsOutputSelection() && <p className="card-hint">{t('devices.noOutputSelection')}</p>}
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('latency.title')}</h2>
+                        <LatencyDiagnostics
+                            mode={latencyMode}
+                            activeMode={activeLatencyMode}
+                            onModeChange={setLatencyMode}
+                            onRestart={handleLatencyRestart}
+                            context={audioContextRef.current}
+                            stream={streamRef.current}
+                            processingLatency={engine.processingLatency}
+                            onMeasureLoopback={handleMeasureLoopback}
+                            measurements={latencyMeasurements}
+                            onSave={handleSaveLatency}
+                            onClear={() => setLatencyMeasurements([])}
+                        />
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('preAmp.title')}</h2>
+                        <LevelMeter label={t('meter.input')} analyser={engine.analysers?.input ?? null} />
+                        {renderSlider(t('preAmp.label'), preAmp, 0, 300, 1, '%', handlePreAmpChange, 'slider-container', 'pre-amp')}
                     </div>
 
                     <div className="control-card">
-                        <h2>Master-Lautstärke</h2>
-                        {renderSlider('Volume', volume, 0, 300, 1, '%', (v) => handleVolumeChange({ target: { value: String(v) } } as any))}
+                        <h2>{t('volume.title')}</h2>
+                        {renderSlider(t('volume.label'), volume, 0, 300, 1, '%', handleVolumeChange, 'slider-container', 'volume')}
+                        <LevelMeter label={t('meter.output')} analyser={engine.analysers?.output ?? null} clipLevel={outputCeiling - 0.5} clipLabel={t('meter.limited')} />
+                        <div className="profile-controls">
+                            <button className="btn" onClick={() => setMuted(!isMuted)} aria-pressed={isMuted}>{t(isMuted ? 'volume.unmute' : 'volume.mute')}</button>
+                        </div>
                     </div>
                     
                     <div className="control-card">
-                        <h2>Links-Rechts-Balance</h2>
-                        <div className="slider-container balance-slider-container">
-                            <label htmlFor="balance">Balance</label>
+                        <h2>{t('balance.title')}</h2>
+                        {renderSlider(t('balance.label'), balance, -100, 100, 1, '', handleBalanceChange, 'slider-container balance-slider-container', 'balance', formatBalanceValue)}
+                        <div className="ear-columns">
+                            {EARS.map(ear => (
+                                <div className="slider-group" key={ear}>
+                                    <h3>{t(ear === 'left' ? 'common.leftEar' : 'common.rightEar')}</h3>
+                                    {renderSlider(t('ear.gain', { ear: t(ear === 'left' ? 'ear.shortLeft' : 'ear.shortRight') }), earSettings[ear].gain, 0, 200, 1, '%', (v) => handleEarSettingChange(ear, 'gain', v), 'slider-container', `ear-${ear}-gain`)}
+                                    {renderSlider(t('ear.limit', { ear: t(ear === 'left' ? 'ear.shortLeft' : 'ear.shortRight') }), earSettings[ear].limiter, -40, 0, 1, 'dB', (v) => handleEarSettingChange(ear, 'limiter', v), 'slider-container', `ear-${ear}-limiter`)}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('eq.title')}</h2>
+                        <div className="segmented-control" role="radiogroup" aria-label={t('eq.earGroup')}>
+                            {(['both', 'left', 'right'] as const).map(option => (
+                                <button
+                                    key={option}
+                                    className={`btn ${eqEar === option ? 'btn-primary' : ''}`}
+                                    role="radio"
+                                    aria-checked={eqEar === option}
+                                    onClick={() => setEqEar(option)}
+                                >
+                                    {t(option === 'both' ? 'eq.both' : option === 'left' ? 'eq.left' : 'eq.right')}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="form-row">
+                            <label htmlFor="eq-layout">{t('eq.layout')}</label>
+                            <select id="eq-layout" value={eqLayout} onChange={e => handleEqLayoutChange(e.target.value as EQLayout)}>
+                                {EQ_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{t(layout.label)}</option>)}
+                            </select>
+                        </div>
+                        <EqResponseCurve
+                            stereo={!isEqLinked(eqValues)}
+                            getResponse={engine.getEqResponse}
+                            revision={eqRevision}
+                            live={isStarted}
+                        />
+                        <div className={`slider-group eq-bands eq-bands-${eqLayout}`}>
+                        {eqFrequencies(eqLayout).map(freq => 
+                            renderSlider(`${freq < 1000 ? freq : freq/1000}${freq < 1000 ? 'Hz' : 'kHz'}`, eqValues[eqEar === 'both' ? 'left' : eqEar][freq] || 0, -EQ_MAX_GAIN, EQ_MAX_GAIN, 1, 'dB', (v) => handleEqChange(freq, v))
+                        )}
+                        </div>
+                        <details className="eq-filters">
+                            <summary>{t('eq.filters')}</summary>
+                            <label className="toggle-row">
+                                <input type="checkbox" checked={eqFilters.highPass.enabled} onChange={e => handleEqFilterChange('highPass', { ...eqFilters.highPass, enabled: e.target.checked })} />
+                                {t('eq.highPass')}
+                            </label>
+                            {eqFilters.highPass.enabled && renderSlider(t('eq.highPassFrom'), eqFilters.highPass.frequency, 20, 500, 10, ' Hz', v => handleEqFilterChange('highPass', { ...eqFilters.highPass, frequency: v }), 'slider-container', 'eq-high-pass')}
+                            <label className="toggle-row">
+                                <input type="checkbox" checked={eqFilters.lowShelf.enabled} onChange={e => handleEqFilterChange('lowShelf', { ...eqFilters.lowShelf, enabled: e.target.checked })} />
+                                {t('eq.lowShelf')}
+                            </label>
+                            {eqFilters.lowShelf.enabled && <>
+                                {renderSlider(t('eq.lowShelfUpTo'), eqFilters.lowShelf.frequency, 50, 1000, 10, ' Hz', v => handleEqFilterChange('lowShelf', { ...eqFilters.lowShelf, frequency: v }), 'slider-container', 'eq-low-shelf-frequency')}
+                                {renderSlider(t('eq.lowShelfGain'), eqFilters.lowShelf.gain, -EQ_MAX_GAIN, EQ_MAX_GAIN, 1, 'dB', v => handleEqFilterChange('lowShelf', { ...eqFilters.lowShelf, gain: v }), 'slider-container', 'eq-low-shelf-gain')}
+                            </>}
+                            <label className="toggle-row">
+                                <input type="checkbox" checked={eqFilters.highShelf.enabled} onChange={e => handleEqFilterChange('highShelf', { ...eqFilters.highShelf, enabled: e.target.checked })} />
+                                {t('eq.highShelf')}
+                            </label>
+                            {eqFilters.highShelf.enabled && <>
+                                {renderSlider(t('eq.highShelfFrom'), eqFilters.highShelf.frequency, 1000, 10000, 100, ' Hz', v => handleEqFilterChange('highShelf', { ...eqFilters.highShelf, frequency: v }), 'slider-container', 'eq-high-shelf-frequency')}
+                                {renderSlider(t('eq.highShelfGain'), eqFilters.highShelf.gain, -EQ_MAX_GAIN, EQ_MAX_GAIN, 1, 'dB', v => handleEqFilterChange('highShelf', { ...eqFilters.highShelf, gain: v }), 'slider-container', 'eq-high-shelf-gain')}
+                            </>}
+                            <label className="toggle-row">
+                                <input type="checkbox" checked={eqFilters.lowPass.enabled} onChange={e => handleEqFilterChange('lowPass', { ...eqFilters.lowPass, enabled: e.target.checked })} />
+                                {t('eq.lowPass')}
+                            </label>
+                            {eqFilters.lowPass.enabled && renderSlider(t('eq.lowPassUpTo'), eqFilters.lowPass.frequency, 2000, 16000, 500, ' Hz', v => handleEqFilterChange('lowPass', { ...eqFilters.lowPass, frequency: v }), 'slider-container', 'eq-low-pass')}
+                        </details>
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('spectrum.title')}</h2>
+                        <SpectrumAnalyzer preEq={engine.analysers?.input ?? null} postEq={engine.analysers?.postEq ?? null} />
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('clips.title')}</h2>
+                        <p className="card-hint">{t('clips.hint')}</p>
+                        <label className="toggle-row">
+                            <input type="checkbox" checked={recordingEnabled} onChange={e => setRecordingEnabled(e.target.checked)} />
+                            {t('clips.allow')}
+                        </label>
+                        {recordingEnabled && (
+                            <ClipLibrary
+                                stream={isStarted ? streamRef.current : null}
+                                canPlay={isStarted}
+                                playingId={playingClipId}
+                                onPlay={playClip}
+                                onStop={stopClip}
+                            />
+                        )}
+                        {playingClipId && <p className="notice-banner" role="status">{t('clips.playingNotice')}</p>}
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('noise.title')}</h2>
+                        {activeLatencyMode === 'lowest' ? (
+                            <p className="card-hint">{t('noise.lowLatency')}</p>
+                        ) : noiseReductionAvailable ? (
+                            <>
+                                <label className="toggle-row">
+                                    <input
+                                        type="checkbox"
+                                        checked={noiseReduction.enabled}
+                                        onChange={e => updateNoiseReduction({ ...noiseReduction, enabled: e.target.checked })}
+                                    />
+                                    {t('noise.enable')}
+                                </label>
+                                {noiseReduction.enabled && (
+                                    <>
+                                        <div className="slider-group noise-reduction-controls">
+                                            {renderSlider(t('noise.strength'), noiseReduction.strength, 0, 100, 1, '%', (v) => updateNoiseReduction({ ...noiseReduction, strength: v }), 'slider-container', 'noise-reduction-strength')}
+                                        </div>
+                                        <div className="profile-controls">
+                                            <button className="btn" onClick={handleLearnNoise} disabled={noiseLearning === 'learning'}>{t('noise.learn')}</button>
+                                        </div>
+                                        <p className="card-hint" aria-live="polite">
+                                            {noiseLearning === 'learning' && t('noise.learning')}
+                                            {noiseLearning === 'learned' && t('noise.learned')}
+                                        </p>
+                                    </>
+                                )}
+                            </>
+                        ) : (
+                            <p className="card-hint">{t('noise.unsupported')}</p>
+                        )}
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('focus.title')}</h2>
+                        <label className="toggle-row">
                             <input
-                                type="range"
-                                id="balance"
-                                min={-100}
-                                max={100}
-                                step={1}
-                                value={balance}
-                                onChange={handleBalanceChange}
-                                style={{ backgroundSize: `${((balance + 100) * 100) / 200}%` }}
-                                aria-label="Balance Regler"
+                                type="checkbox"
+                                checked={speechFocus.enabled}
+                                onChange={e => updateSpeechFocus({ ...speechFocus, enabled: e.target.checked })}
                             />
-                            <span className="value">{formatBalanceValue(balance)}</span>
-                        </div>
+                            {t('focus.enable')}
+                        </label>
+                        {speechFocus.enabled && (
+                            <div className="slider-group">
+                                {renderSlider(t('focus.strength'), speechFocus.strength, 0, 100, 1, '%', (v) => updateSpeechFocus({ ...speechFocus, strength: v }), 'slider-container', 'speech-focus-strength')}
+                            </div>
+                        )}
+                        <p className="card-hint" aria-live="polite">
+                            {!isStarted ? t('focus.unknown') : inputChannels >= 2 ? t('focus.directional', { channels: inputChannels }) : t('focus.mono')}
+                        </p>
                     </div>
 
                     <div className="control-card">
-                        <h2>Equalizer</h2>
+                        <h2>{t('generator.title')}</h2>
+                        <label className="toggle-row">
+                            <input
+                                type="checkbox"
+                                checked={soundGenerator.enabled}
+                                onChange={e => updateSoundGenerator({ ...soundGenerator, enabled: e.target.checked })}
+                            />
+                            {t('generator.enable')}
+                        </label>
+                        {soundGenerator.enabled && (
+                            <>
+                                <div className="form-row">
+                                    <label htmlFor="generator-color">{t('generator.color')}</label>
+                                    <select id="generator-color" value={soundGenerator.color} onChange={e => updateSoundGenerator({ ...soundGenerator, color: e.target.value as NoiseColor })}>
+                                        {NOISE_COLORS.map(color => <option key={color} value={color}>{t(`generator.${color}`)}</option>)}
+                                    </select>
+                                </div>
+                                <div className="slider-group">
+                                    {renderSlider(t('generator.level'), soundGenerator.level, SOUND_GENERATOR_MIN_LEVEL, SOUND_GENERATOR_MAX_LEVEL, 1, ' dB', (v) => updateSoundGenerator({ ...soundGenerator, level: v }), 'slider-container', 'generator-level')}
+                                </div>
+                                <label className="toggle-row">
+                                    <input
+                                        type="checkbox"
+                                        checked={soundGenerator.ocean}
+                                        onChange={e => updateSoundGenerator({ ...soundGenerator, ocean: e.target.checked })}
+                                    />
+                                    {t('generator.ocean')}
+                                </label>
+                                <label className="toggle-row">
+                                    <input
+                                        type="checkbox"
+                                        checked={soundGenerator.microphone}
+                                        onChange={e => updateSoundGenerator({ ...soundGenerator, microphone: e.target.checked })}
+                                    />
+                                    {t('generator.microphone')}
+                                </label>
+                                {!soundGenerator.microphone && <p className="card-hint">{t('generator.microphoneOff')}</p>}
+                                <div className="form-row">
+                                    <label htmlFor="generator-sleep">{t('generator.sleepTimer')}</label>
+                                    <select id="generator-sleep" value={sleepTimer?.minutes ?? 0} onChange={e => handleSleepTimer(Number(e.target.value))}>
+                                        {SLEEP_TIMER_OPTIONS.map(minutes => (
+                                            <option key={minutes} value={minutes}>{minutes > 0 ? t('generator.sleepMinutes', { minutes }) : t('generator.sleepOff')}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {sleepTimer && (
+                                    <p className="card-hint">
+                                        {t('generator.sleepUntil', { time: new Date(sleepTimer.until).toLocaleTimeString(tag, { hour: '2-digit', minute: '2-digit' }) })}
+                                    </p>
+                                )}
+                            </>
+                        )}
+
+                        <h3>{t('generator.tinnitusTitle')}</h3>
+                        <p className="card-hint">{t('generator.matchHint')}</p>
                         <div className="slider-group">
-                        {EQ_FREQUENCIES.map(freq => 
-                            renderSlider(`${freq < 1000 ? freq : freq/1000}${freq < 1000 ? 'Hz' : 'kHz'}`, eqValues[freq] || 0, -20, 20, 1, 'dB', (v) => handleEqChange(freq, v))
+                            {renderSlider(t('generator.frequency'), soundGenerator.tinnitusFrequency, TINNITUS_FREQUENCY_MIN, TINNITUS_FREQUENCY_MAX, 50, 'Hz', (v) => updateSoundGenerator({ ...soundGenerator, tinnitusFrequency: v }), 'slider-container', 'tinnitus-frequency', (v) => formatFrequency(v, tag))}
+                        </div>
+                        <div className="profile-controls">
+                            <button className="btn" onClick={() => setMatchTone(!matchTone)} disabled={!isStarted} aria-pressed={matchTone}>
+                                {matchTone ? t('generator.matchStop') : t('generator.matchStart')}
+                            </button>
+                        </div>
+                        {!isStarted && <p className="card-hint">{t('generator.matchStopped')}</p>}
+                        <label className="toggle-row">
+                            <input
+                                type="checkbox"
+                                checked={soundGenerator.notch}
+                                onChange={e => updateSoundGenerator({ ...soundGenerator, notch: e.target.checked })}
+                            />
+                            {t('generator.notch')}
+                        </label>
+                        <p className="card-hint">{t('generator.safety')}</p>
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('compression.title')}</h2>
+                        <label className="toggle-row">
+                            <input
+                                type="checkbox"
+                                checked={compression.enabled}
+                                onChange={e => updateCompression({ ...compression, enabled: e.target.checked })}
+                            />
+                            {t('compression.enable')}
+                        </label>
+                        {activeLatencyMode === 'lowest' && <p className="card-hint">{t('compression.lowLatency')}</p>}
+                        {compression.enabled && (
+                            <div className="compressor-bands">
+                                {compression.bands.map((band, i) => (
+                                    <div className="slider-group" key={COMPRESSOR_BAND_LABELS[i]}>
+                                        <h3>{t(COMPRESSOR_BAND_LABELS[i])}</h3>
+                                        {renderSlider(t('compression.threshold'), band.threshold, -70, 0, 1, 'dB', (v) => handleCompressionBandChange(i, 'threshold', v), 'slider-container compressor-slider', `compressor-${i}-threshold`)}
+                                        {renderSlider(t('compression.ratio'), band.ratio, 1, 10, 0.5, ':1', (v) => handleCompressionBandChange(i, 'ratio', v), 'slider-container compressor-slider', `compressor-${i}-ratio`)}
+                                        {renderSlider(t('compression.attack'), band.attack, 1, 100, 1, 'ms', (v) => handleCompressionBandChange(i, 'attack', v), 'slider-container compressor-slider', `compressor-${i}-attack`)}
+                                        {renderSlider(t('compression.release'), band.release, 20, 1000, 10, 'ms', (v) => handleCompressionBandChange(i, 'release', v), 'slider-container compressor-slider', `compressor-${i}-release`)}
+                                    </div>
+                                ))}
+                            </div>
                         )}
+                    </div>
+
+                    <div className="control-card">
+                        <h2>{t('protection.title')}</h2>
+                        <div className="slider-group">
+                            {renderSlider(t('protection.maximum'), outputCeiling, -30, 0, 1, 'dBFS', handleOutputCeilingChange, 'slider-container compressor-slider', 'output-ceiling')}
+                            {renderSlider(t('protection.calibration'), fullScaleSpl, 80, 120, 1, 'dB', setFullScaleSpl, 'slider-container compressor-slider', 'full-scale-spl')}
+                        </div>
+                        <div className="dose-meter">
+                            <div className="dose-readout">
+                                <span>{t('protection.outputLevel')} <strong>{formatLevel(outputLevel)}</strong></span>
+                                <span>{t('protection.dose')} <strong>{Math.round(todayDose)} %</strong></span>
+                            </div>
+                            <progress
+                                className={todayDose >= 100 ? 'dose-exceeded' : ''}
+                                max={100}
+                                value={Math.min(todayDose, 100)}
+                                aria-label={t('protection.doseAria')}
+                            />
+                        </div>
+                        <div className="form-row">
+                            <label htmlFor="dose-action">{t('protection.doseAction')}</label>
+                            <select id="dose-action" value={doseAction} onChange={e => setDoseAction(e.target.value as DoseAction)}>
+                                <option value="warn">{t('protection.warn')}</option>
+                                <option value="attenuate">{t('protection.attenuate', { db: -DOSE_ATTENUATION_DB })}</option>
+                            </select>
                         </div>
+                        <label className="toggle-row feedback-toggle">
+                            <input
+                                type="checkbox"
+                                checked={feedbackProtection}
+                                onChange={e => handleFeedbackProtectionChange(e.target.checked)}
+                            />
+                            {t('protection.feedback')}
+                        </label>
+                        {activeNotches.length > 0 && (
+                            <div className="fitting-controls">
+                                <span>{t('protection.notches', { frequencies: activeNotches.map(freq => formatFrequency(freq, tag)).join(', ') })}</span>
+                                <button className="btn" onClick={handleResetNotches}>{t('common.reset')}</button>
+                            </div>
+                        )}
+                        {recentDoseDays.length > 0 && (
+                            <table className="dose-history">
+                                <tbody>
+                                    {recentDoseDays.map(day => (
+                                        <tr key={day}>
+                                            <td>{new Date(`${day}T00:00:00`).toLocaleDateString(tag)}</td>
+                                            <td>{Math.round(doseHistory[day])} %</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
                     </div>
 
                     <div className="control-card">
-                         <h2>Profile</h2>
+                         <h2>{t('profiles.title')}</h2>
                          <div className="profile-controls">
-                            <select value={selectedProfile} onChange={handleProfileSelect} aria-label="Profil auswählen">
-                                <option value="default">Standard</option>
-                                <optgroup label="Vordefiniert">
-                                    {PREDEFINED_PROFILES.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
-                                </optgroup>
-                                {customProfiles.length > 0 && <optgroup label="Meine Profile">
-                                    {customProfiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
-                                </optgroup>}
-                                {selectedProfile === 'custom' && <option value="custom" disabled>Benutzerdefiniert</option>}
+                            <select value={selectedProfile} onChange={handleProfileSelect} aria-label={t('profiles.select')}>
+                                {renderProfileOptions()}
+                                {selectedProfile === 'custom' && <option value="custom" disabled>{t('profile.custom')}</option>}
                             </select>
-                            <button className="btn" onClick={handleSaveProfile}>Speichern</button>
-                            <button className="btn" onClick={handleReset}>Zurücksetzen</button>
+                            <button className="btn" onClick={() => setShowSaveProfile(true)}>{t('profiles.save')}</button>
+                            <button className="btn" onClick={() => setShowProfileManager(true)}>{t('profiles.manage')}</button>
+                            <button className="btn" onClick={handleReset}>{t('common.reset')}</button>
+                            <button className="btn" onClick={handleOpenHearingTest}>{t('profiles.hearingTest')}</button>
+                            <button className="btn" onClick={() => setShowProfileExport(true)}>{t('profiles.export')}</button>
+                            <button className="btn" onClick={() => setProfileImportCode('')}>{t('profiles.import')}</button>
+                            <button className="btn" onClick={() => setShowUsageHistory(true)}>{t('profiles.history')}</button>
                          </div>
+                         {favoriteProfiles.length > 0 && (
+                            <div className="favorite-profiles" role="group" aria-label={t('profiles.favorites')}>
+                                {favoriteProfiles.map(p => (
+                                    <button key={p.name} className={p.name === selectedProfile ? 'btn btn-primary' : 'btn'} onClick={() => selectProfile(p.name)} aria-pressed={p.name === selectedProfile}>
+                                        ★ {p.name}
+                                    </button>
+                                ))}
+                            </div>
+                         )}
+                         {deletedProfile && !showProfileManager && (
+                            <div className="notice-banner" role="status">
+                                <span>{t('profiles.deleted', { name: deletedProfile.profile.name })}</span>
+                                <button className="btn" onClick={handleUndoDelete}>{t('common.undo')}</button>
+                            </div>
+                         )}
+                         <label className="toggle-row ab-toggle">
+                            <input type="checkbox" checked={abCompare !== null} onChange={e => handleAbCompareToggle(e.target.checked)} />
+                            {t('profiles.abCompare')}
+                         </label>
+                         {abCompare && (
+                            <div className="ab-compare">
+                                {(['a', 'b'] as const).map(side => (
+                                    <div className="ab-side" key={side}>
+                                        <button
+                                            className={`btn ${abCompare.active === side ? 'btn-primary' : ''}`}
+                                            onClick={() => handleAbSwitch(side)}
+                                            aria-pressed={abCompare.active === side}
+                                        >
+                                            {side.toUpperCase()}
+                                        </button>
+                                        <select value={abCompare[side]} onChange={e => handleAbProfileChange(side, e.target.value)} aria-label={t('profiles.abProfile', { side: side.toUpperCase() })}>
+                                            {renderProfileOptions()}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                         )}
+                         {renderSlider(t('profiles.crossfade'), profileCrossfade, 0, 3, 0.1, ' s', setProfileCrossfade, 'slider-container', 'profile-crossfade')}
+                         {renderSlider(t('profiles.smoothing'), smoothingMs, 0, 200, 5, ' ms', setSmoothingMs, 'slider-container', 'smoothing')}
+                         {fittedProfile?.audiogram && (
+                            <div className="fitting-controls">
+                                <span>{t('profiles.hearingTestFrom', { date: new Date(fittedProfile.audiogram.date).toLocaleDateString(tag) })}</span>
+                                <select value={fittedProfile.fittingRule ?? 'nal-r'} onChange={e => handleRefit(e.target.value as FittingRule)} aria-label={t('profiles.fittingRule')}>
+                                    {FITTING_RULES.map(r => <option key={r.id} value={r.id}>{t(r.label)}</option>)}
+                                </select>
+                                <button className="btn" onClick={() => handleRefit(fittedProfile.fittingRule ?? 'nal-r')}>{t('profiles.refit')}</button>
+                            </div>
+                         )}
+                    </div>
+                    <div className="control-card">
+                        <h2>{t('scene.title')}</h2>
+                        <label className="toggle-row">
+                            <input
+                                type="checkbox"
+                                checked={sceneSettings.enabled}
+                                onChange={e => setSceneSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                            />
+                            {t('scene.enable')}
+                        </label>
+                        {sceneSettings.enabled && (
+                            <>
+                                <p className="card-hint" aria-live="polite">
+                                    {detectedScene ? t('scene.detected', { scene: sceneLabel(detectedScene) }) : t('scene.analysing')}
+                                </p>
+                                <div className="form-row">
+                                    <label htmlFor="scene-mode">{t('scene.mode')}</label>
+                                    <select id="scene-mode" value={sceneSettings.mode} onChange={e => setSceneSettings(prev => ({ ...prev, mode: e.target.value as SceneMode }))}>
+                                        <option value="suggest">{t('scene.suggest')}</option>
+                                        <option value="auto">{t('scene.auto')}</option>
+                                    </select>
+                                </div>
+                                {renderSlider(t('scene.hold'), sceneSettings.holdSeconds, 2, 30, 1, ' s', value => setSceneSettings(prev => ({ ...prev, holdSeconds: value })), "slider-container", 'scene-hold')}
+                                <table className="scene-mapping">
+                                    <tbody>
+                                        {SCENES.map(scene => (
+                                            <tr key={scene.id}>
+                                                <th scope="row"><label htmlFor={`scene-${scene.id}`}>{t(scene.label)}</label></th>
+                                                <td>
+                                                    <select id={`scene-${scene.id}`} value={sceneSettings.mapping[scene.id] ?? ''} onChange={e => handleSceneMappingChange(scene.id, e.target.value)}>
+                                                        <option value="">{t('scene.keepProfile')}</option>
+                                                        {renderProfileOptions()}
+                                                    </select>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </>
+                        )}
+                    </div>
+                    <div className="control-card">
+                        <h2>{t('controls.title')}</h2>
+                        <label className="toggle-row">
+                            <input type="checkbox" checked={largeControls} onChange={e => setLargeControls(e.target.checked)} />
+                            {t('controls.largeControls')}
+                        </label>
+                        <label className="toggle-row">
+                            <input type="checkbox" checked={spokenFeedback} onChange={e => setSpokenFeedback(e.target.checked)} disabled={!isSpeechSupported()} />
+                            {t('controls.spokenFeedback')}
+                        </label>
+                        {!isSpeechSupported() && <p className="card-hint">{t('controls.noSpeech')}</p>}
+                        <table className="shortcut-list">
+                            <caption>{t('controls.shortcuts')}</caption>
+                            <tbody>
+                                <tr><th scope="row"><kbd>+</kbd> / <kbd>−</kbd></th><td>{t('controls.shortcutVolume', { step: VOLUME_KEY_STEP })}</td></tr>
+                                <tr><th scope="row"><kbd>M</kbd></th><td>{t('controls.shortcutMute')}</td></tr>
+                                <tr><th scope="row"><kbd>N</kbd> / <kbd>P</kbd></th><td>{t('controls.shortcutProfile')}</td></tr>
+                                <tr><th scope="row"><kbd>S</kbd></th><td>{t('controls.shortcutStart')}</td></tr>
+                            </tbody>
+                        </table>
+                        {warningAcknowledged && (
+                            <div className="profile-controls">
+                                <span className="card-hint">{t('controls.warningAcknowledged', { date: new Date(warningAcknowledged.date).toLocaleDateString(tag) })}</span>
+                                <button className="btn" onClick={() => setWarningAcknowledged(null)}>{t('controls.showWarningAgain')}</button>
+                            </div>
+                        )}
+                    </div>
+                    <div className="control-card">
+                        <h2>{t('remote.title')}</h2>
+                        <p className="card-hint">{t('remote.hint')}</p>
+                        {isRemoteControlSupported() ? (
+                            <div className="profile-controls">
+                                {remoteStatus === 'connected'
+                                    ? <button className="btn btn-danger" onClick={handleRevokeRemote}>{t('remote.revoke')}</button>
+                                    : <button className="btn" onClick={handleStartRemotePairing}>{t('remote.pair')}</button>}
+                            </div>
+                        ) : (
+                            <p className="card-hint">{t('remote.unsupported')}</p>
+                        )}
                     </div>
                     <div className="control-card stop-container">
-                        <button className="btn btn-danger" onClick={handleStop}>Hörhilfe stoppen</button>
+                        <button className="btn btn-danger" onClick={handleStop}>{t('stop.button')}</button>
                     </div>
                     </>
                 ) : (
                     !showInitialWarning && (
                         <div className="start-placeholder">
-                            <h2>Gestoppt</h2>
-                            <p>Die Hörhilfe ist momentan nicht aktiv.</p>
-                            <button className="btn btn-primary" onClick={initAudio}>Hörhilfe starten</button>
+                            <h2>{t('stopped.title')}</h2>
+                            <p>{t('stopped.text')}</p>
+                            <button className="btn btn-primary" onClick={initAudio}>{lastSession ? t('stopped.quickStart', { profile: profileLabel(selectedProfile) }) : t('stopped.start')}</button>
+                            {lastSession && <p className="card-hint">{t('stopped.quickStartHint', { volume })}</p>}
+                            <button className="btn" onClick={handleOpenHearingTest}>{t('stopped.hearingTest')}</button>
+                            {isRemoteControlSupported() && <button className="btn" onClick={() => setRemoteOfferCode('')}>{t('stopped.remote')}</button>}
                         </div>
                     )
                 )}
@@ -477,104 +1922,229 @@ const App: React.FC = () => {
             
             <footer className="footer">
                 <div className="links">
-                    <button onClick={() => setShowImpressum(true)}>Impressum</button>
-                    <button onClick={() => setShowPrivacy(true)}>Datenschutz</button>
+                    <button onClick={() => setShowImpressum(true)}>{t('footer.impressum')}</button>
+                    <button onClick={() => setShowPrivacy(true)}>{t('footer.privacy')}</button>
                 </div>
-                <div>© 2025 Klangnah. Eine professionelle Hörhilfe-Anwendung.</div>
+                <div>{t('app.footer')}</div>
             </footer>
 
             <Modal show={showInitialWarning}>
-                <h2>Wichtiger Hinweis</h2>
+                <h2>{t('warning.title')}</h2>
                 <p className="icon">⚠️</p>
-                <p>Schließen Sie unbedingt Kopfhörer an, bevor Sie Klangnah starten, um Rückkopplungen zu vermeiden!</p>
-                <p>Ohne Kopfhörer können laute Rückkopplungen entstehen, die Ihr Gehör schädigen können.</p>
+                <p>{t('warning.headphones')}</p>
+                <p>{t('warning.feedback')}</p>
+                <label className="toggle-row">
+                    <input type="checkbox" checked={skipWarning} onChange={e => setSkipWarning(e.target.checked)} />
+                    {t('warning.dontShowAgain')}
+                </label>
                 <div className="modal-actions">
-                    <button className="btn btn-primary" onClick={handleStartFromModal}>Verstanden – Starten</button>
+                    <button className="btn btn-primary" onClick={handleStartFromModal}>{t('warning.start')}</button>
                 </div>
             </Modal>
 
             <Modal show={showHighVolumeWarning}>
-                 <h2>Warnung: Sehr hohe Lautstärke</h2>
+                 <h2>{t('highVolume.title')}</h2>
                 <p className="icon">⚠️</p>
-                <p>Sehr hohe Lautstärke (über 270%) kann Ihr Gehör schädigen. Bitte reduzieren Sie die Lautstärke vorsichtig.</p>
-                <p>Auch bei Hörbeeinträchtigung sollten Sie extreme Lautstärken vermeiden.</p>
+                <p>{t('highVolume.text')}</p>
+                <p>{t('highVolume.advice')}</p>
                 <div className="modal-actions">
-                    <button className="btn btn-primary" onClick={() => setShowHighVolumeWarning(false)}>Verstanden</button>
+                    <button className="btn btn-primary" onClick={() => setShowHighVolumeWarning(false)}>{t('common.understood')}</button>
                 </div>
             </Modal>
             
+            <Modal show={showDoseWarning}>
+                <h2>{t('dose.title')}</h2>
+                <p className="icon">⚠️</p>
+                <p>{t('dose.text')}</p>
+                {doseAction === 'attenuate'
+                    ? <p>{t('dose.attenuated', { db: DOSE_ATTENUATION_DB })}</p>
+                    : <p>{t('dose.reduce')}</p>}
+                <div className="modal-actions">
+                    <button className="btn btn-primary" onClick={() => setShowDoseWarning(false)}>{t('common.understood')}</button>
+                </div>
+            </Modal>
+
+            <Modal show={showHearingTest}>
+                <HearingTest
+                    audioContext={audioContextRef.current}
+                    frequencies={AUDIOGRAM_FREQUENCIES}
+                    isNameTaken={isProfileNameTaken}
+                    onComplete={handleHearingTestComplete}
+                    onCancel={handleCancelHearingTest}
+                />
+            </Modal>
+
+            <Modal show={showSaveProfile}>
+                <SaveProfileDialog
+                    currentName={customProfiles.some(p => p.name === selectedProfile) ? selectedProfile : null}
+                    isNameTaken={isProfileNameTaken}
+                    onSave={handleSaveProfile}
+                    onCancel={() => setShowSaveProfile(false)}
+                />
+            </Modal>
+
+            <Modal show={showUsageHistory}>
+                <UsageHistory
+                    profileLabel={profileLabel}
+                    onRestore={handleRestoreSnapshot}
+                    onClose={() => setShowUsageHistory(false)}
+                />
+            </Modal>
+
+            <Modal show={showProfileManager}>
+                <ProfileManager
+                    profiles={customProfiles}
+                    predefinedProfiles={PREDEFINED_PROFILES}
+                    selectedProfile={selectedProfile}
+                    profileLabel={profileLabel}
+                    isNameTaken={isProfileNameTaken}
+                    deletedProfile={deletedProfile?.profile.name ?? null}
+                    onSelect={selectProfile}
+                    onOverwrite={name => handleSaveProfile(name, true)}
+                    onRename={handleRenameProfile}
+                    onDelete={handleDeleteProfile}
+                    onUndoDelete={handleUndoDelete}
+                    onDuplicate={handleDuplicateProfile}
+                    onMove={(from, to) => setCustomProfiles(prev => moveProfile(prev, from, to))}
+                    onToggleFavorite={handleToggleFavorite}
+                    onClose={() => setShowProfileManager(false)}
+                />
+            </Modal>
+
+            <Modal show={showProfileExport}>
+                <ProfileExport
+                    currentProfile={currentSettingsProfile()}
+                    library={customProfiles}
+                    onClose={() => setShowProfileExport(false)}
+                />
+            </Modal>
+
+            <Modal show={profileImportCode !== null}>
+                <ProfileImport
+                    customNames={customProfiles.map(p => p.name)}
+                    reservedNames={reservedProfileNames}
+                    initialCode={profileImportCode ?? undefined}
+                    onImport={handleImport}
+                    onCancel={() => setProfileImportCode(null)}
+                />
+            </Modal>
+
+            <Modal show={showRemotePairing}>
+                <RemotePairing
+                    offer={remoteOffer}
+                    status={remoteStatus}
+                    onAnswer={code => remotePairingRef.current?.acceptAnswer(code) ?? Promise.resolve(false)}
+                    onClose={handleCancelRemotePairing}
+                />
+            </Modal>
+
+            <Modal show={remoteOfferCode !== null}>
+                <CaregiverRemote initialCode={remoteOfferCode ?? ''} onClose={() => setRemoteOfferCode(null)} />
+            </Modal>
+
             <Modal show={showInstructions}>
                 <div className="modal-content-scrollable">
-                    <h2 style={{textAlign: 'center'}}>Anleitung zur Verwendung</h2>
-                    <h3>❗ Wichtiger Sicherheitshinweis</h3>
-                    <p>Schließen Sie unbedingt Kopfhörer an Ihr Gerät an, um gefährliche Rückkopplungen zu vermeiden.</p>
-                    <h3>1. Kopfhörer anschließen</h3>
-                    <p>Stellen Sie sicher, dass Ihre Kopfhörer fest mit dem Gerät verbunden sind, bevor Sie die App starten.</p>
-                    <h3>2. Hörhilfe starten</h3>
-                    <p>Klicken Sie auf den "Verstanden - Starten" Knopf im Warnhinweis. Erlauben Sie im aufkommenden Fenster den Zugriff auf Ihr Mikrofon. Um die Übertragung zu beenden, klicken Sie auf "Hörhilfe stoppen".</p>
-                    <h3>3. Verstärkung, Visualizer & Balance</h3>
-                    <p><strong>Vorverstärkung (Pre-Amp):</strong> Besonders auf Mobilgeräten ist das Mikrofonsignal oft leise. Der <strong>Audio-Visualizer</strong> darüber zeigt Ihnen das ankommende Signal in Echtzeit. Heben Sie mit dem Regler das Eingangssignal auf ein gutes Niveau an, sodass die Balken deutlich ausschlagen, aber nicht permanent am oberen Anschlag sind.</p>
-                    <p><strong>Master-Lautstärke:</strong> Regeln Sie hiermit die finale Lautstärke, die an Ihre Kopfhörer geht. Eine Erhöhung bis zu 300% ist möglich, aber seien Sie vorsichtig.</p>
-                    <p><strong>Links-Rechts-Balance:</strong> Falls Sie auf einem Ohr schlechter hören, können Sie mit diesem Regler die Lautstärke zwischen dem linken und rechten Kopfhörer verschieben, um dies auszugleichen.</p>
-                    <h3>4. Equalizer verwenden</h3>
-                    <p>Nutzen Sie die sechs Equalizer-Regler, um einzelne Frequenzbereiche anzuheben oder abzusenken. Der Visualizer hilft Ihnen dabei, zu "sehen", welche Frequenzen zu laut oder zu leise sind. Besonders der 125Hz-Regler hilft, fehlende Bässe auf Mobilgeräten auszugleichen.</p>
-                    <h3>5. Profile nutzen</h3>
-                    <p>Wählen Sie vordefinierte Profile für gängige Situationen oder speichern Sie Ihre eigenen Einstellungen (inklusive Balance) für den schnellen Zugriff.</p>
-                    <h3>Zusätzliche Tipps:</h3>
+                    <h2 style={{textAlign: 'center'}}>{t('instructions.title')}</h2>
+                    <h3>{t('instructions.safetyTitle')}</h3>
+                    <p>{t('instructions.safety')}</p>
+                    <h3>{t('instructions.headphonesTitle')}</h3>
+                    <p>{t('instructions.headphones')}</p>
+                    <h3>{t('instructions.startTitle')}</h3>
+                    <p>{t('instructions.start')}</p>
+                    <p>{t('instructions.devices')}</p>
+                    <p>{t('instructions.latency')}</p>
+                    <h3>{t('instructions.levelsTitle')}</h3>
+                    <p><RichText text={t('instructions.preAmp')} /></p>
+                    <p><RichText text={t('instructions.volume')} /></p>
+                    <p><RichText text={t('instructions.balance')} /></p>
+                    <h3>{t('instructions.eqTitle')}</h3>
+                    <p><RichText text={t('instructions.eq')} /></p>
+                    <p>{t('instructions.eqLayouts')}</p>
+                    <h3>{t('instructions.noiseTitle')}</h3>
+                    <p>{t('instructions.noise')}</p>
+                    <p>{t('instructions.focus')}</p>
+                    <h3>{t('instructions.compressionTitle')}</h3>
+                    <p><RichText text={t('instructions.compression')} /></p>
+                    <h3>{t('instructions.protectionTitle')}</h3>
+                    <p>{t('instructions.feedback')}</p>
+                    <p><RichText text={t('instructions.dose')} /></p>
+                    <h3>{t('instructions.profilesTitle')}</h3>
+                    <p>{t('instructions.profiles')}</p>
+                    <p>{t('instructions.profileManager')}</p>
+                    <p>{t('instructions.crossfade')}</p>
+                    <p>{t('instructions.exchange')}</p>
+                    <p>{t('instructions.history')}</p>
+                    <h3>{t('instructions.hearingTestTitle')}</h3>
+                    <p>{t('instructions.hearingTest')}</p>
+                    <h3>{t('instructions.sceneTitle')}</h3>
+                    <p>{t('instructions.scene')}</p>
+                    <h3>{t('instructions.clipsTitle')}</h3>
+                    <p>{t('instructions.clips')}</p>
+                    <h3>{t('instructions.offlineTitle')}</h3>
+                    <p>{t('instructions.offline')}</p>
+                    <h3>{t('instructions.controlsTitle')}</h3>
+                    <p><RichText text={t('instructions.keyboard', { step: VOLUME_KEY_STEP })} /></p>
+                    <p>{t('instructions.accessibility')}</p>
+                    <h3>{t('instructions.languageTitle')}</h3>
+                    <p>{t('instructions.language')}</p>
+                    <h3>{t('instructions.generatorTitle')}</h3>
+                    <p>{t('instructions.generator')}</p>
+                    <p>{t('instructions.generatorNotch')}</p>
+                    <h3>{t('instructions.remoteTitle')}</h3>
+                    <p>{t('instructions.remote')}</p>
+                    <h3>{t('instructions.quickStartTitle')}</h3>
+                    <p>{t('instructions.quickStart')}</p>
+                    <h3>{t('instructions.tipsTitle')}</h3>
                     <ul>
-                      <li>Verwenden Sie die "Speichern"-Funktion, um Ihre Einstellungen als neues Profil zu sichern.</li>
-                      <li>Bei Lautstärken über 270% erscheint eine Sicherheitswarnung.</li>
-                      <li>Die App ist speziell als Alltagshilfe gedacht, z.B. bei chronischen Mittelohrentzündungen, um Gespräche besser zu verstehen.</li>
+                      <li>{t('instructions.tipSave')}</li>
+                      <li>{t('instructions.tipVolume')}</li>
+                      <li>{t('instructions.tipDose')}</li>
+                      <li>{t('instructions.tipUse')}</li>
                     </ul>
-                    <h3>Haftungsausschluss</h3>
-                    <p>Diese Anwendung dient als Hörhilfe und ersetzt keine professionelle medizinische Beratung oder ein medizinisches Hörgerät. Bei anhaltenden Hörproblemen konsultieren Sie bitte einen HNO-Arzt.</p>
+                    <h3>{t('instructions.disclaimerTitle')}</h3>
+                    <p>{t('instructions.disclaimer')}</p>
                 </div>
                  <div className="modal-actions">
-                    <button className="btn btn-primary" onClick={() => setShowInstructions(false)}>Schließen</button>
+                    <button className="btn btn-primary" onClick={() => setShowInstructions(false)}>{t('common.close')}</button>
                 </div>
             </Modal>
             
             <Modal show={showImpressum}>
                 <div className="modal-content-scrollable" style={{textAlign: 'left'}}>
-                    <h2>Impressum</h2>
-                    <p>Angaben gemäß § 5 TMG</p>
+                    <h2>{t('impressum.title')}</h2>
+                    <p>{t('impressum.legal')}</p>
                     <p>Max Mustermann<br/>Musterstraße 1<br/>12345 Musterstadt</p>
-                    <p><strong>Kontakt:</strong><br/>Telefon: 0123-456789<br/>E-Mail: max@mustermann.de</p>
+                    <p><strong>{t('impressum.contact')}</strong><br/>{t('impressum.phone')}: 0123-456789<br/>{t('impressum.email')}: max@mustermann.de</p>
                 </div>
                  <div className="modal-actions">
-                    <button className="btn btn-primary" onClick={() => setShowImpressum(false)}>Schließen</button>
+                    <button className="btn btn-primary" onClick={() => setShowImpressum(false)}>{t('common.close')}</button>
                 </div>
             </Modal>
             
             <Modal show={showPrivacy}>
                 <div className="modal-content-scrollable">
-                    <h2 style={{ textAlign: 'center' }}>Datenschutzerklärung</h2>
+                    <h2 style={{ textAlign: 'center' }}>{t('privacy.title')}</h2>
 
-                    <h3>Datenverarbeitung auf Ihrem Gerät</h3>
-                    <p>
-                        Diese Anwendung wurde mit dem Fokus auf maximalen Datenschutz entwickelt. Alle Kernfunktionen, insbesondere die Verarbeitung Ihrer Audiodaten, finden ausschließlich in Echtzeit auf Ihrem Gerät statt.
-                    </p>
+                    <h3>{t('privacy.localTitle')}</h3>
+                    <p>{t('privacy.local')}</p>
                     <ul>
-                        <li><strong>Keine Audiospeicherung:</strong> Es werden keine Audiodaten von Ihrem Mikrofon aufgezeichnet, gespeichert oder an externe Server gesendet.</li>
-                        <li><strong>Lokale Einstellungen:</strong> Alle von Ihnen vorgenommenen Einstellungen, wie Lautstärke, Equalizer-Werte und gespeicherte Profile, werden ausschließlich im lokalen Speicher (Local Storage) Ihres Webbrowsers gesichert. Diese Daten verlassen Ihr Gerät nicht.</li>
+                        <li><RichText text={t('privacy.noRecording')} /></li>
+                        <li><RichText text={t('privacy.clips')} /></li>
+                        <li><RichText text={t('privacy.usage')} /></li>
+                        <li><RichText text={t('privacy.remote')} /></li>
+                        <li><RichText text={t('privacy.settings')} /></li>
+                        <li><RichText text={t('privacy.export')} /></li>
                     </ul>
 
-                    <h3>Nutzung von Google Fonts</h3>
-                    <p>
-                        Um eine einheitliche und gut lesbare Darstellung der Benutzeroberfläche zu gewährleisten, verwenden wir die Schriftart "Inter", die über Google Fonts bereitgestellt wird. Wenn Sie die Anwendung laden, baut Ihr Browser eine direkte Verbindung zu den Servern von Google auf, um die Schriftart herunterzuladen.
-                    </p>
-                    <p>
-                        Bei diesem Vorgang wird Ihre IP-Adresse an Google übertragen. Dies ist technisch notwendig, damit die Schriftart an Ihren Browser ausgeliefert werden kann. Wir haben keinen Einfluss auf diese Datenübertragung.
-                    </p>
-                    <p>
-                        Weitere Informationen zum Datenschutz bei Google und zu Google Fonts finden Sie in der Datenschutzerklärung von Google: <a href="https://policies.google.com/privacy" target="_blank" rel="noopener noreferrer">https://policies.google.com/privacy</a>
-                    </p>
+                    <h3>{t('privacy.offlineTitle')}</h3>
+                    <p>{t('privacy.offline')}</p>
                 </div>
                 <div className="modal-actions">
-                    <button className="btn btn-primary" onClick={() => setShowPrivacy(false)}>Schließen</button>
+                    <button className="btn btn-primary" onClick={() => setShowPrivacy(false)}>{t('common.close')}</button>
                 </div>
             </Modal>
         </div>
+        </I18nContext.Provider>
     );
 };
 
@@ -0,0 +1,40 @@
+// Template for /sw.js. The build replaces the two placeholders with the content
+// hash of the build and the list of files to precache (see vite.config.ts).
+const VERSION = '__BUILD_VERSION__';
+const PRECACHE = __PRECACHE_FILES__;
+const CACHE = `klangnah-${VERSION}`;
+
+self.addEventListener('install', event => {
+  // No skipWaiting here: a new version waits until the user accepts the update prompt.
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('klangnah-') && key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // The app is a single page: every navigation gets the cached shell, so it starts offline.
+  const lookup = request.mode === 'navigate' ? '/index.html' : request;
+  event.respondWith(
+    caches.open(CACHE).then(async cache => {
+      const cached = await cache.match(lookup, { ignoreSearch: true });
+      if (cached) return cached;
+      const response = await fetch(request);
+      if (response.ok && request.mode !== 'navigate') cache.put(request, response.clone());
+      return response;
+    }),
+  );
+});
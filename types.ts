@@ -0,0 +1,116 @@
+export interface EQSettings {
+  [key: number]: number;
+}
+
+export type Ear = 'left' | 'right';
+
+export type EQLayout = 'six' | 'ten' | 'third-octave';
+
+export interface ShelfFilter {
+  enabled: boolean;
+  frequency: number;
+  gain: number;
+}
+
+export interface PassFilter {
+  enabled: boolean;
+  frequency: number;
+}
+
+/** Filters around the band EQ. They apply to both ears. */
+export interface EQFilters {
+  highPass: PassFilter;
+  lowShelf: ShelfFilter;
+  highShelf: ShelfFilter;
+  lowPass: PassFilter;
+}
+
+export interface StereoEQSettings {
+  left: EQSettings;
+  right: EQSettings;
+}
+
+export interface EarSettings {
+  gain: number;
+  limiter: number;
+}
+
+export interface CompressorBand {
+  threshold: number;
+  ratio: number;
+  attack: number;
+  release: number;
+}
+
+export interface CompressionSettings {
+  enabled: boolean;
+  bands: CompressorBand[];
+}
+
+export interface NoiseReductionSettings {
+  enabled: boolean;
+  strength: number;
+}
+
+/** Beam towards the front for multi-channel microphones, consonant emphasis for mono ones. */
+export interface SpeechFocusSettings {
+  enabled: boolean;
+  strength: number;
+}
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+/** Relief sound for tinnitus, mixed into the output. */
+export interface SoundGeneratorSettings {
+  enabled: boolean;
+  color: NoiseColor;
+  /** Level in dBFS, independent of the volume. */
+  level: number;
+  /** Leaves out one octave around the tinnitus frequency (notched sound therapy). */
+  notch: boolean;
+  /** Pitch of the tinnitus in Hz, as matched by the user. */
+  tinnitusFrequency: number;
+  /** Slow swelling like ocean waves. */
+  ocean: boolean;
+  /** Whether the microphone stays amplified while the sound plays. */
+  microphone: boolean;
+}
+
+export interface DeviceSelection {
+  inputId?: string;
+  inputLabel?: string;
+  outputId?: string;
+  outputLabel?: string;
+}
+
+export type FittingRule = 'nal-r' | 'half-gain';
+
+export interface Thresholds {
+  [key: number]: number;
+}
+
+export interface Audiogram {
+  left: Thresholds;
+  right: Thresholds;
+  date: string;
+}
+
+export interface Profile {
+  name: string;
+  preAmp: number;
+  volume: number;
+  eq: EQSettings | StereoEQSettings;
+  /** Layout the EQ curve was saved with. Curves are resampled onto the active layout when loaded. */
+  eqLayout?: EQLayout;
+  eqFilters?: EQFilters;
+  balance: number;
+  ears?: Record<Ear, EarSettings>;
+  compression?: CompressionSettings;
+  noiseReduction?: NoiseReductionSettings;
+  speechFocus?: SpeechFocusSettings;
+  soundGenerator?: SoundGeneratorSettings;
+  devices?: DeviceSelection;
+  audiogram?: Audiogram;
+  fittingRule?: FittingRule;
+  favorite?: boolean;
+}
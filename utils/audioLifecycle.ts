@@ -0,0 +1,41 @@
+/**
+ * Keeps a running AudioContext running. Browsers suspend audio when the page is
+ * hidden, the device sleeps, or a call or another app takes over the audio
+ * session (Safari reports this as "interrupted"). We try to resume whenever that
+ * may succeed again: on state changes, when the page becomes visible, and on the
+ * next user interaction if the browser insists on a gesture.
+ */
+export const keepAudioContextRunning = (context: AudioContext, onStateChange: (state: string) => void): (() => void) => {
+  let disposed = false;
+
+  const resume = () => {
+    if (disposed || context.state === 'running' || context.state === 'closed') return;
+    context.resume().catch(() => undefined);
+  };
+
+  const handleStateChange = () => {
+    onStateChange(context.state);
+    resume();
+  };
+
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') resume();
+  };
+
+  context.addEventListener('statechange', handleStateChange);
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('pageshow', resume);
+  window.addEventListener('focus', resume);
+  window.addEventListener('pointerdown', resume);
+  window.addEventListener('keydown', resume);
+
+  return () => {
+    disposed = true;
+    context.removeEventListener('statechange', handleStateChange);
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('pageshow', resume);
+    window.removeEventListener('focus', resume);
+    window.removeEventListener('pointerdown', resume);
+    window.removeEventListener('keydown', resume);
+  };
+};
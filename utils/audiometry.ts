@@ -0,0 +1,174 @@
+import { Audiogram, EQSettings, Ear, EarSettings, FittingRule, StereoEQSettings, Thresholds } from '../types';
+import { DEFAULT_EAR_SETTINGS } from '../constants';
+import { MessageId } from '../i18n';
+
+export const TEST_START_LEVEL = 40;
+export const TEST_MIN_LEVEL = -10;
+export const TEST_STEP_DOWN = 10;
+export const TEST_STEP_UP = 5;
+
+// Reference equivalent threshold sound pressure levels (dB SPL at 0 dB HL) for
+// supra-aural headphones. Used to shape the test tone so that each frequency
+// sits at the same hearing level for a normal-hearing listener.
+const RETSPL: { [key: number]: number } = { 125: 45, 250: 25.5, 500: 11.5, 1000: 7, 2000: 9, 3000: 10, 4000: 9.5, 6000: 15.5, 8000: 13 };
+
+// Assumed output of the headphones at 0 dBFS with the system volume at about 50 %.
+const FULL_SCALE_SPL = 100;
+const MAX_TONE_DBFS = -3;
+
+// NAL-R frequency corrections (k) in dB.
+const NAL_R_CORRECTION: { [key: number]: number } = { 125: -17, 250: -17, 500: -8, 1000: 1, 2000: -1, 3000: -2, 4000: -2, 6000: -2, 8000: -2 };
+
+const MAX_EQ_GAIN = 20;
+
+export const FITTING_RULES: { id: FittingRule; label: MessageId }[] = [
+  { id: 'nal-r', label: 'fittingRule.nal-r' },
+  { id: 'half-gain', label: 'fittingRule.half-gain' },
+];
+
+export const maxTestLevel = (freq: number): number => {
+  const retspl = RETSPL[freq] ?? 10;
+  return Math.floor((FULL_SCALE_SPL + MAX_TONE_DBFS - retspl) / TEST_STEP_UP) * TEST_STEP_UP;
+};
+
+export const hearingLevelToGain = (freq: number, dbHL: number): number => {
+  const retspl = RETSPL[freq] ?? 10;
+  const dbfs = Math.min(dbHL + retspl - FULL_SCALE_SPL, MAX_TONE_DBFS);
+  return Math.pow(10, dbfs / 20);
+};
+
+/**
+ * Plays three short pulses of a pure tone on one ear. Pulsed tones are easier to
+ * tell apart from tinnitus than a steady tone. Resolves once the last pulse ended.
+ */
+export const playTestTone = (context: BaseAudioContext, destination: AudioNode, freq: number, dbHL: number, ear: Ear): Promise<void> => {
+  const pulseLength = 0.25;
+  const pulseGap = 0.2;
+  const pulses = 3;
+  const peak = hearingLevelToGain(freq, dbHL);
+
+  const oscillator = context.createOscillator();
+  oscillator.type = 'sine';
+  oscillator.frequency.value = freq;
+
+  const envelope = context.createGain();
+  envelope.gain.value = 0;
+
+  const merger = context.createChannelMerger(2);
+  oscillator.connect(envelope);
+  envelope.connect(merger, 0, ear === 'left' ? 0 : 1);
+  merger.connect(destination);
+
+  const start = context.currentTime + 0.05;
+  for (let i = 0; i < pulses; i++) {
+    const t = start + i * (pulseLength + pulseGap);
+    envelope.gain.setValueAtTime(0, t);
+    envelope.gain.linearRampToValueAtTime(peak, t + 0.02);
+    envelope.gain.setValueAtTime(peak, t + pulseLength - 0.02);
+    envelope.gain.linearRampToValueAtTime(0, t + pulseLength);
+  }
+  const end = start + pulses * (pulseLength + pulseGap);
+  oscillator.start(start);
+  oscillator.stop(end);
+
+  return new Promise(resolve => {
+    oscillator.onended = () => {
+      oscillator.disconnect();
+      envelope.disconnect();
+      merger.disconnect();
+      resolve();
+    };
+  });
+};
+
+export interface ThresholdSearch {
+  level: number;
+  lastHeard: boolean | null;
+  ascendingHits: { [key: number]: number };
+}
+
+export const createThresholdSearch = (): ThresholdSearch => ({
+  level: TEST_START_LEVEL,
+  lastHeard: null,
+  ascendingHits: {},
+});
+
+/**
+ * One step of a shortened Hughson-Westlake procedure: down 10 dB after a
+ * response, up 5 dB without one. The threshold is the lowest level that was
+ * heard twice on an ascending run.
+ */
+export const nextThresholdStep = (search: ThresholdSearch, heard: boolean, freq: number): { search: ThresholdSearch; threshold?: number } => {
+  const maxLevel = maxTestLevel(freq);
+
+  if (heard) {
+    const ascending = search.lastHeard === false;
+    const hits = ascending ? (search.ascendingHits[search.level] || 0) + 1 : search.ascendingHits[search.level] || 0;
+    const ascendingHits = { ...search.ascendingHits, [search.level]: hits };
+    if (hits >= 2 || search.level <= TEST_MIN_LEVEL) {
+      return { search: { ...search, ascendingHits }, threshold: search.level };
+    }
+    return {
+      search: { level: Math.max(search.level - TEST_STEP_DOWN, TEST_MIN_LEVEL), lastHeard: true, ascendingHits },
+    };
+  }
+
+  if (search.level >= maxLevel) {
+    return { search, threshold: maxLevel };
+  }
+  return {
+    search: { ...search, level: Math.min(search.level + TEST_STEP_UP, maxLevel), lastHeard: false },
+  };
+};
+
+const prescribeGains = (thresholds: Thresholds, frequencies: number[], rule: FittingRule): EQSettings => {
+  const gains: EQSettings = {};
+  if (rule === 'half-gain') {
+    frequencies.forEach(freq => {
+      gains[freq] = Math.max(0, (thresholds[freq] || 0) / 2);
+    });
+    return gains;
+  }
+  const threeFrequencyAverage = ((thresholds[500] || 0) + (thresholds[1000] || 0) + (thresholds[2000] || 0)) / 3;
+  frequencies.forEach(freq => {
+    const k = NAL_R_CORRECTION[freq] ?? 0;
+    gains[freq] = Math.max(0, 0.15 * threeFrequencyAverage + 0.31 * (thresholds[freq] || 0) + k);
+  });
+  return gains;
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+
+/**
+ * Turns an audiogram into slider settings. The prescribed insertion gain of each
+ * ear is split into an overall level and a spectral shape (that ear's EQ). The
+ * louder ear sets the master volume, the other ear is attenuated by its own gain.
+ */
+export const fitAudiogram = (audiogram: Audiogram, frequencies: number[], rule: FittingRule): { eq: StereoEQSettings; ears: Record<Ear, EarSettings>; volume: number; balance: number } => {
+  const fitEar = (thresholds: Thresholds) => {
+    const gains = prescribeGains(thresholds, frequencies, rule);
+    const overall = average(frequencies.map(f => gains[f]));
+    const eq: EQSettings = {};
+    frequencies.forEach(freq => {
+      eq[freq] = Math.round(Math.max(-MAX_EQ_GAIN, Math.min(MAX_EQ_GAIN, gains[freq] - overall)));
+    });
+    return { eq, overall };
+  };
+
+  const left = fitEar(audiogram.left);
+  const right = fitEar(audiogram.right);
+  const common = Math.max(left.overall, right.overall);
+
+  const volume = Math.round(Math.max(50, Math.min(250, 100 * Math.pow(10, common / 20))));
+  const earGain = (overall: number) => Math.round(100 * Math.pow(10, (overall - common) / 20));
+
+  return {
+    eq: { left: left.eq, right: right.eq },
+    ears: {
+      left: { ...DEFAULT_EAR_SETTINGS, gain: earGain(left.overall) },
+      right: { ...DEFAULT_EAR_SETTINGS, gain: earGain(right.overall) },
+    },
+    volume,
+    balance: 0,
+  };
+};
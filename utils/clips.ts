@@ -0,0 +1,51 @@
+import { I18n } from '../i18n';
+import { CLIP_STORE, withStore } from './localDb';
+
+export type ClipOrigin = 'recording' | 'import';
+
+export interface Clip {
+  id: string;
+  label: string;
+  origin: ClipOrigin;
+  createdAt: string;
+  /** Length in seconds. */
+  duration: number;
+  audio: Blob;
+}
+
+export const MAX_RECORDING_SECONDS = 60;
+
+export const createClipId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listClips = async (): Promise<Clip[]> => {
+  const clips = await withStore<Clip[]>(CLIP_STORE, 'readonly', store => store.getAll());
+  return clips.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveClip = (clip: Clip): Promise<IDBValidKey> =>
+  withStore(CLIP_STORE, 'readwrite', store => store.put(clip));
+
+export const deleteClip = (id: string): Promise<undefined> =>
+  withStore(CLIP_STORE, 'readwrite', store => store.delete(id));
+
+export const defaultClipLabel = ({ t, tag }: I18n, date: Date = new Date()): string =>
+  t('clips.defaultLabel', {
+    date: date.toLocaleDateString(tag),
+    time: date.toLocaleTimeString(tag, { hour: '2-digit', minute: '2-digit' }),
+  });
+
+/** Length of an audio file in seconds, read by the browser's media decoder. */
+export const readAudioDuration = (audio: Blob): Promise<number> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(audio);
+    const element = new Audio();
+    element.preload = 'metadata';
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    element.onloadedmetadata = () => done(element.duration);
+    element.onerror = () => done(0);
+    element.src = url;
+  });
@@ -0,0 +1,46 @@
+export type CompactDecodeResult = { text: string } | { error: 'unsupported' | 'corrupt' };
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) => {
+  const result = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await result.arrayBuffer());
+};
+
+/**
+ * Text packed for links and QR codes: deflated (where the browser supports it)
+ * and base64url encoded. "z" marks compressed payloads, "j" plain text.
+ */
+export const encodeCompact = async (text: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(text);
+  if (typeof CompressionStream !== 'undefined') {
+    return `z${toBase64Url(await pipeThrough(bytes, new CompressionStream('deflate-raw')))}`;
+  }
+  return `j${toBase64Url(bytes)}`;
+};
+
+export const decodeCompact = async (code: string): Promise<CompactDecodeResult> => {
+  try {
+    const mode = code.charAt(0);
+    let bytes = fromBase64Url(code.slice(1));
+    if (mode === 'z') {
+      if (typeof DecompressionStream === 'undefined') return { error: 'unsupported' };
+      bytes = await pipeThrough(bytes, new DecompressionStream('deflate-raw'));
+    }
+    return { text: new TextDecoder().decode(bytes) };
+  } catch (error) {
+    return { error: 'corrupt' };
+  }
+};
@@ -0,0 +1,98 @@
+import { DeviceSelection } from '../types';
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// AudioContext.setSinkId is not part of TypeScript's DOM typings yet.
+type SinkAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const supportsOutputSelection = (): boolean =>
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export const listAudioDevices = async (): Promise<AudioDevices> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput'),
+  };
+};
+
+/**
+ * Finds a remembered device again. Device ids are stable per origin in most
+ * browsers, the label is a fallback for those that rotate them.
+ */
+export const findDevice = (devices: MediaDeviceInfo[], id?: string, label?: string): MediaDeviceInfo | undefined =>
+  (id ? devices.find(d => d.deviceId === id) : undefined) ?? (label ? devices.find(d => d.label === label) : undefined);
+
+const VIRTUAL_DEVICE_IDS = ['default', 'communications'];
+const DEFAULT_LABEL_PREFIX = /^[^-]+ - /;
+
+/**
+ * Label of the device that actually plays. For the "default" entry browsers
+ * prefix the real device name (e.g. "Default - Headphones"), which is stripped.
+ */
+export const activeOutputLabel = (outputs: MediaDeviceInfo[], id: string): string | null => {
+  const device = outputs.find(d => d.deviceId === (id || 'default'));
+  if (!device || !device.label) return null;
+  return VIRTUAL_DEVICE_IDS.includes(device.deviceId) ? device.label.replace(DEFAULT_LABEL_PREFIX, '') : device.label;
+};
+
+export const physicalDevices = (devices: MediaDeviceInfo[]): MediaDeviceInfo[] =>
+  devices.filter(d => !VIRTUAL_DEVICE_IDS.includes(d.deviceId));
+
+/**
+ * Maps a remembered device onto the current device list. An empty id means the
+ * system default. Unknown devices keep the current choice.
+ */
+export const resolveDeviceId = (devices: MediaDeviceInfo[], id: string | undefined, label: string | undefined, current: string): string => {
+  if (!id && !label) return '';
+  if (devices.length === 0) return id ?? current;
+  return findDevice(devices, id, label)?.deviceId ?? current;
+};
+
+export const isOutputPresent = (outputs: MediaDeviceInfo[], label: string): boolean => {
+  const physical = outputs.filter(d => !VIRTUAL_DEVICE_IDS.includes(d.deviceId));
+  if (physical.length === 0) return outputs.some(d => d.label.replace(DEFAULT_LABEL_PREFIX, '') === label);
+  return physical.some(d => d.label === label);
+};
+
+export const setOutputDevice = async (context: AudioContext, id: string): Promise<boolean> => {
+  const sinkContext = context as SinkAudioContext;
+  if (!sinkContext.setSinkId) return false;
+  await sinkContext.setSinkId(id === 'default' ? '' : id);
+  return true;
+};
+
+const buildAudioConstraints = (inputId: string): MediaStreamConstraints => ({
+  audio: {
+    deviceId: inputId ? { exact: inputId } : undefined,
+    echoCancellation: false,
+    noiseSuppression: false,
+    autoGainControl: false,
+    // Stereo where the device has it, so the speech focus can form a beam. More channels are
+    // not requested: interfaces often report unused inputs, which would only dilute the beam.
+    channelCount: { ideal: 2 },
+  },
+  video: false,
+});
+
+/** Opens the chosen microphone and falls back to the default one if it is gone. */
+export const openInputStream = async (inputId: string): Promise<{ stream: MediaStream; inputId: string }> => {
+  try {
+    return { stream: await navigator.mediaDevices.getUserMedia(buildAudioConstraints(inputId)), inputId };
+  } catch (err) {
+    if (!inputId) throw err;
+    console.error('Selected microphone unavailable, using default:', err);
+    return { stream: await navigator.mediaDevices.getUserMedia(buildAudioConstraints('')), inputId: '' };
+  }
+};
+
+export const selectionFor = (devices: AudioDevices, inputId: string, outputId: string): DeviceSelection => ({
+  inputId: inputId || undefined,
+  inputLabel: devices.inputs.find(d => d.deviceId === inputId)?.label || undefined,
+  outputId: outputId || undefined,
+  outputLabel: devices.outputs.find(d => d.deviceId === outputId)?.label || undefined,
+});
@@ -0,0 +1,80 @@
+export interface FeedbackDetector {
+  analyze: (spectrum: Float32Array, sampleRate: number) => number[];
+  reset: () => void;
+}
+
+const MIN_FREQUENCY = 200;
+const MAX_FREQUENCY = 8000;
+const MIN_LEVEL = -60;
+const MIN_PEAK_TO_NEIGHBOUR = 18;
+const NEIGHBOURHOOD = 8;
+const GROWING_FRAMES = 4;
+const GROWTH = 3;
+const SUSTAINED_FRAMES = 12;
+const SUSTAINED_PEAK_TO_NEIGHBOUR = 25;
+
+interface Candidate {
+  frames: number;
+  firstLevel: number;
+  lastLevel: number;
+  peakToNeighbour: number;
+}
+
+/**
+ * Looks for howling: narrow spectral peaks that stand far above their
+ * neighbourhood and keep growing (or stay extremely narrow) over several
+ * consecutive analyses. Returns the frequencies of newly detected peaks.
+ */
+export const createFeedbackDetector = (): FeedbackDetector => {
+  let candidates = new Map<number, Candidate>();
+
+  const analyze = (spectrum: Float32Array, sampleRate: number): number[] => {
+    const binWidth = sampleRate / 2 / spectrum.length;
+    const first = Math.max(NEIGHBOURHOOD, Math.ceil(MIN_FREQUENCY / binWidth));
+    const last = Math.min(spectrum.length - NEIGHBOURHOOD - 1, Math.floor(MAX_FREQUENCY / binWidth));
+    const next = new Map<number, Candidate>();
+    const detected: number[] = [];
+
+    for (let k = first; k <= last; k++) {
+      const level = spectrum[k];
+      if (level < MIN_LEVEL || level < spectrum[k - 1] || level < spectrum[k + 1]) continue;
+
+      let sum = 0;
+      let count = 0;
+      for (let j = k - NEIGHBOURHOOD; j <= k + NEIGHBOURHOOD; j++) {
+        if (Math.abs(j - k) <= 2) continue;
+        sum += spectrum[j];
+        count++;
+      }
+      const peakToNeighbour = level - sum / count;
+      if (peakToNeighbour < MIN_PEAK_TO_NEIGHBOUR) continue;
+
+      const previous = candidates.get(k) ?? candidates.get(k - 1) ?? candidates.get(k + 1);
+      const candidate: Candidate = previous
+        ? { frames: previous.frames + 1, firstLevel: previous.firstLevel, lastLevel: level, peakToNeighbour }
+        : { frames: 1, firstLevel: level, lastLevel: level, peakToNeighbour };
+
+      const growing = candidate.frames >= GROWING_FRAMES && candidate.lastLevel - candidate.firstLevel >= GROWTH;
+      const sustained = candidate.frames >= SUSTAINED_FRAMES && candidate.peakToNeighbour >= SUSTAINED_PEAK_TO_NEIGHBOUR;
+      if (growing || sustained) {
+        // Parabolic interpolation between the neighbouring bins for a sharper estimate.
+        const a = spectrum[k - 1];
+        const c = spectrum[k + 1];
+        const denominator = a - 2 * level + c;
+        const offset = denominator !== 0 ? (0.5 * (a - c)) / denominator : 0;
+        detected.push((k + offset) * binWidth);
+      } else {
+        next.set(k, candidate);
+      }
+    }
+
+    candidates = next;
+    return detected;
+  };
+
+  const reset = () => {
+    candidates = new Map();
+  };
+
+  return { analyze, reset };
+};
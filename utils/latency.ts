@@ -0,0 +1,65 @@
+import { MessageId } from '../i18n';
+
+export type LatencyMode = 'interactive' | 'lowest';
+
+export const LATENCY_MODES: { id: LatencyMode; label: MessageId }[] = [
+  { id: 'interactive', label: 'latency.modeInteractive' },
+  { id: 'lowest', label: 'latency.modeLowest' },
+];
+
+export const MAX_LATENCY_MEASUREMENTS = 20;
+
+/**
+ * Options for the AudioContext. "lowest" asks for the smallest buffer the
+ * browser allows and runs at the microphone's own sample rate, so the input
+ * does not have to be resampled.
+ */
+export const audioContextOptions = (mode: LatencyMode, stream: MediaStream | null): AudioContextOptions => {
+  if (mode !== 'lowest') return { latencyHint: 'interactive' };
+  const sampleRate = stream?.getAudioTracks()[0]?.getSettings().sampleRate;
+  return sampleRate ? { latencyHint: 0, sampleRate } : { latencyHint: 0 };
+};
+
+/** Delays in seconds; null where the browser does not report them. */
+export interface LatencyReport {
+  sampleRate: number;
+  /** Microphone buffer, as reported by the input track. */
+  input: number | null;
+  /** Processing buffer of the AudioContext. */
+  base: number | null;
+  /** From the AudioContext to the speaker or headphones. */
+  output: number | null;
+  /** Look-ahead and frame delays of the processing stages. */
+  processing: number;
+}
+
+interface TrackSettingsWithLatency extends MediaTrackSettings {
+  latency?: number;
+}
+
+const finiteOrNull = (value: number | undefined) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+
+export const readLatency = (context: AudioContext, stream: MediaStream | null, processing: number): LatencyReport => ({
+  sampleRate: context.sampleRate,
+  input: finiteOrNull((stream?.getAudioTracks()[0]?.getSettings() as TrackSettingsWithLatency | undefined)?.latency),
+  base: finiteOrNull(context.baseLatency),
+  output: finiteOrNull(context.outputLatency),
+  processing,
+});
+
+/** Sum of the reported parts; parts the browser does not report count as zero. */
+export const estimatedLatency = (report: LatencyReport): number =>
+  (report.input ?? 0) + (report.base ?? 0) + (report.output ?? 0) + report.processing;
+
+export interface LatencyMeasurement {
+  date: string;
+  mode: LatencyMode;
+  inputLabel: string;
+  outputLabel: string;
+  report: LatencyReport;
+  /** Round trip measured with a click, if one was heard. */
+  loopback: number | null;
+}
+
+export const formatMs = (seconds: number | null, tag: string) =>
+  seconds === null ? '–' : `${(seconds * 1000).toLocaleString(tag, { maximumFractionDigits: 1 })} ms`;
@@ -0,0 +1,52 @@
+const DB_NAME = 'klangnah';
+const DB_VERSION = 2;
+
+export const CLIP_STORE = 'clips';
+export const USAGE_STORE = 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isLocalDbSupported = (): boolean => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** The app's IndexedDB database. Everything in it stays in this browser. */
+export const openLocalDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CLIP_STORE)) {
+        db.createObjectStore(CLIP_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id', autoIncrement: true }).createIndex('time', 'time');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+/** Runs `action` on one object store and resolves once the transaction has completed. */
+export const withStore = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openLocalDb();
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(action(transaction.objectStore(storeName)));
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  // Awaited together, so a failed request cannot end up as an unhandled rejection.
+  const [value] = await Promise.all([result, done]);
+  return value;
+};
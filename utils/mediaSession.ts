@@ -0,0 +1,47 @@
+export interface MediaSessionActions {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  volumeUp: () => void;
+  volumeDown: () => void;
+}
+
+/**
+ * Maps headset and hardware media keys onto the app. Play/pause mutes, next and
+ * previous track cycle profiles, seeking forward and backward changes the volume
+ * (many headsets send those on a long press). Some browsers only deliver the keys
+ * while the page is playing audio.
+ */
+export const bindMediaSession = (actions: MediaSessionActions): (() => void) => {
+  if (!('mediaSession' in navigator)) return () => undefined;
+  const handlers: [MediaSessionAction, () => void][] = [
+    ['play', actions.play],
+    ['pause', actions.pause],
+    ['nexttrack', actions.next],
+    ['previoustrack', actions.previous],
+    ['seekforward', actions.volumeUp],
+    ['seekbackward', actions.volumeDown],
+  ];
+  handlers.forEach(([action, handler]) => {
+    try {
+      navigator.mediaSession.setActionHandler(action, handler);
+    } catch {
+      // Action not supported by this browser.
+    }
+  });
+  return () => handlers.forEach(([action]) => {
+    try {
+      navigator.mediaSession.setActionHandler(action, null);
+    } catch {
+      // Action not supported by this browser.
+    }
+  });
+};
+
+/** Shows the active profile on the lock screen and headset; `null` clears it once Klangnah is stopped. */
+export const updateMediaSession = (profileName: string | null, playing: boolean, artist = '') => {
+  if (!('mediaSession' in navigator)) return;
+  navigator.mediaSession.metadata = profileName === null ? null : new MediaMetadata({ title: profileName, artist });
+  navigator.mediaSession.playbackState = profileName === null ? 'none' : playing ? 'playing' : 'paused';
+};
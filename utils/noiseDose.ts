@@ -0,0 +1,45 @@
+// Safe listening budget after WHO/ITU-T H.870: 80 dB(A) for 40 hours per week,
+// with a 3 dB exchange rate (every +3 dB halves the allowed time).
+export const DOSE_REFERENCE_LEVEL = 80;
+export const DOSE_EXCHANGE_RATE = 3;
+export const DAILY_REFERENCE_SECONDS = (40 / 7) * 3600;
+
+export const DEFAULT_FULL_SCALE_SPL = 100;
+export const DEFAULT_OUTPUT_CEILING = -6;
+
+export type DoseAction = 'warn' | 'attenuate';
+
+export interface DoseHistory {
+  [date: string]: number;
+}
+
+export const DOSE_ATTENUATION_DB = 10;
+
+export const dateKey = (date: Date = new Date()): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const rmsToDbfs = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sum / (samples.length || 1));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
+
+export const peakToDbfs = (samples: Float32Array): number => {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+};
+
+/** Share of the daily budget (in percent) used by listening at `level` dB SPL for `seconds`. */
+export const doseIncrement = (level: number, seconds: number): number => {
+  if (!Number.isFinite(level)) return 0;
+  const allowedSeconds = DAILY_REFERENCE_SECONDS / Math.pow(2, (level - DOSE_REFERENCE_LEVEL) / DOSE_EXCHANGE_RATE);
+  return (seconds / allowedSeconds) * 100;
+};
@@ -0,0 +1,143 @@
+import { CompressionSettings, Ear, EarSettings, EQFilters, EQLayout, EQSettings, NoiseColor, NoiseReductionSettings, Profile, SoundGeneratorSettings, SpeechFocusSettings, StereoEQSettings } from '../types';
+import { EQ_LAYOUTS, EQ_MAX_GAIN, DEFAULT_EAR_SETTINGS, DEFAULT_COMPRESSION, DEFAULT_EQ_FILTERS, DEFAULT_NOISE_REDUCTION, DEFAULT_SOUND_GENERATOR, DEFAULT_SPEECH_FOCUS, NOISE_COLORS, SOUND_GENERATOR_MAX_LEVEL, SOUND_GENERATOR_MIN_LEVEL, TINNITUS_FREQUENCY_MAX, TINNITUS_FREQUENCY_MIN } from '../constants';
+
+export const EARS: Ear[] = ['left', 'right'];
+
+const finiteOr = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+export const isStereoEq = (eq: Profile['eq'] | undefined): eq is StereoEQSettings =>
+  !!eq && typeof eq === 'object' && 'left' in eq && 'right' in eq;
+
+export const eqFrequencies = (layout: EQLayout): number[] =>
+  (EQ_LAYOUTS.find(l => l.id === layout) ?? EQ_LAYOUTS[0]).frequencies;
+
+const clampGain = (gain: number) => Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, gain));
+
+/**
+ * Maps a curve onto other band frequencies by interpolating linearly over log
+ * frequency. Bands the curve already has keep their value exactly; beyond its
+ * lowest and highest band the outermost value is held.
+ */
+export const resampleEq = (eq: EQSettings | undefined, frequencies: number[]): EQSettings => {
+  const points = Object.keys(eq ?? {})
+    .map(Number)
+    .filter(freq => freq > 0 && Number.isFinite(eq![freq]))
+    .sort((a, b) => a - b);
+  const result: EQSettings = {};
+  frequencies.forEach(freq => {
+    if (points.length === 0) {
+      result[freq] = 0;
+      return;
+    }
+    const upper = points.findIndex(p => p >= freq);
+    if (upper === 0 || upper === -1) {
+      result[freq] = clampGain(eq![points[upper === 0 ? 0 : points.length - 1]]);
+      return;
+    }
+    const lo = points[upper - 1];
+    const hi = points[upper];
+    const t = Math.log(freq / lo) / Math.log(hi / lo);
+    result[freq] = clampGain(Math.round((eq![lo] + t * (eq![hi] - eq![lo])) * 10) / 10);
+  });
+  return result;
+};
+
+export const sanitizeEq = (eq: EQSettings | undefined, frequencies: number[]): EQSettings =>
+  resampleEq(eq, frequencies);
+
+/**
+ * Profiles saved before the left/right split have a single EQ curve. Those are
+ * applied to both ears.
+ */
+export const toStereoEq = (eq: Profile['eq'] | undefined, frequencies: number[]): StereoEQSettings => {
+  if (isStereoEq(eq)) {
+    return { left: sanitizeEq(eq.left, frequencies), right: sanitizeEq(eq.right, frequencies) };
+  }
+  const mono = sanitizeEq(eq, frequencies);
+  return { left: mono, right: { ...mono } };
+};
+
+export const sanitizeEqFilters = (filters: Profile['eqFilters'] | undefined): EQFilters => ({
+  highPass: {
+    enabled: filters?.highPass?.enabled === true,
+    frequency: finiteOr(filters?.highPass?.frequency, DEFAULT_EQ_FILTERS.highPass.frequency),
+  },
+  lowShelf: {
+    enabled: filters?.lowShelf?.enabled === true,
+    frequency: finiteOr(filters?.lowShelf?.frequency, DEFAULT_EQ_FILTERS.lowShelf.frequency),
+    gain: clampGain(finiteOr(filters?.lowShelf?.gain, DEFAULT_EQ_FILTERS.lowShelf.gain)),
+  },
+  highShelf: {
+    enabled: filters?.highShelf?.enabled === true,
+    frequency: finiteOr(filters?.highShelf?.frequency, DEFAULT_EQ_FILTERS.highShelf.frequency),
+    gain: clampGain(finiteOr(filters?.highShelf?.gain, DEFAULT_EQ_FILTERS.highShelf.gain)),
+  },
+  lowPass: {
+    enabled: filters?.lowPass?.enabled === true,
+    frequency: finiteOr(filters?.lowPass?.frequency, DEFAULT_EQ_FILTERS.lowPass.frequency),
+  },
+});
+
+export const sanitizeEars = (ears: Profile['ears'] | undefined): Record<Ear, EarSettings> => {
+  const result = {} as Record<Ear, EarSettings>;
+  EARS.forEach(ear => {
+    result[ear] = {
+      gain: finiteOr(ears?.[ear]?.gain, DEFAULT_EAR_SETTINGS.gain),
+      limiter: finiteOr(ears?.[ear]?.limiter, DEFAULT_EAR_SETTINGS.limiter),
+    };
+  });
+  return result;
+};
+
+export const isEqLinked = (eq: StereoEQSettings): boolean =>
+  Object.keys(eq.left).every(freq => eq.left[Number(freq)] === eq.right[Number(freq)]);
+
+export const sanitizeCompression = (compression: Profile['compression'] | undefined): CompressionSettings => ({
+  enabled: compression?.enabled === true,
+  bands: DEFAULT_COMPRESSION.bands.map((fallback, i) => {
+    const band = compression?.bands?.[i];
+    return {
+      threshold: finiteOr(band?.threshold, fallback.threshold),
+      ratio: finiteOr(band?.ratio, fallback.ratio),
+      attack: finiteOr(band?.attack, fallback.attack),
+      release: finiteOr(band?.release, fallback.release),
+    };
+  }),
+});
+
+export const sanitizeNoiseReduction = (noiseReduction: Profile['noiseReduction'] | undefined): NoiseReductionSettings => ({
+  enabled: noiseReduction?.enabled === true,
+  strength: Math.max(0, Math.min(100, finiteOr(noiseReduction?.strength, DEFAULT_NOISE_REDUCTION.strength))),
+});
+
+export const sanitizeSpeechFocus = (speechFocus: Profile['speechFocus'] | undefined): SpeechFocusSettings => ({
+  enabled: speechFocus?.enabled === true,
+  strength: Math.max(0, Math.min(100, finiteOr(speechFocus?.strength, DEFAULT_SPEECH_FOCUS.strength))),
+});
+
+export const sanitizeSoundGenerator = (generator: Profile['soundGenerator'] | undefined): SoundGeneratorSettings => ({
+  enabled: generator?.enabled === true,
+  color: NOISE_COLORS.includes(generator?.color as NoiseColor) ? generator!.color : DEFAULT_SOUND_GENERATOR.color,
+  level: Math.max(SOUND_GENERATOR_MIN_LEVEL, Math.min(SOUND_GENERATOR_MAX_LEVEL, finiteOr(generator?.level, DEFAULT_SOUND_GENERATOR.level))),
+  notch: generator?.notch === true,
+  tinnitusFrequency: Math.max(TINNITUS_FREQUENCY_MIN, Math.min(TINNITUS_FREQUENCY_MAX, finiteOr(generator?.tinnitusFrequency, DEFAULT_SOUND_GENERATOR.tinnitusFrequency))),
+  ocean: generator?.ocean === true,
+  microphone: generator?.microphone !== false,
+});
+
+/** Appends " (2)", " (3)", … until the name is free. */
+export const uniqueProfileName = (name: string, isTaken: (name: string) => boolean): string => {
+  if (!isTaken(name)) return name;
+  let i = 2;
+  while (isTaken(`${name} (${i})`)) i++;
+  return `${name} (${i})`;
+};
+
+export const moveProfile = (profiles: Profile[], from: number, to: number): Profile[] => {
+  if (from === to || from < 0 || to < 0 || from >= profiles.length || to >= profiles.length) return profiles;
+  const next = [...profiles];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
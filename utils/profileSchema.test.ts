@@ -0,0 +1,41 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { DEFAULT_EQ } from '../constants';
+import { Profile } from '../types';
+import { loadProfileLibrary, PROFILE_SCHEMA_VERSION } from './profileSchema';
+
+const profile = (name: string, extra: Partial<Profile> = {}): Profile => ({
+  name, preAmp: 100, volume: 100, eq: { left: DEFAULT_EQ, right: DEFAULT_EQ }, balance: 0, ...extra,
+});
+
+const stored = (...profiles: unknown[]) => ({ version: PROFILE_SCHEMA_VERSION, profiles });
+
+describe('loadProfileLibrary', () => {
+  it('clamps audiogram thresholds outside the valid range instead of setting the profile aside', () => {
+    const audiogram = { left: { 1000: 130, 2000: 40 }, right: { 1000: -20 }, date: '2026-10-19T08:00:00.000Z' };
+    const library = loadProfileLibrary(stored(profile('Test', { audiogram })), null);
+    expect(library.rejected).toBeUndefined();
+    expect(library.profiles[0].audiogram).toEqual({ left: { 1000: 120, 2000: 40 }, right: { 1000: -10 }, date: audiogram.date });
+  });
+
+  it('renames custom profiles that use the id of a predefined profile', () => {
+    const library = loadProfileLibrary(stored(profile('tv'), profile('tv (2)'), profile('street', { volume: 90 }), profile('Küche')), null);
+    expect(library.profiles.map(p => p.name)).toEqual(['tv (3)', 'tv (2)', 'street (2)', 'Küche']);
+    expect(library.profiles[2].volume).toBe(90);
+  });
+
+  it('renames them in the unversioned legacy array as well', () => {
+    const library = loadProfileLibrary(undefined, [{ name: 'conversation', preAmp: 100, volume: 100, eq: DEFAULT_EQ, balance: 0 }]);
+    expect(library.profiles.map(p => p.name)).toEqual(['conversation (2)']);
+  });
+
+  it('keeps profiles it cannot repair as they were', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = { ...profile('Kaputt'), audiogram: 'none' };
+    const library = loadProfileLibrary(stored(profile('Gut'), broken), null);
+    expect(library.profiles.map(p => p.name)).toEqual(['Gut']);
+    expect(library.rejected).toEqual([broken]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
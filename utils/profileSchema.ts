@@ -0,0 +1,399 @@
+import { EQLayout, Profile } from '../types';
+import { AUDIOGRAM_MAX_LEVEL, AUDIOGRAM_MIN_LEVEL, DEFAULT_BALANCE, DEFAULT_EQ_LAYOUT, DEFAULT_PRE_AMP, DEFAULT_VOLUME, EQ_FREQUENCIES, EQ_LAYOUTS, EQ_MAX_GAIN, NOISE_COLORS, PREDEFINED_PROFILES, SOUND_GENERATOR_MAX_LEVEL, SOUND_GENERATOR_MIN_LEVEL, TINNITUS_FREQUENCY_MAX, TINNITUS_FREQUENCY_MIN } from '../constants';
+import { createTranslator, Translate } from '../i18n';
+import { eqFrequencies, toStereoEq, uniqueProfileName, sanitizeCompression, sanitizeEars, sanitizeEqFilters, sanitizeNoiseReduction, sanitizeSoundGenerator, sanitizeSpeechFocus } from './profile';
+import { decodeCompact, encodeCompact } from './compactCode';
+
+export const PROFILE_FORMAT = 'klangnah-profiles';
+export const PROFILE_SCHEMA_VERSION = 3;
+export const PROFILE_NAME_MAX_LENGTH = 60;
+
+export interface ProfileFile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  profiles: Profile[];
+}
+
+export interface ProfileLibrary {
+  version: number;
+  profiles: Profile[];
+  /** Stored entries that could neither be read nor repaired. They are kept as they were, so saving never deletes them. */
+  rejected?: unknown[];
+}
+
+export interface ParsedProfiles {
+  profiles: Profile[];
+  errors: string[];
+  /** The raw entries behind the errors. */
+  rejected?: unknown[];
+}
+
+type RawProfile = { [key: string]: unknown };
+
+const isObject = (value: unknown): value is RawProfile =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migrations from one schema version to the next. Version 1 is the original
+ * format: a plain array of profiles with a single EQ curve and no version field.
+ * Version 3 added EQ layouts and filters; version 2 curves are six-band curves
+ * and need no change.
+ */
+const MIGRATIONS: { [fromVersion: number]: (profile: RawProfile) => RawProfile } = {
+  1: profile => ({
+    ...profile,
+    eq: toStereoEq(profile.eq as Profile['eq'], EQ_FREQUENCIES),
+    ears: sanitizeEars(profile.ears as Profile['ears']),
+  }),
+};
+
+export const migrateProfile = (profile: RawProfile, fromVersion: number): RawProfile => {
+  let migrated = profile;
+  for (let version = fromVersion; version < PROFILE_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) migrated = migrate(migrated);
+  }
+  return migrated;
+};
+
+const checkNumber = (t: Translate, errors: string[], label: string, value: unknown, min: number, max: number, optional = false) => {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    errors.push(t('schema.notNumber', { label }));
+  } else if (value < min || value > max) {
+    errors.push(t('schema.outOfRange', { label, min, max }));
+  }
+};
+
+const checkCurve = (t: Translate, errors: string[], label: string, curve: unknown, min: number, max: number) => {
+  if (!isObject(curve)) {
+    errors.push(t('schema.missing', { label }));
+    return;
+  }
+  Object.keys(curve).forEach(key => {
+    const freq = Number(key);
+    if (!Number.isFinite(freq) || freq < 20 || freq > 20000) {
+      errors.push(t('schema.invalidFrequency', { label, key }));
+      return;
+    }
+    checkNumber(t, errors, `${label} ${freq} Hz`, curve[key], min, max);
+  });
+};
+
+const checkFilter = (t: Translate, errors: string[], label: string, filter: unknown, withGain: boolean) => {
+  if (filter === undefined) return;
+  if (!isObject(filter) || typeof filter.enabled !== 'boolean') {
+    errors.push(t('schema.invalid', { label }));
+    return;
+  }
+  checkNumber(t, errors, t('schema.frequency', { label }), filter.frequency, 20, 20000);
+  if (withGain) checkNumber(t, errors, t('schema.gain', { label }), filter.gain, -EQ_MAX_GAIN, EQ_MAX_GAIN);
+};
+
+/** Checks a profile of the current schema version and lists every problem found. */
+export const validateProfile = (profile: RawProfile, t: Translate): string[] => {
+  const errors: string[] = [];
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    errors.push(t('schema.nameMissing'));
+  } else if (profile.name.length > PROFILE_NAME_MAX_LENGTH) {
+    errors.push(t('schema.nameTooLong'));
+  }
+  checkNumber(t, errors, t('schema.preAmp'), profile.preAmp, 0, 300);
+  checkNumber(t, errors, t('schema.volume'), profile.volume, 0, 300);
+  checkNumber(t, errors, t('schema.balance'), profile.balance, -100, 100);
+
+  const eq = profile.eq;
+  if (!isObject(eq)) {
+    errors.push(t('schema.eqMissing'));
+  } else {
+    checkCurve(t, errors, t('schema.eqLeft'), eq.left, -EQ_MAX_GAIN, EQ_MAX_GAIN);
+    checkCurve(t, errors, t('schema.eqRight'), eq.right, -EQ_MAX_GAIN, EQ_MAX_GAIN);
+  }
+  if (profile.eqLayout !== undefined && !EQ_LAYOUTS.some(layout => layout.id === profile.eqLayout)) {
+    errors.push(t('schema.eqLayoutUnknown'));
+  }
+  if (profile.eqFilters !== undefined) {
+    const filters = profile.eqFilters;
+    if (!isObject(filters)) {
+      errors.push(t('schema.eqFiltersInvalid'));
+    } else {
+      checkFilter(t, errors, t('schema.highPass'), filters.highPass, false);
+      checkFilter(t, errors, t('schema.lowShelf'), filters.lowShelf, true);
+      checkFilter(t, errors, t('schema.highShelf'), filters.highShelf, true);
+      checkFilter(t, errors, t('schema.lowPass'), filters.lowPass, false);
+    }
+  }
+
+  if (profile.ears !== undefined) {
+    const ears = profile.ears;
+    if (!isObject(ears)) {
+      errors.push(t('schema.earsInvalid'));
+    } else {
+      (['left', 'right'] as const).forEach(ear => {
+        const settings = ears[ear];
+        const label = t(ear === 'left' ? 'schema.left' : 'schema.right');
+        if (!isObject(settings)) {
+          errors.push(t('schema.earMissing', { ear: label }));
+          return;
+        }
+        checkNumber(t, errors, t('schema.earGain', { ear: label }), settings.gain, 0, 200);
+        checkNumber(t, errors, t('schema.earLimit', { ear: label }), settings.limiter, -40, 0);
+      });
+    }
+  }
+
+  if (profile.compression !== undefined) {
+    const compression = profile.compression;
+    if (!isObject(compression) || !Array.isArray(compression.bands)) {
+      errors.push(t('schema.compressionInvalid'));
+    } else {
+      compression.bands.forEach((band: unknown, i: number) => {
+        if (!isObject(band)) {
+          errors.push(t('schema.bandInvalid', { band: i + 1 }));
+          return;
+        }
+        checkNumber(t, errors, t('schema.bandThreshold', { band: i + 1 }), band.threshold, -100, 0);
+        checkNumber(t, errors, t('schema.bandRatio', { band: i + 1 }), band.ratio, 1, 20);
+        checkNumber(t, errors, t('schema.bandAttack', { band: i + 1 }), band.attack, 0, 1000);
+        checkNumber(t, errors, t('schema.bandRelease', { band: i + 1 }), band.release, 0, 3000);
+      });
+    }
+  }
+
+  if (profile.noiseReduction !== undefined) {
+    const noiseReduction = profile.noiseReduction;
+    if (!isObject(noiseReduction)) {
+      errors.push(t('schema.noiseReductionInvalid'));
+    } else {
+      checkNumber(t, errors, t('schema.noiseReductionStrength'), noiseReduction.strength, 0, 100);
+    }
+  }
+
+  if (profile.speechFocus !== undefined) {
+    const speechFocus = profile.speechFocus;
+    if (!isObject(speechFocus)) {
+      errors.push(t('schema.speechFocusInvalid'));
+    } else {
+      checkNumber(t, errors, t('schema.speechFocusStrength'), speechFocus.strength, 0, 100);
+    }
+  }
+
+  if (profile.soundGenerator !== undefined) {
+    const generator = profile.soundGenerator;
+    if (!isObject(generator)) {
+      errors.push(t('schema.soundGeneratorInvalid'));
+    } else {
+      if (!(NOISE_COLORS as unknown[]).includes(generator.color)) errors.push(t('schema.soundGeneratorColor'));
+      checkNumber(t, errors, t('schema.soundGeneratorLevel'), generator.level, SOUND_GENERATOR_MIN_LEVEL, SOUND_GENERATOR_MAX_LEVEL);
+      checkNumber(t, errors, t('schema.tinnitusFrequency'), generator.tinnitusFrequency, TINNITUS_FREQUENCY_MIN, TINNITUS_FREQUENCY_MAX);
+    }
+  }
+
+  if (profile.audiogram !== undefined) {
+    const audiogram = profile.audiogram;
+    if (!isObject(audiogram)) {
+      errors.push(t('schema.audiogramInvalid'));
+    } else {
+      checkCurve(t, errors, t('schema.audiogramLeft'), audiogram.left, AUDIOGRAM_MIN_LEVEL, AUDIOGRAM_MAX_LEVEL);
+      checkCurve(t, errors, t('schema.audiogramRight'), audiogram.right, AUDIOGRAM_MIN_LEVEL, AUDIOGRAM_MAX_LEVEL);
+    }
+  }
+
+  if (profile.fittingRule !== undefined && profile.fittingRule !== 'nal-r' && profile.fittingRule !== 'half-gain') {
+    errors.push(t('schema.fittingRuleUnknown'));
+  }
+  if (profile.favorite !== undefined && typeof profile.favorite !== 'boolean') {
+    errors.push(t('schema.favoriteInvalid'));
+  }
+  return errors;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const clampOr = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+
+/** Clamps the numbers of a frequency curve; anything else is left for the checks to report. */
+const clampCurve = (curve: unknown, min: number, max: number) =>
+  isObject(curve)
+    ? Object.fromEntries(Object.entries(curve).map(([freq, value]) => [freq, typeof value === 'number' && Number.isFinite(value) ? clamp(value, min, max) : value]))
+    : curve;
+
+/**
+ * Brings a profile back into the valid ranges: the name is shortened and numbers
+ * are clamped or replaced by defaults. Parts that cannot be repaired this way,
+ * such as a missing name or an audiogram without curves, are left as they are.
+ */
+export const repairProfile = (profile: RawProfile): RawProfile => {
+  const eqLayout = EQ_LAYOUTS.some(layout => layout.id === profile.eqLayout) ? profile.eqLayout as EQLayout : DEFAULT_EQ_LAYOUT;
+  const ears = sanitizeEars(profile.ears as Profile['ears']);
+  const compression = sanitizeCompression(profile.compression as Profile['compression']);
+  const filters = sanitizeEqFilters(profile.eqFilters as Profile['eqFilters']);
+  const clampFrequency = <F extends { frequency: number }>(filter: F): F => ({ ...filter, frequency: clamp(filter.frequency, 20, 20000) });
+  return {
+    ...profile,
+    name: typeof profile.name === 'string' ? profile.name.trim().slice(0, PROFILE_NAME_MAX_LENGTH) : profile.name,
+    preAmp: clampOr(profile.preAmp, 0, 300, DEFAULT_PRE_AMP),
+    volume: clampOr(profile.volume, 0, 300, DEFAULT_VOLUME),
+    balance: clampOr(profile.balance, -100, 100, DEFAULT_BALANCE),
+    eq: toStereoEq(profile.eq as Profile['eq'], eqFrequencies(eqLayout)),
+    eqLayout,
+    ...(profile.eqFilters !== undefined && {
+      eqFilters: {
+        highPass: clampFrequency(filters.highPass),
+        lowShelf: clampFrequency(filters.lowShelf),
+        highShelf: clampFrequency(filters.highShelf),
+        lowPass: clampFrequency(filters.lowPass),
+      },
+    }),
+    ...(profile.ears !== undefined && {
+      ears: {
+        left: { gain: clamp(ears.left.gain, 0, 200), limiter: clamp(ears.left.limiter, -40, 0) },
+        right: { gain: clamp(ears.right.gain, 0, 200), limiter: clamp(ears.right.limiter, -40, 0) },
+      },
+    }),
+    ...(profile.compression !== undefined && {
+      compression: {
+        ...compression,
+        bands: compression.bands.map(band => ({
+          threshold: clamp(band.threshold, -100, 0),
+          ratio: clamp(band.ratio, 1, 20),
+          attack: clamp(band.attack, 0, 1000),
+          release: clamp(band.release, 0, 3000),
+        })),
+      },
+    }),
+    ...(profile.noiseReduction !== undefined && { noiseReduction: sanitizeNoiseReduction(profile.noiseReduction as Profile['noiseReduction']) }),
+    ...(profile.speechFocus !== undefined && { speechFocus: sanitizeSpeechFocus(profile.speechFocus as Profile['speechFocus']) }),
+    ...(profile.soundGenerator !== undefined && { soundGenerator: sanitizeSoundGenerator(profile.soundGenerator as Profile['soundGenerator']) }),
+    ...(isObject(profile.audiogram) && {
+      audiogram: {
+        ...profile.audiogram,
+        left: clampCurve(profile.audiogram.left, AUDIOGRAM_MIN_LEVEL, AUDIOGRAM_MAX_LEVEL),
+        right: clampCurve(profile.audiogram.right, AUDIOGRAM_MIN_LEVEL, AUDIOGRAM_MAX_LEVEL),
+      },
+    }),
+  };
+};
+
+const readProfiles = (items: unknown[], version: number, t: Translate, repair: boolean): ParsedProfiles => {
+  const profiles: Profile[] = [];
+  const errors: string[] = [];
+  const rejected: unknown[] = [];
+  items.forEach((item, i) => {
+    if (!isObject(item)) {
+      errors.push(t('schema.notAProfile', { index: i + 1 }));
+      rejected.push(item);
+      return;
+    }
+    let profile = migrateProfile(item, version);
+    let problems = validateProfile(profile, t);
+    if (problems.length > 0 && repair) {
+      profile = repairProfile(profile);
+      problems = validateProfile(profile, t);
+    }
+    if (problems.length > 0) {
+      const name = typeof item.name === 'string' && item.name ? `“${item.name}”` : t('schema.entry', { index: i + 1 });
+      errors.push(`${name}: ${problems.join(' ')}`);
+      rejected.push(item);
+      return;
+    }
+    profiles.push(profile as unknown as Profile);
+  });
+  return { profiles, errors, rejected };
+};
+
+/**
+ * Reads profiles from any supported source: an export file, a single profile
+ * object or the unversioned array the app stored before schema versions existed.
+ * With `repair`, profiles that fail the checks are repaired where possible
+ * instead of being reported.
+ */
+export const parseProfileData = (data: unknown, t: Translate, repair = false): ParsedProfiles => {
+  if (Array.isArray(data)) {
+    return readProfiles(data, 1, t, repair);
+  }
+  if (!isObject(data)) {
+    return { profiles: [], errors: [t('schema.noProfiles')] };
+  }
+  if (Array.isArray(data.profiles)) {
+    const version = typeof data.version === 'number' ? data.version : 1;
+    if (version > PROFILE_SCHEMA_VERSION) {
+      return { profiles: [], errors: [t('schema.newerVersion', { version })] };
+    }
+    return readProfiles(data.profiles, version, t, repair);
+  }
+  if ('name' in data) {
+    const version = typeof data.version === 'number' ? data.version : 1;
+    return readProfiles([data], version, t, repair);
+  }
+  return { profiles: [], errors: [t('schema.noProfiles')] };
+};
+
+export const parseProfileText = (text: string, t: Translate): ParsedProfiles => {
+  try {
+    return parseProfileData(JSON.parse(text), t);
+  } catch (error) {
+    return { profiles: [], errors: [t('schema.invalidJson')] };
+  }
+};
+
+export const createProfileFile = (profiles: Profile[]): ProfileFile => ({
+  format: PROFILE_FORMAT,
+  version: PROFILE_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  profiles,
+});
+
+/**
+ * Predefined profiles are looked up by their ids, which used to be free names.
+ * A custom profile stored under one of them is renamed, so it is not hidden
+ * behind the predefined profile.
+ */
+const renameReservedProfiles = (profiles: Profile[]): Profile[] => {
+  const reserved = PREDEFINED_PROFILES.map(profile => profile.name);
+  const taken = new Set([...reserved, ...profiles.map(profile => profile.name)]);
+  return profiles.map(profile => {
+    if (!reserved.includes(profile.name)) return profile;
+    const name = uniqueProfileName(profile.name, candidate => taken.has(candidate));
+    taken.add(name);
+    return { ...profile, name };
+  });
+};
+
+export const loadProfileLibrary = (stored: unknown, legacy: unknown): ProfileLibrary => {
+  const source = stored ?? legacy ?? [];
+  // The problems only go to the console, which is read in English.
+  const { profiles, errors, rejected = [] } = parseProfileData(source, createTranslator('en'), true);
+  if (errors.length > 0) {
+    console.warn('Some stored profiles could not be loaded and are kept aside:', errors);
+  }
+  const keptAside = isObject(stored) && Array.isArray(stored.rejected) ? stored.rejected : [];
+  const allRejected = [...keptAside, ...rejected];
+  return { version: PROFILE_SCHEMA_VERSION, profiles: renameReservedProfiles(profiles), ...(allRejected.length > 0 && { rejected: allRejected }) };
+};
+
+const SHARE_PREFIX = 'KN2';
+
+/**
+ * Compact share code: the export file, packed with `encodeCompact` behind the
+ * share prefix.
+ */
+export const encodeShareCode = async (profiles: Profile[]): Promise<string> =>
+  `${SHARE_PREFIX}${await encodeCompact(JSON.stringify(createProfileFile(profiles)))}`;
+
+export const decodeShareCode = async (code: string, t: Translate): Promise<ParsedProfiles> => {
+  const trimmed = code.trim().replace(/^.*#import=/, '');
+  if (!trimmed.startsWith(SHARE_PREFIX)) {
+    return parseProfileText(trimmed, t);
+  }
+  const decoded = await decodeCompact(trimmed.slice(SHARE_PREFIX.length));
+  if ('error' in decoded) {
+    return { profiles: [], errors: [t(decoded.error === 'unsupported' ? 'schema.noDecompression' : 'schema.corruptCode')] };
+  }
+  return parseProfileText(decoded.text, t);
+};
+
+export const buildShareLink = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}#import=${code}`;
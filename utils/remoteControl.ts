@@ -0,0 +1,213 @@
+import { Ear, StereoEQSettings } from '../types';
+import { decodeCompact, encodeCompact } from './compactCode';
+
+export type RemoteStatus = 'connecting' | 'connected' | 'closed';
+
+/** Changes a caregiver may make. The owner's device applies them with its own handlers. */
+export type RemoteCommand =
+  | { type: 'profile'; name: string }
+  | { type: 'volume'; value: number }
+  | { type: 'balance'; value: number }
+  | { type: 'eq'; ear: Ear | 'both'; frequency: number; gain: number };
+
+export interface RemoteProfileOption {
+  name: string;
+  /** Label in the owner's language. */
+  label: string;
+}
+
+export interface RemoteState {
+  running: boolean;
+  profile: string;
+  profiles: RemoteProfileOption[];
+  volume: number;
+  balance: number;
+  eq: StereoEQSettings;
+}
+
+export type RemoteMessage =
+  | RemoteCommand
+  | { type: 'state'; state: RemoteState }
+  /** Input and output level in dBFS. */
+  | { type: 'levels'; input: number; output: number }
+  | { type: 'revoke' };
+
+export interface RemoteLink {
+  readonly status: RemoteStatus;
+  send: (message: RemoteMessage) => void;
+  close: () => void;
+}
+
+export interface RemoteLinkHandlers {
+  onMessage: (message: RemoteMessage) => void;
+  onStatus: (status: RemoteStatus) => void;
+}
+
+export interface OwnerPairing {
+  link: RemoteLink;
+  /** Code for the caregiver's device, usually opened as a link from a QR code. */
+  offer: string;
+  /** Completes the pairing with the caregiver's reply; false if the code is not a valid reply. */
+  acceptAnswer: (code: string) => Promise<boolean>;
+}
+
+export interface CaregiverPairing {
+  link: RemoteLink;
+  /** Reply code the owner enters or scans. */
+  answer: string;
+}
+
+const SIGNAL_PREFIX = 'KNR';
+const CHANNEL_LABEL = 'klangnah-remote';
+// Without STUN or TURN servers only direct connections in the local network work, and nothing passes through third parties.
+const RTC_CONFIG: RTCConfiguration = { iceServers: [] };
+// Candidates are collected before the code is shown, so one exchange in each direction is enough.
+const ICE_GATHERING_TIMEOUT = 3000;
+
+export const isRemoteControlSupported = (): boolean => typeof RTCPeerConnection !== 'undefined';
+
+export const buildRemoteLink = (code: string): string =>
+  `${window.location.origin}${window.location.pathname}#remote=${code}`;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Checks the shape of an incoming message; anything unexpected is dropped. */
+export const parseRemoteMessage = (data: unknown): RemoteMessage | null => {
+  if (typeof data !== 'string') return null;
+  let message: { [key: string]: unknown };
+  try {
+    message = JSON.parse(data);
+  } catch (error) {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  switch (message.type) {
+    case 'profile':
+      return typeof message.name === 'string' ? { type: 'profile', name: message.name } : null;
+    case 'volume':
+    case 'balance':
+      return isFiniteNumber(message.value) ? { type: message.type, value: message.value } : null;
+    case 'eq':
+      return (message.ear === 'left' || message.ear === 'right' || message.ear === 'both') && isFiniteNumber(message.frequency) && isFiniteNumber(message.gain)
+        ? { type: 'eq', ear: message.ear, frequency: message.frequency, gain: message.gain }
+        : null;
+    case 'state':
+      return typeof message.state === 'object' && message.state !== null ? { type: 'state', state: message.state as RemoteState } : null;
+    case 'levels':
+      // -Infinity (silence) arrives as null.
+      return { type: 'levels', input: isFiniteNumber(message.input) ? message.input : -Infinity, output: isFiniteNumber(message.output) ? message.output : -Infinity };
+    case 'revoke':
+      return { type: 'revoke' };
+    default:
+      return null;
+  }
+};
+
+const encodeSignal = async (description: RTCSessionDescription) =>
+  `${SIGNAL_PREFIX}${await encodeCompact(JSON.stringify({ type: description.type, sdp: description.sdp }))}`;
+
+const decodeSignal = async (code: string, type: 'offer' | 'answer'): Promise<RTCSessionDescriptionInit | null> => {
+  const trimmed = code.trim().replace(/^.*#remote=/, '');
+  if (!trimmed.startsWith(SIGNAL_PREFIX)) return null;
+  const decoded = await decodeCompact(trimmed.slice(SIGNAL_PREFIX.length));
+  if ('error' in decoded) return null;
+  try {
+    const description = JSON.parse(decoded.text);
+    return description?.type === type && typeof description.sdp === 'string' ? { type, sdp: description.sdp } : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+const waitForIceGathering = (connection: RTCPeerConnection) => new Promise<void>(resolve => {
+  if (connection.iceGatheringState === 'complete') {
+    resolve();
+    return;
+  }
+  const done = () => {
+    clearTimeout(timer);
+    connection.removeEventListener('icegatheringstatechange', check);
+    resolve();
+  };
+  const check = () => {
+    if (connection.iceGatheringState === 'complete') done();
+  };
+  const timer = setTimeout(done, ICE_GATHERING_TIMEOUT);
+  connection.addEventListener('icegatheringstatechange', check);
+});
+
+const createLink = (connection: RTCPeerConnection, handlers: RemoteLinkHandlers) => {
+  let channel: RTCDataChannel | null = null;
+  let status: RemoteStatus = 'connecting';
+
+  const setStatus = (next: RemoteStatus) => {
+    if (status === next) return;
+    status = next;
+    handlers.onStatus(next);
+  };
+
+  const close = () => {
+    if (status === 'closed') return;
+    channel?.close();
+    connection.close();
+    setStatus('closed');
+  };
+
+  const attach = (next: RTCDataChannel) => {
+    channel = next;
+    channel.onopen = () => setStatus('connected');
+    channel.onclose = close;
+    channel.onmessage = e => {
+      const message = parseRemoteMessage(e.data);
+      if (message) handlers.onMessage(message);
+    };
+  };
+
+  connection.onconnectionstatechange = () => {
+    if (connection.connectionState === 'failed' || connection.connectionState === 'closed') close();
+  };
+
+  const link: RemoteLink = {
+    get status() { return status; },
+    send: message => {
+      if (channel?.readyState === 'open') channel.send(JSON.stringify(message));
+    },
+    close,
+  };
+
+  return { link, attach };
+};
+
+/**
+ * Starts pairing on the device that plays the audio. Only a data channel is
+ * opened; no audio track is ever added to the connection.
+ */
+export const createOwnerPairing = async (handlers: RemoteLinkHandlers): Promise<OwnerPairing> => {
+  const connection = new RTCPeerConnection(RTC_CONFIG);
+  const { link, attach } = createLink(connection, handlers);
+  attach(connection.createDataChannel(CHANNEL_LABEL));
+  await connection.setLocalDescription(await connection.createOffer());
+  await waitForIceGathering(connection);
+
+  const acceptAnswer = async (code: string) => {
+    const answer = await decodeSignal(code, 'answer');
+    if (!answer || connection.signalingState !== 'have-local-offer') return false;
+    await connection.setRemoteDescription(answer);
+    return true;
+  };
+
+  return { link, offer: await encodeSignal(connection.localDescription!), acceptAnswer };
+};
+
+/** Joins a pairing from the caregiver's device; null if the code is not a valid pairing code. */
+export const joinAsCaregiver = async (offerCode: string, handlers: RemoteLinkHandlers): Promise<CaregiverPairing | null> => {
+  const offer = await decodeSignal(offerCode, 'offer');
+  if (!offer) return null;
+  const connection = new RTCPeerConnection(RTC_CONFIG);
+  const { link, attach } = createLink(connection, handlers);
+  connection.ondatachannel = e => attach(e.channel);
+  await connection.setRemoteDescription(offer);
+  await connection.setLocalDescription(await connection.createAnswer());
+  await waitForIceGathering(connection);
+  return { link, answer: await encodeSignal(connection.localDescription!) };
+};
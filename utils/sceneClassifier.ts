@@ -0,0 +1,166 @@
+import { MessageId } from '../i18n';
+
+export type Scene = 'quiet' | 'speech' | 'speech-in-noise' | 'traffic' | 'music';
+
+export const SCENES: { id: Scene; label: MessageId }[] = [
+  { id: 'quiet', label: 'scene.quiet' },
+  { id: 'speech', label: 'scene.speech' },
+  { id: 'speech-in-noise', label: 'scene.speech-in-noise' },
+  { id: 'traffic', label: 'scene.traffic' },
+  { id: 'music', label: 'scene.music' },
+];
+
+export type SceneMode = 'suggest' | 'auto';
+
+export interface SceneSettings {
+  enabled: boolean;
+  mode: SceneMode;
+  /** How long a new scene has to persist before it counts, and the minimum time between two switches. */
+  holdSeconds: number;
+  /** Profile name per scene ('default' for Standard). Scenes without an entry keep the current profile. */
+  mapping: Partial<Record<Scene, string>>;
+}
+
+export const DEFAULT_SCENE_SETTINGS: SceneSettings = {
+  enabled: false,
+  mode: 'suggest',
+  holdSeconds: 8,
+  mapping: { quiet: 'default', speech: 'conversation', 'speech-in-noise': 'conversation', traffic: 'street' },
+};
+
+export const SCENE_CROSSFADE_SECONDS = 1.5;
+
+export interface SceneFeatures {
+  /** Broadband input level in dBFS, corrected for the pre-amp. */
+  level: number;
+  /** Background level: 10th percentile of the speech-band level over the analysis window. */
+  noiseFloor: number;
+  /** Spread between loud and quiet moments in the speech band (dB). Speech pauses make this large. */
+  modulation: number;
+  /** Share of the energy between 300 Hz and 3.4 kHz. */
+  speechRatio: number;
+  /** Energy below 500 Hz relative to 2–6 kHz (dB). Road noise is strongly bass-heavy. */
+  tilt: number;
+  /** Spectral flatness (0 = pure tones, 1 = white noise). */
+  flatness: number;
+}
+
+// Thresholds in dBFS assume a typical phone or headset microphone at pre-amp 100 %.
+const QUIET_LEVEL = -55;
+const NOISY_FLOOR = -45;
+const SPEECH_MODULATION = 12;
+const SPEECH_RATIO = 0.5;
+const MUSIC_FLATNESS = 0.08;
+const TRAFFIC_TILT = 6;
+
+const HISTORY_SECONDS = 3;
+
+const toDb = (power: number) => (power > 0 ? 10 * Math.log10(power) : -Infinity);
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+
+export const classifyScene = (f: SceneFeatures): Scene => {
+  if (f.noiseFloor + f.modulation < QUIET_LEVEL) return 'quiet';
+  if (f.flatness < MUSIC_FLATNESS && f.modulation < SPEECH_MODULATION) return 'music';
+  if (f.modulation >= SPEECH_MODULATION && f.speechRatio >= SPEECH_RATIO) {
+    return f.noiseFloor > NOISY_FLOOR ? 'speech-in-noise' : 'speech';
+  }
+  if (f.tilt >= TRAFFIC_TILT && f.noiseFloor > QUIET_LEVEL) return 'traffic';
+  return f.noiseFloor > NOISY_FLOOR ? 'speech-in-noise' : 'quiet';
+};
+
+/**
+ * Extracts scene features from an AnalyserNode's spectrum and waveform. Call at
+ * a fixed interval; level statistics are taken over the last few seconds.
+ */
+export const createSceneClassifier = (intervalSeconds: number) => {
+  const historyLength = Math.max(1, Math.round(HISTORY_SECONDS / intervalSeconds));
+  let speechLevels: number[] = [];
+
+  const analyze = (spectrum: Float32Array, samples: Float32Array, sampleRate: number, inputGainDb: number): { scene: Scene; features: SceneFeatures } => {
+    const binWidth = sampleRate / (2 * spectrum.length);
+    let total = 0;
+    let speech = 0;
+    let low = 0;
+    let high = 0;
+    let logSum = 0;
+    let count = 0;
+    for (let i = 1; i < spectrum.length; i++) {
+      const freq = i * binWidth;
+      if (freq < 50 || freq > 8000) continue;
+      const power = Math.max(Math.pow(10, spectrum[i] / 10), 1e-12);
+      total += power;
+      logSum += Math.log(power);
+      count++;
+      if (freq >= 300 && freq <= 3400) speech += power;
+      if (freq < 500) low += power;
+      if (freq >= 2000 && freq <= 6000) high += power;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const level = toDb(sum / (samples.length || 1)) - inputGainDb;
+
+    const speechRatio = total > 0 ? speech / total : 0;
+    speechLevels.push(Math.max(level + toDb(speechRatio), -120));
+    if (speechLevels.length > historyLength) speechLevels.shift();
+
+    const features: SceneFeatures = {
+      level: Math.max(level, -120),
+      noiseFloor: percentile(speechLevels, 0.1),
+      modulation: percentile(speechLevels, 0.9) - percentile(speechLevels, 0.1),
+      speechRatio,
+      tilt: toDb(low) - toDb(high),
+      flatness: count > 0 && total > 0 ? Math.exp(logSum / count) / (total / count) : 1,
+    };
+    return { scene: classifyScene(features), features };
+  };
+
+  const reset = () => {
+    speechLevels = [];
+  };
+
+  return { analyze, reset };
+};
+
+/**
+ * Debounces the per-frame classification. Recent results are weighted with an
+ * exponential decay; the winner has to hold for `holdSeconds` before it becomes
+ * the current scene, and two switches are at least `holdSeconds` apart.
+ */
+export const createSceneTracker = (intervalSeconds: number) => {
+  const decay = Math.exp(-intervalSeconds / 2);
+  let scores: Partial<Record<Scene, number>> = {};
+  let current: Scene | null = null;
+  let candidate: Scene | null = null;
+  let candidateSince = 0;
+  let lastSwitch = -Infinity;
+
+  const update = (scene: Scene, now: number, holdSeconds: number): Scene | null => {
+    SCENES.forEach(({ id }) => {
+      scores[id] = (scores[id] ?? 0) * decay + (id === scene ? 1 : 0);
+    });
+    const leader = SCENES.reduce((best, { id }) => ((scores[id] ?? 0) > (scores[best] ?? 0) ? id : best), scene);
+    if (leader !== candidate) {
+      candidate = leader;
+      candidateSince = now;
+    }
+    if (candidate !== current && now - candidateSince >= holdSeconds && now - lastSwitch >= holdSeconds) {
+      current = candidate;
+      lastSwitch = now;
+    }
+    return current;
+  };
+
+  const reset = () => {
+    scores = {};
+    current = null;
+    candidate = null;
+    lastSwitch = -Infinity;
+  };
+
+  return { update, reset };
+};
@@ -0,0 +1,33 @@
+/**
+ * Registers /sw.js (production builds only). `onUpdate` is called when a new
+ * version has been downloaded and is waiting; calling the passed `apply` activates
+ * it and reloads the page.
+ */
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  const notify = (worker: ServiceWorker) => {
+    onUpdate(() => {
+      navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+      worker.postMessage({ type: 'SKIP_WAITING' });
+    });
+  };
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      if (registration.waiting && navigator.serviceWorker.controller) notify(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          // Without a controller this is the first install, not an update.
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) notify(worker);
+        });
+      });
+      // Long sessions are common; look for updates every hour.
+      setInterval(() => registration.update().catch(() => undefined), 60 * 60 * 1000);
+    } catch (err) {
+      console.error('Service worker registration failed:', err);
+    }
+  });
+};
@@ -0,0 +1,10 @@
+export const isSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/** Reads `text` aloud, replacing anything still being spoken so quick changes don't queue up. */
+export const speak = (text: string, lang = 'de-DE') => {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = lang;
+  window.speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { createTranslator } from '../i18n';
+import { UsageEntry, usageToCsv } from './usageLog';
+
+const entry = (profile: string): UsageEntry => ({
+  time: '2026-10-19T08:00:00.000Z',
+  session: 's1',
+  type: 'levels',
+  profile,
+  volume: 100,
+  preAmp: 100,
+  seconds: 60,
+  inputLevel: -42.34,
+  outputLevel: -30,
+});
+
+const profileCell = (profile: string) => {
+  const lines = usageToCsv([entry(profile)], createTranslator('en'), name => name).trim().split('\r\n');
+  return lines[1].split(',')[3];
+};
+
+describe('usageToCsv', () => {
+  it.each(['=HYPERLINK("x")', '+1', '-1', '@SUM(A1)'])('keeps spreadsheet programs from running %s as a formula', name => {
+    expect(profileCell(name).replace(/^"|"$/g, '').startsWith("'")).toBe(true);
+  });
+
+  it('leaves ordinary names and negative levels alone', () => {
+    const csv = usageToCsv([entry('Restaurant')], createTranslator('en'), name => name);
+    expect(csv).toContain(',Restaurant,');
+    expect(csv).toContain(',-42.3,-30');
+  });
+
+  it('quotes cells with separators or quotes', () => {
+    const csv = usageToCsv([entry('Büro, laut'), entry('Sagt "hallo"')], createTranslator('en'), name => name);
+    expect(csv).toContain(',"Büro, laut",');
+    expect(csv).toContain(',"Sagt ""hallo""",');
+  });
+});
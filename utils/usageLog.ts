@@ -0,0 +1,141 @@
+import { Translate } from '../i18n';
+import { Profile } from '../types';
+import { USAGE_STORE, withStore } from './localDb';
+import { dateKey } from './noiseDose';
+import { isStereoEq } from './profile';
+
+export type UsageEventType = 'start' | 'stop' | 'profile' | 'settings' | 'levels';
+
+export interface UsageEntry {
+  id?: number;
+  /** ISO timestamp. */
+  time: string;
+  session: string;
+  type: UsageEventType;
+  /** Active profile: 'default', 'custom' or a profile name. */
+  profile: string;
+  volume: number;
+  preAmp: number;
+  /** All settings at this point ('start' and 'settings'), so the user can go back to it. */
+  snapshot?: Profile;
+  /** 'levels': wear time covered by the entry and its average levels in dBFS. */
+  seconds?: number;
+  inputLevel?: number;
+  outputLevel?: number;
+}
+
+/** Seconds of listening summarised in one 'levels' entry. */
+export const USAGE_LEVEL_INTERVAL = 60;
+/** Setting changes are logged once they have rested this long, so a slider drag is one entry. */
+export const USAGE_SETTINGS_DELAY = 3000;
+export const USAGE_RETENTION_DAYS = 365;
+
+export const createUsageSession = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const logUsage = (entry: UsageEntry): Promise<IDBValidKey> =>
+  withStore(USAGE_STORE, 'readwrite', store => store.add(entry));
+
+/** Entries in chronological order, optionally only those since `since`. */
+export const listUsage = (since?: Date): Promise<UsageEntry[]> =>
+  withStore<UsageEntry[]>(USAGE_STORE, 'readonly', store =>
+    store.index('time').getAll(since ? IDBKeyRange.lowerBound(since.toISOString()) : undefined),
+  );
+
+export const clearUsage = (): Promise<undefined> =>
+  withStore(USAGE_STORE, 'readwrite', store => store.clear());
+
+/** Deletes entries older than the retention period. Ids grow with time, so everything up to the newest old id goes. */
+export const pruneUsage = async (days = USAGE_RETENTION_DAYS): Promise<void> => {
+  const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+  const keys = await withStore<IDBValidKey[]>(USAGE_STORE, 'readonly', store => store.index('time').getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+  if (keys.length === 0) return;
+  const newest = Math.max(...(keys as number[]));
+  await withStore(USAGE_STORE, 'readwrite', store => store.delete(IDBKeyRange.upperBound(newest)));
+};
+
+/** Running power average of levels in dBFS, so loud moments weigh as much as they sound. */
+export const createLevelAverage = () => {
+  let power = 0;
+  let weight = 0;
+  return {
+    add: (db: number, seconds = 1) => {
+      if (!Number.isFinite(db)) db = -120;
+      power += Math.pow(10, db / 10) * seconds;
+      weight += seconds;
+    },
+    get value() { return weight > 0 ? 10 * Math.log10(Math.max(power / weight, 1e-12)) : -Infinity; },
+    get seconds() { return weight; },
+    reset: () => {
+      power = 0;
+      weight = 0;
+    },
+  };
+};
+
+export interface UsageDay {
+  day: string;
+  /** Wear time in seconds. */
+  seconds: number;
+  /** Seconds per profile. */
+  profiles: Record<string, number>;
+  inputLevel: number;
+  outputLevel: number;
+  /** Average output minus average input (dB): how much the hearing aid amplified. */
+  gain: number;
+}
+
+export const summarizeUsage = (entries: UsageEntry[]): UsageDay[] => {
+  const days = new Map<string, { seconds: number; profiles: Record<string, number>; input: ReturnType<typeof createLevelAverage>; output: ReturnType<typeof createLevelAverage> }>();
+  entries.forEach(entry => {
+    if (entry.type !== 'levels' || !entry.seconds) return;
+    const key = dateKey(new Date(entry.time));
+    let day = days.get(key);
+    if (!day) {
+      day = { seconds: 0, profiles: {}, input: createLevelAverage(), output: createLevelAverage() };
+      days.set(key, day);
+    }
+    day.seconds += entry.seconds;
+    day.profiles[entry.profile] = (day.profiles[entry.profile] ?? 0) + entry.seconds;
+    day.input.add(entry.inputLevel ?? -Infinity, entry.seconds);
+    day.output.add(entry.outputLevel ?? -Infinity, entry.seconds);
+  });
+  return [...days.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([day, { seconds, profiles, input, output }]) => ({
+      day, seconds, profiles,
+      inputLevel: input.value,
+      outputLevel: output.value,
+      gain: output.value - input.value,
+    }));
+};
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  // Spreadsheet programs run text starting with = + - @ as a formula; profile names are user input, so those get a leading '.
+  const text = typeof value === 'number'
+    ? (Number.isFinite(value) ? String(Math.round(value * 10) / 10) : '')
+    : value.replace(/^[=+\-@\t\r]/, "'$&");
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatEq = (eq: Record<number, number>) =>
+  Object.keys(eq).map(Number).sort((a, b) => a - b).map(freq => `${freq}:${eq[freq]}`).join(' ');
+
+/** The log as CSV (comma separated, UTF-8 with BOM so spreadsheet programs detect the umlauts). */
+export const usageToCsv = (entries: UsageEntry[], t: Translate, profileLabel: (name: string) => string): string => {
+  const header = [
+    t('usage.csvTime'), t('usage.csvSession'), t('usage.csvEvent'), t('usage.csvProfile'), t('usage.csvVolume'), t('usage.csvPreAmp'),
+    t('usage.csvEqLeft'), t('usage.csvEqRight'), t('usage.csvSeconds'), t('usage.csvInput'), t('usage.csvOutput'),
+  ];
+  const rows = entries.map(entry => {
+    const eq = entry.snapshot?.eq;
+    const left = eq ? formatEq(isStereoEq(eq) ? eq.left : eq) : undefined;
+    const right = eq ? formatEq(isStereoEq(eq) ? eq.right : eq) : undefined;
+    return [
+      entry.time, entry.session, t(`usage.event.${entry.type}`), profileLabel(entry.profile), entry.volume, entry.preAmp,
+      left, right, entry.seconds, entry.inputLevel, entry.outputLevel,
+    ].map(csvCell).join(',');
+  });
+  return `\uFEFF${[header.map(csvCell).join(','), ...rows].join('\r\n')}\r\n`;
+};
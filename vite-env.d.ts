@@ -0,0 +1,4 @@
+/// <reference types="vite/client" />
+
+/** Hash of the app sources, set in vite.config.ts. */
+declare const __APP_BUILD__: string;
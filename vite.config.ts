@@ -1,10 +1,63 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+
+// Font subsets the UI never needs are left out of the precache (and .woff, which
+// every browser with service workers can replace by .woff2).
+const isPrecached = (file: string) => !file.endsWith('.woff') && !/-(cyrillic|greek|vietnamese)/.test(file);
+
+const listFiles = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+        entry.isDirectory() ? listFiles(path.join(dir, entry.name)).map(file => `${entry.name}/${file}`) : [entry.name])
+    : [];
+
+const SOURCE_ROOTS = ['index.html', 'index.tsx', 'index.css', 'constants.ts', 'types.ts', 'package.json', 'audio', 'components', 'hooks', 'i18n', 'utils', 'public', 'pwa'];
+
+/** Hash over everything the app is built from (tests left out), so it only changes when the app does. */
+const sourceHash = () => {
+  const hash = createHash('sha256');
+  SOURCE_ROOTS.flatMap(root => (fs.statSync(path.resolve(__dirname, root)).isDirectory()
+    ? listFiles(path.resolve(__dirname, root)).map(file => `${root}/${file}`)
+    : [root]))
+    .filter(file => !/\.test\.tsx?$/.test(file))
+    .sort()
+    .forEach(file => hash.update(file).update(fs.readFileSync(path.resolve(__dirname, file))));
+  return hash.digest('hex').slice(0, 12);
+};
+
+/** Emits /sw.js with the list of all build and public files, so the app works offline. */
+const serviceWorker = (): Plugin => ({
+  name: 'klangnah-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const hash = createHash('sha256');
+    const files: string[] = [];
+    Object.values(bundle).forEach(output => {
+      hash.update(output.type === 'chunk' ? output.code : output.source);
+      if (isPrecached(output.fileName)) files.push(`/${output.fileName}`);
+    });
+    listFiles(publicDir).forEach(file => {
+      hash.update(fs.readFileSync(path.join(publicDir, file)));
+      if (isPrecached(file)) files.push(`/${file}`);
+    });
+    const source = fs.readFileSync(path.resolve(__dirname, 'pwa/serviceWorker.js'), 'utf8')
+      .replace('__BUILD_VERSION__', hash.digest('hex').slice(0, 12))
+      .replace('__PRECACHE_FILES__', JSON.stringify(files.sort(), null, 2));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
+      plugins: [serviceWorker()],
       define: {
+        // Changes with the sources; the app uses it to tell that it was updated.
+        __APP_BUILD__: JSON.stringify(sourceHash()),
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
       },